@@ -1,51 +1,168 @@
-import { useState, useCallback, useEffect } from 'react';
-import { Settings, Upload, Video, Sparkles } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { Settings, Upload, Video, Sparkles, Zap, AlignLeft, Loader2, BarChart3 } from 'lucide-react';
 import FileUpload from './components/FileUpload';
 import TextReader from './components/TextReader';
+import RSVPReader from './components/RSVPReader';
 import SettingsPanel from './components/SettingsPanel';
 import BackgroundVideo from './components/BackgroundVideo';
-import type { ReaderSettings } from './types';
+import LibraryList from './components/LibraryList';
+import FocusTimer from './components/FocusTimer';
+import FocusBreak from './components/FocusBreak';
+import FocusSummary from './components/FocusSummary';
+import StatsDashboard from './components/StatsDashboard';
+import type { CheckpointResult, ParsedDocument, ReaderSettings, TextChunk } from './types';
 import { DEFAULT_SETTINGS } from './types';
+import { saveCheckpointResult } from './utils/checkpoints';
+import { createId } from './utils/database';
+import { detectFormat } from './utils/fileParsers';
+import { useDocumentImport } from './hooks/useDocumentImport';
+import { useLibrary } from './hooks/useLibrary';
+import { useReadingPosition } from './hooks/useReadingPosition';
+import { useHighlights } from './hooks/useHighlights';
+import { usePlaylist } from './hooks/usePlaylist';
+import { useFocusSession } from './hooks/useFocusSession';
+import { useReadingTracker } from './hooks/useReadingTracker';
+import { useTheme } from './hooks/useTheme';
 import './App.css';
 
-interface DocumentState {
-  title: string;
-  content: string;
-}
-
 function App() {
-  const [document, setDocument] = useState<DocumentState | null>(null);
+  const library = useLibrary();
+  const { save: saveToLibrary } = library;
+  // Library entry of the open document, once it has been saved
+  const [libraryId, setLibraryId] = useState<string | null>(null);
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+
+  // Completed imports go into the library so they reopen without parsing
+  const handleImported = useCallback(
+    async (file: File, parsed: ParsedDocument) => {
+      const format = detectFormat(file);
+      if (!format) return;
+      const entry = await saveToLibrary(file, format, parsed);
+      if (entry) setLibraryId(entry.id);
+    },
+    [saveToLibrary]
+  );
+
+  const {
+    document,
+    isImporting,
+    progress,
+    error: importError,
+    importFile,
+    cancelImport,
+    openDocument,
+    closeDocument,
+    clearError,
+  } = useDocumentImport({ onImported: handleImported });
   const [settings, setSettings] = useState<ReaderSettings>(() => {
     const saved = localStorage.getItem('adhd-reader-settings');
     if (saved) {
       try {
-        return { ...DEFAULT_SETTINGS, ...JSON.parse(saved) };
+        const { backgroundEnabled, ...rest } = JSON.parse(saved);
+        // Settings saved before the background source could be chosen
+        const source: Partial<ReaderSettings> = backgroundEnabled === false ? { backgroundSource: 'none' } : {};
+        return { ...DEFAULT_SETTINGS, ...source, ...rest };
       } catch {
         return DEFAULT_SETTINGS;
       }
     }
     return DEFAULT_SETTINGS;
   });
+  const theme = useTheme(settings.theme, settings.customThemes);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isStatsOpen, setIsStatsOpen] = useState(false);
+  const {
+    resumePosition,
+    startPosition,
+    isSettled: isPositionSettled,
+    savePosition,
+    dismissResume,
+  } = useReadingPosition(document);
+  const highlightStore = useHighlights(document);
+  const playlist = usePlaylist();
+  const focus = useFocusSession();
+  const isOnBreak = focus.phase === 'break';
+  const tracker = useReadingTracker(document, settings);
+  // Reader shortcuts stay off while something covers the reader
+  const keyboardEnabled = !isSettingsOpen && !isStatsOpen && !isOnBreak && !focus.summary;
 
   useEffect(() => {
     localStorage.setItem('adhd-reader-settings', JSON.stringify(settings));
   }, [settings]);
 
-  const handleFileLoaded = useCallback((title: string, content: string) => {
-    setDocument({ title, content });
-  }, []);
-
   const handleNewFile = () => {
-    setDocument(null);
+    focus.end();
+    closeDocument();
+    setLibraryId(null);
+    // Pick up the progress saved while reading
+    void library.refresh();
+  };
+
+  const handleImportFile = (file: File) => {
+    setLibraryId(null);
+    setLibraryError(null);
+    void importFile(file);
+  };
+
+  const handleOpenFromLibrary = async (id: string) => {
+    setLibraryError(null);
+    try {
+      const { entry, document: stored } = await library.open(id);
+      openDocument(stored);
+      setLibraryId(entry.id);
+    } catch (err) {
+      setLibraryError(err instanceof Error ? err.message : 'Failed to open the document');
+    }
+  };
+
+  const { updateProgress } = library;
+  // Like the reading position, progress waits until the resume offer is answered
+  const handleProgressChange = useCallback(
+    (fraction: number) => {
+      if (libraryId && isPositionSettled) void updateProgress(libraryId, fraction);
+    },
+    [libraryId, isPositionSettled, updateProgress]
+  );
+
+  const { recordChunk: recordFocusChunk } = focus;
+  const { recordChunk: recordTrackedChunk } = tracker;
+  const handleChunkChange = useCallback(
+    (chunk: TextChunk) => {
+      recordFocusChunk(chunk);
+      recordTrackedChunk(chunk);
+    },
+    [recordFocusChunk, recordTrackedChunk]
+  );
+
+  const handleCheckpointResult = (result: Pick<CheckpointResult, 'blockIndex' | 'questions' | 'correct' | 'reread'>) => {
+    if (!document) return;
+    saveCheckpointResult({
+      ...result,
+      id: createId(),
+      ...(document.hash ? { documentHash: document.hash } : {}),
+      title: document.title,
+      answeredAt: Date.now(),
+    }).catch((e) => console.warn('Failed to save the checkpoint result:', e));
+  };
+
+  const toggleReadingMode = () => {
+    setSettings((current) => ({
+      ...current,
+      readingMode: current.readingMode === 'rsvp' ? 'scroll' : 'rsvp',
+    }));
   };
 
   return (
     <div className="app">
-      {/* Background Video */}
+      {/* Background Game or Videos */}
       <BackgroundVideo
-        opacity={settings.backgroundEnabled ? settings.backgroundOpacity : 0}
-        isPlaying={settings.backgroundEnabled}
+        source={settings.backgroundSource}
+        opacity={settings.backgroundOpacity}
+        isPlaying={settings.backgroundSource !== 'none'}
+        runnerStyle={settings.backgroundStyle}
+        videos={playlist.videos}
+        videoFit={settings.backgroundVideoFit}
+        shuffle={settings.backgroundShuffle}
       />
 
       {/* Header - only show when document is loaded */}
@@ -59,14 +176,49 @@ function App() {
           <div className="header-logo">
             <Sparkles size={20} className="logo-icon" />
             <span>ADHD Reader</span>
+            {/* The rest of a streaming document is still being read */}
+            {isImporting && (
+              <span className="header-loading" title="Loading the rest of the document">
+                <Loader2 size={14} />
+                {progress ? `${Math.round((progress.done / Math.max(progress.total, 1)) * 100)}%` : '…'}
+              </span>
+            )}
           </div>
 
-          <button
-            className="header-button settings-button"
-            onClick={() => setIsSettingsOpen(true)}
-          >
-            <Settings size={20} />
-          </button>
+          <div className="header-actions">
+            <FocusTimer
+              phase={focus.phase}
+              remainingMs={focus.remainingMs}
+              round={focus.round}
+              goalProgress={focus.goalProgress}
+              onStart={() =>
+                focus.start({
+                  workMinutes: settings.focusWorkMinutes,
+                  breakMinutes: settings.focusBreakMinutes,
+                  goalType: settings.focusGoalType,
+                  goalAmount: settings.focusGoalAmount,
+                })
+              }
+              onEnd={focus.end}
+            />
+            <button
+              className="header-button"
+              onClick={toggleReadingMode}
+              title={settings.readingMode === 'rsvp' ? 'Switch to scrolling reader' : 'Switch to RSVP reader'}
+            >
+              {settings.readingMode === 'rsvp' ? <AlignLeft size={20} /> : <Zap size={20} />}
+              <span>{settings.readingMode === 'rsvp' ? 'Scroll' : 'RSVP'}</span>
+            </button>
+            <button className="header-button" onClick={() => setIsStatsOpen(true)} title="Reading stats">
+              <BarChart3 size={20} />
+            </button>
+            <button
+              className="header-button settings-button"
+              onClick={() => setIsSettingsOpen(true)}
+            >
+              <Settings size={20} />
+            </button>
+          </div>
         </header>
       )}
 
@@ -88,7 +240,7 @@ function App() {
                 <div className="feature-card">
                   <Video size={24} />
                   <h3>Background Video</h3>
-                  <p>Subway Surfers gameplay</p>
+                  <p>Runner game or your own clips</p>
                 </div>
                 <div className="feature-card">
                   <Sparkles size={24} />
@@ -102,33 +254,102 @@ function App() {
                 </div>
               </div>
 
-              <FileUpload onFileLoaded={handleFileLoaded} />
+              <FileUpload
+                onFileSelected={handleImportFile}
+                isLoading={isImporting}
+                progress={progress}
+                error={importError ?? libraryError}
+                onCancel={cancelImport}
+                onDismissError={() => {
+                  clearError();
+                  setLibraryError(null);
+                }}
+              />
 
-              <button
-                className="settings-hint"
-                onClick={() => setIsSettingsOpen(true)}
-              >
-                <Settings size={16} />
-                Customize settings
-              </button>
+              <LibraryList
+                entries={library.entries}
+                usage={library.usage}
+                onOpen={handleOpenFromLibrary}
+                onRename={library.rename}
+                onDelete={library.remove}
+              />
+
+              <div className="welcome-links">
+                <button
+                  className="settings-hint"
+                  onClick={() => setIsSettingsOpen(true)}
+                >
+                  <Settings size={16} />
+                  Customize settings
+                </button>
+                <button className="settings-hint" onClick={() => setIsStatsOpen(true)}>
+                  <BarChart3 size={16} />
+                  Reading stats
+                </button>
+              </div>
             </div>
           </div>
+        ) : settings.readingMode === 'rsvp' ? (
+          <RSVPReader
+            blocks={document.blocks}
+            settings={settings}
+            onSettingsChange={setSettings}
+            title={document.title}
+            keyboardEnabled={keyboardEnabled}
+            onProgressChange={handleProgressChange}
+            onWordsRead={tracker.recordWords}
+            onChunkChange={recordFocusChunk}
+            resumePosition={resumePosition}
+            onResumeHandled={dismissResume}
+            startPosition={startPosition}
+            onPositionChange={savePosition}
+            isOnBreak={isOnBreak}
+          />
         ) : (
           <TextReader
-            content={document.content}
+            blocks={document.blocks}
+            toc={document.toc}
             settings={settings}
+            onSettingsChange={setSettings}
             title={document.title}
+            keyboardEnabled={keyboardEnabled}
+            onProgressChange={handleProgressChange}
+            resumePosition={resumePosition}
+            onResumeHandled={dismissResume}
+            startPosition={startPosition}
+            onPositionChange={savePosition}
+            highlightStore={highlightStore}
+            onChunkChange={handleChunkChange}
+            isOnBreak={isOnBreak}
+            onCheckpointResult={handleCheckpointResult}
           />
         )}
       </main>
 
+      {/* Focus Session */}
+      {isOnBreak && <FocusBreak remainingMs={focus.remainingMs} onResume={focus.skipBreak} onEnd={focus.end} />}
+      {focus.summary && <FocusSummary summary={focus.summary} onClose={focus.dismissSummary} />}
+
+      {/* Reading Stats */}
+      {isStatsOpen && <StatsDashboard onClose={() => setIsStatsOpen(false)} />}
+
       {/* Settings Panel */}
       <SettingsPanel
         settings={settings}
         onSettingsChange={setSettings}
         isOpen={isSettingsOpen}
         onClose={() => setIsSettingsOpen(false)}
+        playlist={playlist}
       />
+
+      {/* Colored overlay themes tint everything, settings included */}
+      {theme.overlay && (
+        <div
+          className="theme-overlay"
+          style={{ background: theme.overlay.color, opacity: theme.overlay.opacity }}
+          aria-hidden="true"
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,228 @@
+import React from 'react';
+import { Highlighter, X, Download } from 'lucide-react';
+import type { Highlight, TocEntry } from '../types';
+import { findTocEntryIndex } from '../utils/documentModel';
+import { HIGHLIGHT_COLORS } from '../utils/themes';
+
+interface AnnotationsSidebarProps {
+  highlights: Highlight[];
+  toc: TocEntry[];
+  isOpen: boolean;
+  onSelect: (highlight: Highlight) => void;
+  onExport: (format: 'markdown' | 'json') => void;
+  onClose: () => void;
+}
+
+/**
+ * Highlights and notes in reading order, grouped by chapter, for jumping
+ * back to them and exporting
+ */
+const AnnotationsSidebar: React.FC<AnnotationsSidebarProps> = ({
+  highlights,
+  toc,
+  isOpen,
+  onSelect,
+  onExport,
+  onClose,
+}) => {
+  if (!isOpen) return null;
+
+  const chapters = highlights.map((highlight) => findTocEntryIndex(toc, highlight.start.blockIndex));
+
+  return (
+    <aside className="annotations-sidebar">
+      <div className="annotations-header">
+        <div className="annotations-title">
+          <Highlighter size={18} />
+          <h2>Highlights</h2>
+        </div>
+        <button className="annotations-close" onClick={onClose} title="Close highlights (H)">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="annotations-list">
+        {highlights.length === 0 ? (
+          <p className="annotations-empty">
+            Select text in the reader to highlight it or add a note.
+          </p>
+        ) : (
+          highlights.map((highlight, index) => {
+            const chapter = chapters[index];
+            const showChapter = index === 0 || chapter !== chapters[index - 1];
+            return (
+              <React.Fragment key={highlight.id}>
+                {showChapter && (
+                  <h3 className="annotations-chapter">{chapter >= 0 ? toc[chapter].title : 'Beginning'}</h3>
+                )}
+                <button
+                  className="annotation"
+                  style={{ borderLeftColor: HIGHLIGHT_COLORS[highlight.color].fill }}
+                  onClick={() => onSelect(highlight)}
+                >
+                  <span className="annotation-text">{highlight.text}</span>
+                  {highlight.note && <span className="annotation-note">{highlight.note}</span>}
+                </button>
+              </React.Fragment>
+            );
+          })
+        )}
+      </div>
+
+      {highlights.length > 0 && (
+        <div className="annotations-export">
+          <Download size={16} />
+          <span>Export</span>
+          <button onClick={() => onExport('markdown')}>Markdown</button>
+          <button onClick={() => onExport('json')}>JSON</button>
+        </div>
+      )}
+
+      <style>{`
+        .annotations-sidebar {
+          position: fixed;
+          top: 0;
+          right: 0;
+          bottom: 0;
+          width: 320px;
+          max-width: 85vw;
+          background: var(--color-surface);
+          border-left: 1px solid var(--color-border);
+          z-index: 60;
+          display: flex;
+          flex-direction: column;
+          animation: annotationsSlideIn 0.25s ease;
+        }
+
+        @keyframes annotationsSlideIn {
+          from { transform: translateX(100%); }
+          to { transform: translateX(0); }
+        }
+
+        .annotations-header {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          padding: 1rem 1.25rem;
+          border-bottom: 1px solid var(--color-border);
+        }
+
+        .annotations-title {
+          display: flex;
+          align-items: center;
+          gap: 0.6rem;
+          color: var(--color-text);
+        }
+
+        .annotations-title h2 {
+          margin: 0;
+          font-size: 1.05rem;
+          font-weight: 600;
+        }
+
+        .annotations-close {
+          background: none;
+          border: none;
+          color: var(--color-text-muted);
+          cursor: pointer;
+          padding: 0.4rem;
+          border-radius: 8px;
+        }
+
+        .annotations-close:hover {
+          background: var(--color-fill-strong);
+          color: var(--color-text);
+        }
+
+        .annotations-list {
+          flex: 1;
+          overflow-y: auto;
+          padding: 0.5rem 0.75rem;
+        }
+
+        .annotations-chapter {
+          margin: 0.75rem 0.25rem 0.375rem;
+          color: var(--color-text-muted);
+          font-size: 0.75rem;
+          font-weight: 600;
+          text-transform: uppercase;
+          letter-spacing: 0.04em;
+          white-space: nowrap;
+          overflow: hidden;
+          text-overflow: ellipsis;
+        }
+
+        .annotation {
+          display: flex;
+          flex-direction: column;
+          gap: 0.375rem;
+          width: 100%;
+          margin-bottom: 0.5rem;
+          padding: 0.625rem 0.75rem;
+          background: var(--color-fill);
+          border: none;
+          border-left: 4px solid;
+          border-radius: 6px;
+          color: var(--color-text);
+          font-size: 0.85rem;
+          line-height: 1.45;
+          text-align: left;
+          cursor: pointer;
+        }
+
+        .annotation:hover {
+          background: var(--color-fill-strong);
+        }
+
+        .annotation-text {
+          display: -webkit-box;
+          -webkit-line-clamp: 4;
+          -webkit-box-orient: vertical;
+          overflow: hidden;
+        }
+
+        .annotation-note {
+          color: var(--color-text-muted);
+          font-style: italic;
+        }
+
+        .annotations-empty {
+          margin: 1rem 0.5rem;
+          color: var(--color-text-muted);
+          font-size: 0.875rem;
+        }
+
+        .annotations-export {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+          padding: 0.875rem 1.25rem;
+          border-top: 1px solid var(--color-border);
+          color: var(--color-text-muted);
+          font-size: 0.85rem;
+        }
+
+        .annotations-export span {
+          margin-right: auto;
+        }
+
+        .annotations-export button {
+          padding: 0.375rem 0.75rem;
+          background: var(--color-fill-strong);
+          border: 1px solid var(--color-border);
+          border-radius: 6px;
+          color: var(--color-text);
+          font-size: 0.8rem;
+          cursor: pointer;
+        }
+
+        .annotations-export button:hover {
+          background: var(--color-accent-soft);
+          border-color: var(--color-accent-border);
+        }
+      `}</style>
+    </aside>
+  );
+};
+
+export default AnnotationsSidebar;
@@ -0,0 +1,84 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { PlaylistVideo, VideoFit } from '../types';
+
+interface BackgroundPlaylistProps {
+  videos: PlaylistVideo[];
+  isRunning: boolean;
+  fit: VideoFit;
+  shuffle: boolean;
+}
+
+/**
+ * Index of the video to play after `current`
+ */
+function nextIndex(current: number, count: number, shuffle: boolean): number {
+  if (!shuffle || count < 2) return (current + 1) % count;
+  // Any other video, so the same clip never plays twice in a row
+  return (current + 1 + Math.floor(Math.random() * (count - 1))) % count;
+}
+
+/**
+ * Plays the user's own videos muted, one after another, looping the
+ * playlist. Pauses while the tab is hidden.
+ */
+const BackgroundPlaylist: React.FC<BackgroundPlaylistProps> = ({ videos, isRunning, fit, shuffle }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [index, setIndex] = useState(0);
+  const video = videos.length > 0 ? videos[index % videos.length] : null;
+
+  // Each video gets an object URL for as long as it is playing
+  useEffect(() => {
+    const element = videoRef.current;
+    if (!element || !video) return;
+    const url = URL.createObjectURL(video.blob);
+    element.src = url;
+    return () => {
+      element.removeAttribute('src');
+      element.load();
+      URL.revokeObjectURL(url);
+    };
+  }, [video]);
+
+  useEffect(() => {
+    const element = videoRef.current;
+    if (!element || !video) return;
+
+    const update = () => {
+      if (isRunning && !document.hidden) {
+        // Rejected if the browser blocks autoplay; the video waits for the next change
+        element.play().catch(() => {});
+      } else {
+        element.pause();
+      }
+    };
+
+    update();
+    document.addEventListener('visibilitychange', update);
+    return () => document.removeEventListener('visibilitychange', update);
+  }, [isRunning, video]);
+
+  const playNext = () => {
+    if (videos.length > 1) setIndex((current) => nextIndex(current % videos.length, videos.length, shuffle));
+  };
+
+  if (!video) return null;
+
+  return (
+    <video
+      ref={videoRef}
+      muted
+      playsInline
+      // A single video loops on its own; a playlist moves on when one ends
+      loop={videos.length === 1}
+      onEnded={playNext}
+      onError={() => {
+        console.warn(`Background video "${video.name}" could not be played`);
+        playNext();
+      }}
+      style={{ display: 'block', width: '100%', height: '100%', objectFit: fit }}
+      aria-hidden="true"
+    />
+  );
+};
+
+export default BackgroundPlaylist;
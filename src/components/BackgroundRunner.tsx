@@ -0,0 +1,84 @@
+import React, { useEffect, useRef } from 'react';
+import type { RunnerStyle } from '../types';
+import { createRunner, drawRunner, RUNNER_STYLES, stepRunner } from '../utils/runner';
+import type { RunnerState } from '../utils/runner';
+
+interface BackgroundRunnerProps {
+  isRunning: boolean;
+  runnerStyle: RunnerStyle;
+}
+
+/** Longest simulated step, so a stalled frame doesn't skip the runner ahead */
+const MAX_FRAME_SECONDS = 0.1;
+
+/**
+ * Built-in endless runner, drawn on a canvas so it works without the
+ * network. Pauses while the tab is hidden.
+ */
+const BackgroundRunner: React.FC<BackgroundRunnerProps> = ({ isRunning, runnerStyle }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Kept across pauses and style changes so the run carries on
+  const runnerRef = useRef<RunnerState | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    const runner = (runnerRef.current ??= createRunner(Date.now()));
+    const palette = RUNNER_STYLES[runnerStyle];
+    let frame = 0;
+    let lastTime: number | null = null;
+
+    const draw = () => drawRunner(context, runner, palette, canvas.clientWidth, canvas.clientHeight);
+
+    const resize = () => {
+      const ratio = Math.min(window.devicePixelRatio || 1, 2);
+      canvas.width = Math.round(canvas.clientWidth * ratio);
+      canvas.height = Math.round(canvas.clientHeight * ratio);
+      context.setTransform(ratio, 0, 0, ratio, 0, 0);
+      draw();
+    };
+
+    const tick = (now: number) => {
+      const seconds = lastTime === null ? 0 : Math.min((now - lastTime) / 1000, MAX_FRAME_SECONDS);
+      lastTime = now;
+      stepRunner(runner, seconds);
+      draw();
+      frame = requestAnimationFrame(tick);
+    };
+
+    const start = () => {
+      if (frame || !isRunning || document.hidden) return;
+      lastTime = null;
+      frame = requestAnimationFrame(tick);
+    };
+
+    const stop = () => {
+      cancelAnimationFrame(frame);
+      frame = 0;
+    };
+
+    const handleVisibilityChange = () => (document.hidden ? stop() : start());
+
+    resize();
+    start();
+    window.addEventListener('resize', resize);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      stop();
+      window.removeEventListener('resize', resize);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [isRunning, runnerStyle]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      style={{ display: 'block', width: '100%', height: '100%' }}
+      aria-hidden="true"
+    />
+  );
+};
+
+export default BackgroundRunner;
@@ -1,18 +1,34 @@
 import React from 'react';
+import BackgroundRunner from './BackgroundRunner';
+import BackgroundPlaylist from './BackgroundPlaylist';
+import type { BackgroundSource, PlaylistVideo, RunnerStyle, VideoFit } from '../types';
 
 interface BackgroundVideoProps {
+  source: BackgroundSource;
   opacity: number;
   isPlaying: boolean;
+  runnerStyle: RunnerStyle;
+  videos: PlaylistVideo[];
+  videoFit: VideoFit;
+  shuffle: boolean;
 }
 
 /**
- * Background video component that plays Subway Surfers gameplay
+ * Background behind the reader: the built-in runner game or the user's
+ * own videos
  * Provides visual stimulation for ADHD focus while reading
  */
-const BackgroundVideo: React.FC<BackgroundVideoProps> = ({ opacity, isPlaying }) => {
-  // Using a long Subway Surfers gameplay video (no commentary, just gameplay)
-  // This is a 1-hour gameplay video that loops well
-  const videoId = 'XxGkYfCijNE';
+const BackgroundVideo: React.FC<BackgroundVideoProps> = ({
+  source,
+  opacity,
+  isPlaying,
+  runnerStyle,
+  videos,
+  videoFit,
+  shuffle,
+}) => {
+  if (source === 'none') return null;
+  const isRunning = isPlaying && opacity > 0;
 
   return (
     <div
@@ -28,24 +44,11 @@ const BackgroundVideo: React.FC<BackgroundVideoProps> = ({ opacity, isPlaying })
         overflow: 'hidden',
       }}
     >
-      <iframe
-        src={`https://www.youtube.com/embed/${videoId}?autoplay=${isPlaying ? 1 : 0}&mute=1&loop=1&playlist=${videoId}&controls=0&showinfo=0&rel=0&modestbranding=1&playsinline=1&enablejsapi=1`}
-        style={{
-          position: 'absolute',
-          top: '50%',
-          left: '50%',
-          transform: 'translate(-50%, -50%)',
-          width: '177.78vh', // 16:9 aspect ratio
-          height: '100vh',
-          minWidth: '100%',
-          minHeight: '56.25vw', // 16:9 aspect ratio
-          border: 'none',
-          pointerEvents: 'none',
-        }}
-        allow="autoplay; encrypted-media"
-        allowFullScreen
-        title="Background gameplay video"
-      />
+      {source === 'game' ? (
+        <BackgroundRunner isRunning={isRunning} runnerStyle={runnerStyle} />
+      ) : (
+        <BackgroundPlaylist videos={videos} isRunning={isRunning} fit={videoFit} shuffle={shuffle} />
+      )}
     </div>
   );
 };
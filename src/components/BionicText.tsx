@@ -0,0 +1,159 @@
+import React, { useMemo } from 'react';
+import type { ReactNode } from 'react';
+import type { InlineSpan } from '../types';
+import { toBionicSegments } from '../utils/bionic';
+import type { BionicSegment } from '../utils/bionic';
+import type { ChunkHighlight } from '../utils/highlights';
+
+interface BionicTextProps {
+  spans: InlineSpan[];
+  enabled: boolean;
+  fixation: number;
+  saccade: number;
+  /** Highlighted ranges, as offsets into the spans' combined text */
+  highlights?: ChunkHighlight[];
+  /** The word being read aloud, in the same offsets */
+  spoken?: { start: number; end: number };
+  /** Search matches, in the same offsets */
+  searchMatches?: { start: number; end: number }[];
+  /** The current search match, one of `searchMatches` */
+  activeSearchMatch?: { start: number; end: number };
+}
+
+/** A range of the combined text to wrap in a mark element */
+interface MarkedRange {
+  start: number;
+  end: number;
+  className: string;
+  highlightId?: string;
+}
+
+/**
+ * Wrap rendered text in elements for its inline marks
+ */
+function applyMarks(span: InlineSpan, content: ReactNode, key: number): ReactNode {
+  let node = content;
+  const marks = span.marks ?? [];
+  if (marks.includes('code')) node = <code>{node}</code>;
+  if (marks.includes('italic')) node = <em>{node}</em>;
+  if (marks.includes('bold')) node = <strong>{node}</strong>;
+  if (marks.includes('link') && span.href) {
+    const isExternal = /^[a-z][a-z0-9+.-]*:/i.test(span.href);
+    node = isExternal ? (
+      <a href={span.href} target="_blank" rel="noopener noreferrer">
+        {node}
+      </a>
+    ) : (
+      <span className="internal-link">{node}</span>
+    );
+  }
+  return <React.Fragment key={key}>{node}</React.Fragment>;
+}
+
+/**
+ * Render a piece of text that starts at `offset`, wrapping the parts
+ * covered by marked ranges in mark elements
+ */
+function renderMarked(
+  text: string,
+  offset: number,
+  ranges: MarkedRange[],
+  render: (text: string) => ReactNode
+): ReactNode {
+  const end = offset + text.length;
+  const overlapping = ranges.filter((range) => range.start < end && range.end > offset);
+  if (!overlapping.length) return render(text);
+
+  const cuts = new Set([offset, end]);
+  for (const range of overlapping) {
+    if (range.start > offset) cuts.add(range.start);
+    if (range.end < end) cuts.add(range.end);
+  }
+  const points = [...cuts].sort((a, b) => a - b);
+
+  return points.slice(0, -1).map((from, index) => {
+    const piece = render(text.slice(from - offset, points[index + 1] - offset));
+    // Later ranges are drawn over earlier ones
+    const range = [...overlapping].reverse().find((item) => item.start <= from && item.end > from);
+    return range ? (
+      <mark key={index} className={range.className} data-highlight-id={range.highlightId}>
+        {piece}
+      </mark>
+    ) : (
+      <React.Fragment key={index}>{piece}</React.Fragment>
+    );
+  });
+}
+
+/**
+ * Renders inline spans with the beginning of each word bolded (bionic reading)
+ * Falls back to plain text when disabled; code spans are never bolded
+ */
+const BionicText: React.FC<BionicTextProps> = ({
+  spans,
+  enabled,
+  fixation,
+  saccade,
+  highlights,
+  spoken,
+  searchMatches,
+  activeSearchMatch,
+}) => {
+  const segmentsBySpan = useMemo(() => {
+    if (!enabled) return null;
+    // Keep saccade counting continuous across spans
+    let wordIndex = 0;
+    return spans.map((span): BionicSegment[] => {
+      if (span.marks?.includes('code')) return [{ text: span.text, bold: false }];
+      const result = toBionicSegments(span.text, { fixation, saccade }, wordIndex);
+      wordIndex += result.wordCount;
+      return result.segments;
+    });
+  }, [spans, enabled, fixation, saccade]);
+
+  // Where each span starts in the combined text, for placing highlights
+  const spanOffsets = useMemo(() => {
+    const offsets = [0];
+    for (const span of spans) offsets.push(offsets[offsets.length - 1] + span.text.length);
+    return offsets;
+  }, [spans]);
+
+  // Search matches show over highlights, and the spoken word over both
+  const ranges = useMemo(() => {
+    const result: MarkedRange[] = (highlights ?? []).map((highlight) => ({
+      start: highlight.start,
+      end: highlight.end,
+      className: `highlight highlight-${highlight.color}`,
+      highlightId: highlight.id,
+    }));
+    for (const match of searchMatches ?? []) {
+      result.push({
+        start: match.start,
+        end: match.end,
+        className: match === activeSearchMatch ? 'search-match active' : 'search-match',
+      });
+    }
+    if (spoken) result.push({ ...spoken, className: 'spoken-word' });
+    return result;
+  }, [highlights, searchMatches, activeSearchMatch, spoken]);
+
+  return (
+    <>
+      {spans.map((span, spanIndex) => {
+        const segments = segmentsBySpan?.[spanIndex] ?? [{ text: span.text, bold: false }];
+        const content: ReactNode[] = [];
+        let offset = spanOffsets[spanIndex];
+        for (const [index, segment] of segments.entries()) {
+          const node = renderMarked(segment.text, offset, ranges, (text) =>
+            segment.bold ? <b className="bionic-fixation">{text}</b> : text
+          );
+          content.push(<React.Fragment key={index}>{node}</React.Fragment>);
+          offset += segment.text.length;
+        }
+        return applyMarks(span, content, spanIndex);
+      })}
+    </>
+  );
+};
+
+export default React.memo(BionicText);
@@ -0,0 +1,332 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ListChecks, Check, X, RotateCcw } from 'lucide-react';
+import type { QuizQuestion } from '../utils/quiz';
+import { BLANK } from '../utils/quiz';
+
+interface CheckpointQuizProps {
+  questions: QuizQuestion[];
+  /** All questions were answered; `reread` asks to go back over the section */
+  onComplete: (correct: number, reread: boolean) => void;
+  /** Closed without answering */
+  onSkip: () => void;
+}
+
+/**
+ * Short quiz on the section just read. Each answer is marked right away,
+ * and a miss offers to read the section again.
+ */
+const CheckpointQuiz: React.FC<CheckpointQuizProps> = ({ questions, onComplete, onSkip }) => {
+  const [index, setIndex] = useState(0);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [correct, setCorrect] = useState(0);
+
+  const isFinished = index >= questions.length;
+  const question = questions[Math.min(index, questions.length - 1)];
+
+  const choose = useCallback(
+    (option: number) => {
+      if (selected !== null || isFinished || option >= question.options.length) return;
+      setSelected(option);
+      if (option === question.answer) setCorrect((count) => count + 1);
+    },
+    [selected, isFinished, question]
+  );
+
+  const next = useCallback(() => {
+    setSelected(null);
+    setIndex((current) => current + 1);
+  }, []);
+
+  // Number keys pick an option, Enter moves on
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onSkip();
+      } else if (/^[1-9]$/.test(e.key)) {
+        choose(parseInt(e.key) - 1);
+      } else if (e.key === 'Enter' && selected !== null) {
+        e.preventDefault();
+        next();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [choose, next, selected, onSkip]);
+
+  const [before, after] = question.text?.split(BLANK) ?? [];
+  const missed = questions.length - correct;
+
+  return (
+    <>
+      <div className="checkpoint-overlay" />
+      <div className="checkpoint-quiz" role="dialog" aria-label="Comprehension check">
+        <div className="checkpoint-header">
+          <ListChecks size={20} />
+          <span>
+            Quick check{!isFinished && questions.length > 1 ? ` · ${index + 1} of ${questions.length}` : ''}
+          </span>
+          {!isFinished && (
+            <button className="checkpoint-skip" onClick={onSkip} title="Skip (Esc)">
+              Skip
+            </button>
+          )}
+        </div>
+
+        {isFinished ? (
+          <div className="checkpoint-result">
+            <h2>
+              {correct} of {questions.length} right
+            </h2>
+            <p>
+              {missed === 0
+                ? 'Nicely done, that section stuck.'
+                : 'Some of that didn’t stick. Going over the section again can help.'}
+            </p>
+            <div className="checkpoint-actions">
+              {missed > 0 && (
+                <button className="checkpoint-primary" onClick={() => onComplete(correct, true)}>
+                  <RotateCcw size={16} />
+                  Re-read section
+                </button>
+              )}
+              <button
+                className={missed > 0 ? 'checkpoint-secondary' : 'checkpoint-primary'}
+                onClick={() => onComplete(correct, false)}
+              >
+                Keep reading
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <p className="checkpoint-prompt">{question.prompt}</p>
+            {question.text && (
+              <blockquote className="checkpoint-text">
+                {before}
+                <span className="checkpoint-blank">
+                  {selected !== null ? question.options[question.answer] : BLANK}
+                </span>
+                {after}
+              </blockquote>
+            )}
+            <div className="checkpoint-options">
+              {question.options.map((option, optionIndex) => {
+                const state =
+                  selected === null
+                    ? ''
+                    : optionIndex === question.answer
+                      ? 'right'
+                      : optionIndex === selected
+                        ? 'wrong'
+                        : 'faded';
+                return (
+                  <button
+                    key={optionIndex}
+                    className={`checkpoint-option ${state}`}
+                    onClick={() => choose(optionIndex)}
+                    disabled={selected !== null}
+                  >
+                    <span className="checkpoint-key">{optionIndex + 1}</span>
+                    <span className="checkpoint-option-text">{option}</span>
+                    {state === 'right' && <Check size={16} />}
+                    {state === 'wrong' && <X size={16} />}
+                  </button>
+                );
+              })}
+            </div>
+            {selected !== null && (
+              <button className="checkpoint-primary" onClick={next}>
+                {index + 1 < questions.length ? 'Next question' : 'See result'}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+
+      <style>{`
+        .checkpoint-overlay {
+          position: fixed;
+          inset: 0;
+          z-index: 85;
+          background: rgba(0, 0, 0, 0.6);
+        }
+
+        .checkpoint-quiz {
+          position: fixed;
+          top: 50%;
+          left: 50%;
+          z-index: 86;
+          transform: translate(-50%, -50%);
+          display: flex;
+          flex-direction: column;
+          gap: 1rem;
+          width: 440px;
+          max-width: 92vw;
+          max-height: 90vh;
+          overflow-y: auto;
+          padding: 1.5rem;
+          background: var(--color-surface);
+          border: 1px solid var(--color-border);
+          border-radius: 16px;
+          box-shadow: 0 16px 48px rgba(0, 0, 0, 0.5);
+          color: var(--color-text);
+        }
+
+        .checkpoint-header {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+          color: var(--color-accent);
+          font-size: 0.85rem;
+          font-weight: 600;
+        }
+
+        .checkpoint-skip {
+          margin-left: auto;
+          padding: 0.25rem 0.5rem;
+          background: none;
+          border: none;
+          border-radius: 6px;
+          color: var(--color-text-muted);
+          font-size: 0.8rem;
+          cursor: pointer;
+        }
+
+        .checkpoint-skip:hover {
+          background: var(--color-fill-strong);
+          color: var(--color-text);
+        }
+
+        .checkpoint-prompt {
+          margin: 0;
+          font-size: 1rem;
+          font-weight: 600;
+        }
+
+        .checkpoint-text {
+          margin: 0;
+          padding: 0.75rem 1rem;
+          background: var(--color-fill);
+          border-left: 3px solid var(--color-accent);
+          border-radius: 0 8px 8px 0;
+          line-height: 1.6;
+          color: var(--color-text);
+        }
+
+        .checkpoint-blank {
+          color: var(--color-accent);
+          font-weight: 600;
+        }
+
+        .checkpoint-options {
+          display: flex;
+          flex-direction: column;
+          gap: 0.5rem;
+        }
+
+        .checkpoint-option {
+          display: flex;
+          align-items: center;
+          gap: 0.75rem;
+          padding: 0.625rem 0.75rem;
+          background: var(--color-fill);
+          border: 1px solid var(--color-border);
+          border-radius: 8px;
+          color: var(--color-text);
+          font-size: 0.9rem;
+          line-height: 1.4;
+          text-align: left;
+          cursor: pointer;
+          transition: all 0.2s;
+        }
+
+        .checkpoint-option:not(:disabled):hover {
+          background: var(--color-accent-soft);
+          border-color: var(--color-accent-border);
+        }
+
+        .checkpoint-option:disabled {
+          cursor: default;
+        }
+
+        .checkpoint-option.right {
+          background: var(--color-accent-soft);
+          border-color: var(--color-accent);
+          color: var(--color-accent);
+        }
+
+        .checkpoint-option.wrong {
+          background: rgba(255, 107, 107, 0.15);
+          border-color: #ff6b6b;
+          color: #ff6b6b;
+        }
+
+        .checkpoint-option.faded {
+          opacity: 0.5;
+        }
+
+        .checkpoint-key {
+          flex-shrink: 0;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          width: 1.5rem;
+          height: 1.5rem;
+          border-radius: 4px;
+          background: var(--color-fill-strong);
+          font-size: 0.75rem;
+          font-weight: 600;
+        }
+
+        .checkpoint-option-text {
+          flex: 1;
+        }
+
+        .checkpoint-result h2 {
+          margin: 0 0 0.5rem;
+          font-size: 1.25rem;
+        }
+
+        .checkpoint-result p {
+          margin: 0 0 1.25rem;
+          color: var(--color-text-secondary);
+          line-height: 1.5;
+        }
+
+        .checkpoint-actions {
+          display: flex;
+          flex-direction: column;
+          gap: 0.5rem;
+        }
+
+        .checkpoint-primary,
+        .checkpoint-secondary {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          gap: 0.5rem;
+          width: 100%;
+          padding: 0.75rem;
+          border-radius: 8px;
+          font-size: 0.95rem;
+          font-weight: 600;
+          cursor: pointer;
+        }
+
+        .checkpoint-primary {
+          background: var(--color-accent);
+          border: none;
+          color: var(--color-on-accent);
+        }
+
+        .checkpoint-secondary {
+          background: none;
+          border: 1px solid var(--color-border-strong);
+          color: var(--color-text);
+        }
+      `}</style>
+    </>
+  );
+};
+
+export default CheckpointQuiz;
@@ -1,40 +1,42 @@
-import React, { useCallback, useState } from 'react';
+import React, { useCallback } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { Upload, FileText, AlertCircle, Loader2 } from 'lucide-react';
-import { getSupportedFormatsText, parseFile } from '../utils/fileParsers';
+import { getSupportedFormatsText } from '../utils/fileParsers';
+import type { ParseProgress } from '../types';
 
 interface FileUploadProps {
-  onFileLoaded: (title: string, content: string) => void;
+  onFileSelected: (file: File) => void;
+  isLoading: boolean;
+  /** Pages or chapters read so far, for formats that report it */
+  progress: ParseProgress | null;
+  error: string | null;
+  onCancel: () => void;
+  onDismissError: () => void;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileLoaded }) => {
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  const handleFile = useCallback(
-    async (file: File) => {
-      setIsLoading(true);
-      setError(null);
-
-      try {
-        const { title, content } = await parseFile(file);
-        onFileLoaded(title, content);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to parse file');
-      } finally {
-        setIsLoading(false);
-      }
+const FileUpload: React.FC<FileUploadProps> = ({
+  onFileSelected,
+  isLoading,
+  progress,
+  error,
+  onCancel,
+  onDismissError,
+}) => {
+  const cancelImport = useCallback(
+    (e: React.MouseEvent) => {
+      e.stopPropagation();
+      onCancel();
     },
-    [onFileLoaded]
+    [onCancel]
   );
 
   const onDrop = useCallback(
     (acceptedFiles: File[]) => {
       if (acceptedFiles.length > 0) {
-        handleFile(acceptedFiles[0]);
+        onFileSelected(acceptedFiles[0]);
       }
     },
-    [handleFile]
+    [onFileSelected]
   );
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
@@ -48,6 +50,11 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileLoaded }) => {
       'image/vnd.djvu': ['.djvu'],
       'application/vnd.amazon.ebook': ['.azw3', '.azw'],
       'text/plain': ['.txt'],
+      'text/markdown': ['.md', '.markdown'],
+      'text/html': ['.html', '.htm', '.xhtml'],
+      'application/rtf': ['.rtf'],
+      'application/vnd.oasis.opendocument.text': ['.odt'],
+      'application/x-fictionbook+xml': ['.fb2'],
     },
     multiple: false,
     disabled: isLoading,
@@ -66,7 +73,24 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileLoaded }) => {
             <>
               <Loader2 className="dropzone-icon spinning" size={64} />
               <h2>Processing your file...</h2>
-              <p>Extracting text and preparing for reading</p>
+              {progress ? (
+                <>
+                  <p>
+                    Reading {progress.unit} {progress.done} of {progress.total}
+                  </p>
+                  <div className="dropzone-progress">
+                    <div
+                      className="dropzone-progress-fill"
+                      style={{ width: `${(progress.done / Math.max(progress.total, 1)) * 100}%` }}
+                    />
+                  </div>
+                </>
+              ) : (
+                <p>Extracting text and preparing for reading</p>
+              )}
+              <button className="dropzone-cancel" onClick={cancelImport}>
+                Cancel
+              </button>
             </>
           ) : isDragActive ? (
             <>
@@ -92,7 +116,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileLoaded }) => {
         <div className="error-message">
           <AlertCircle size={20} />
           <span>{error}</span>
-          <button onClick={() => setError(null)}>Dismiss</button>
+          <button onClick={onDismissError}>Dismiss</button>
         </div>
       )}
 
@@ -110,21 +134,21 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileLoaded }) => {
           width: 100%;
           max-width: 500px;
           padding: 3rem 2rem;
-          border: 3px dashed rgba(255, 255, 255, 0.3);
+          border: 3px dashed var(--color-border-strong);
           border-radius: 20px;
-          background: rgba(255, 255, 255, 0.05);
+          background: var(--color-fill);
           cursor: pointer;
           transition: all 0.3s ease;
         }
 
         .dropzone:hover {
-          border-color: rgba(0, 255, 136, 0.5);
-          background: rgba(0, 255, 136, 0.05);
+          border-color: var(--color-accent-border);
+          background: var(--color-accent-soft);
         }
 
         .dropzone-active {
-          border-color: #00ff88;
-          background: rgba(0, 255, 136, 0.1);
+          border-color: var(--color-accent);
+          background: var(--color-accent-soft);
           transform: scale(1.02);
         }
 
@@ -133,27 +157,60 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileLoaded }) => {
           opacity: 0.8;
         }
 
+        .dropzone-progress {
+          width: 100%;
+          max-width: 320px;
+          height: 6px;
+          margin-top: 1rem;
+          background: var(--color-fill-strong);
+          border-radius: 3px;
+          overflow: hidden;
+        }
+
+        .dropzone-progress-fill {
+          height: 100%;
+          background: var(--color-accent);
+          transition: width 0.2s ease;
+        }
+
+        .dropzone-cancel {
+          margin-top: 1.25rem;
+          padding: 0.5rem 1.25rem;
+          background: var(--color-fill-strong);
+          border: 1px solid var(--color-border-strong);
+          border-radius: 8px;
+          color: inherit;
+          cursor: pointer;
+          font-size: 0.875rem;
+          /* The loading dropzone ignores clicks; the button still needs them */
+          pointer-events: auto;
+        }
+
+        .dropzone-cancel:hover {
+          background: var(--color-fill-heavy);
+        }
+
         .dropzone-content {
           display: flex;
           flex-direction: column;
           align-items: center;
           text-align: center;
-          color: rgba(255, 255, 255, 0.9);
+          color: var(--color-text);
         }
 
         .dropzone-icon {
-          color: rgba(255, 255, 255, 0.6);
+          color: var(--color-text-muted);
           margin-bottom: 1.5rem;
           transition: all 0.3s ease;
         }
 
         .dropzone:hover .dropzone-icon {
-          color: #00ff88;
+          color: var(--color-accent);
           transform: translateY(-5px);
         }
 
         .dropzone-active .dropzone-icon {
-          color: #00ff88;
+          color: var(--color-accent);
         }
 
         .dropzone-content h2 {
@@ -164,7 +221,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileLoaded }) => {
 
         .dropzone-content p {
           margin: 0;
-          color: rgba(255, 255, 255, 0.6);
+          color: var(--color-text-muted);
           font-size: 1rem;
         }
 
@@ -177,13 +234,13 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileLoaded }) => {
         }
 
         .supported-formats span {
-          color: rgba(255, 255, 255, 0.5);
+          color: var(--color-text-muted);
           display: block;
           margin-bottom: 0.25rem;
         }
 
         .supported-formats strong {
-          color: rgba(255, 255, 255, 0.8);
+          color: var(--color-text-secondary);
           font-weight: 500;
         }
 
@@ -203,7 +260,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileLoaded }) => {
         .error-message button {
           margin-left: auto;
           padding: 0.25rem 0.75rem;
-          background: rgba(255, 255, 255, 0.1);
+          background: var(--color-fill-strong);
           border: none;
           border-radius: 5px;
           color: inherit;
@@ -212,7 +269,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileLoaded }) => {
         }
 
         .error-message button:hover {
-          background: rgba(255, 255, 255, 0.2);
+          background: var(--color-fill-heavy);
         }
 
         .spinning {
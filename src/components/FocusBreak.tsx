@@ -0,0 +1,128 @@
+import React from 'react';
+import { Coffee, BookOpen, Square } from 'lucide-react';
+import { formatCountdown } from '../utils/format';
+
+interface FocusBreakProps {
+  remainingMs: number;
+  onResume: () => void;
+  onEnd: () => void;
+}
+
+/**
+ * Dimmed screen shown over the reader during a focus session break
+ */
+const FocusBreak: React.FC<FocusBreakProps> = ({ remainingMs, onResume, onEnd }) => (
+  <div className="focus-break" role="dialog" aria-label="Break">
+    <div className="focus-break-content">
+      <Coffee size={40} className="focus-break-icon" />
+      <h2>Time for a break</h2>
+      <div className="focus-break-countdown">{formatCountdown(remainingMs)}</div>
+      <p>Stand up, stretch, look at something far away. Your place in the document is saved.</p>
+      <div className="focus-break-actions">
+        <button className="focus-break-resume" onClick={onResume}>
+          <BookOpen size={18} />
+          Back to reading
+        </button>
+        <button className="focus-break-end" onClick={onEnd}>
+          <Square size={16} />
+          End session
+        </button>
+      </div>
+    </div>
+
+    <style>{`
+      .focus-break {
+        position: fixed;
+        inset: 0;
+        z-index: 90;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        background: rgba(5, 5, 15, 0.88);
+        backdrop-filter: blur(6px);
+        animation: focusBreakFadeIn 0.6s ease;
+      }
+
+      @keyframes focusBreakFadeIn {
+        from { opacity: 0; }
+        to { opacity: 1; }
+      }
+
+      .focus-break-content {
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        gap: 1rem;
+        max-width: 360px;
+        padding: 2rem;
+        color: var(--color-text);
+        text-align: center;
+      }
+
+      .focus-break-icon {
+        color: var(--color-accent);
+      }
+
+      .focus-break h2 {
+        margin: 0;
+        font-size: 1.4rem;
+        font-weight: 600;
+        color: var(--color-text);
+      }
+
+      .focus-break-countdown {
+        font-size: 3.5rem;
+        font-weight: 300;
+        font-variant-numeric: tabular-nums;
+        color: var(--color-text);
+      }
+
+      .focus-break p {
+        margin: 0;
+        font-size: 0.95rem;
+        line-height: 1.5;
+        color: var(--color-text-muted);
+      }
+
+      .focus-break-actions {
+        display: flex;
+        gap: 0.75rem;
+        margin-top: 0.5rem;
+      }
+
+      .focus-break-actions button {
+        display: flex;
+        align-items: center;
+        gap: 0.5rem;
+        padding: 0.625rem 1.125rem;
+        border-radius: 8px;
+        font-size: 0.9rem;
+        cursor: pointer;
+        transition: all 0.2s;
+      }
+
+      .focus-break-resume {
+        background: var(--color-accent);
+        border: none;
+        color: var(--color-on-accent);
+        font-weight: 600;
+      }
+
+      .focus-break-resume:hover {
+        background: #00e67a;
+      }
+
+      .focus-break-end {
+        background: var(--color-fill);
+        border: 1px solid var(--color-border);
+        color: var(--color-text-secondary);
+      }
+
+      .focus-break-end:hover {
+        background: var(--color-fill-strong);
+      }
+    `}</style>
+  </div>
+);
+
+export default FocusBreak;
@@ -0,0 +1,134 @@
+import React, { useEffect } from 'react';
+import { Trophy, Timer } from 'lucide-react';
+import type { FocusSummary as Summary } from '../hooks/useFocusSession';
+import { formatDuration } from '../utils/format';
+
+interface FocusSummaryProps {
+  summary: Summary;
+  onClose: () => void;
+}
+
+/**
+ * What a finished focus session covered
+ */
+const FocusSummary: React.FC<FocusSummaryProps> = ({ summary, onClose }) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const stats = [
+    { label: 'Time read', value: formatDuration(summary.readMs) },
+    { label: 'Words', value: summary.words.toLocaleString() },
+    { label: 'Chunks', value: summary.chunks.toLocaleString() },
+    { label: 'Pages', value: summary.pages.toLocaleString() },
+    { label: summary.rounds === 1 ? 'Round' : 'Rounds', value: String(summary.rounds) },
+  ];
+
+  return (
+    <>
+      <div className="focus-summary-overlay" onClick={onClose} />
+      <div className="focus-summary" role="dialog" aria-label="Session summary">
+        {summary.goalReached ? (
+          <Trophy size={36} className="focus-summary-icon" />
+        ) : (
+          <Timer size={36} className="focus-summary-icon" />
+        )}
+        <h2>{summary.goalReached ? 'Goal reached!' : 'Session complete'}</h2>
+        <dl className="focus-summary-stats">
+          {stats.map(({ label, value }) => (
+            <div key={label}>
+              <dt>{label}</dt>
+              <dd>{value}</dd>
+            </div>
+          ))}
+        </dl>
+        <button className="focus-summary-close" onClick={onClose}>
+          Done
+        </button>
+      </div>
+
+      <style>{`
+        .focus-summary-overlay {
+          position: fixed;
+          inset: 0;
+          z-index: 90;
+          background: rgba(0, 0, 0, 0.6);
+        }
+
+        .focus-summary {
+          position: fixed;
+          top: 50%;
+          left: 50%;
+          z-index: 91;
+          transform: translate(-50%, -50%);
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          gap: 1rem;
+          width: 340px;
+          max-width: 90vw;
+          padding: 1.75rem;
+          background: var(--color-surface);
+          border: 1px solid var(--color-border);
+          border-radius: 16px;
+          box-shadow: 0 16px 48px rgba(0, 0, 0, 0.5);
+          color: var(--color-text);
+        }
+
+        .focus-summary-icon {
+          color: var(--color-accent);
+        }
+
+        .focus-summary h2 {
+          margin: 0;
+          font-size: 1.25rem;
+          font-weight: 600;
+        }
+
+        .focus-summary-stats {
+          display: grid;
+          grid-template-columns: repeat(2, 1fr);
+          gap: 0.5rem;
+          width: 100%;
+          margin: 0;
+        }
+
+        .focus-summary-stats div {
+          padding: 0.625rem 0.75rem;
+          background: var(--color-fill);
+          border-radius: 8px;
+        }
+
+        .focus-summary-stats dt {
+          font-size: 0.75rem;
+          color: var(--color-text-muted);
+        }
+
+        .focus-summary-stats dd {
+          margin: 0.125rem 0 0;
+          font-size: 1.1rem;
+          font-weight: 600;
+          font-variant-numeric: tabular-nums;
+        }
+
+        .focus-summary-close {
+          width: 100%;
+          padding: 0.75rem;
+          background: var(--color-accent);
+          border: none;
+          border-radius: 8px;
+          color: var(--color-on-accent);
+          font-size: 0.95rem;
+          font-weight: 600;
+          cursor: pointer;
+        }
+      `}</style>
+    </>
+  );
+};
+
+export default FocusSummary;
@@ -0,0 +1,100 @@
+import React from 'react';
+import { Timer, Coffee, Square } from 'lucide-react';
+import type { FocusPhase } from '../hooks/useFocusSession';
+import { formatCountdown } from '../utils/format';
+
+interface FocusTimerProps {
+  phase: FocusPhase | null;
+  remainingMs: number;
+  round: number;
+  /** Progress towards the session goal from 0 to 1, if there is one */
+  goalProgress: number | null;
+  onStart: () => void;
+  onEnd: () => void;
+}
+
+/**
+ * Header control for focus sessions: a start button, or the countdown of
+ * the running phase
+ */
+const FocusTimer: React.FC<FocusTimerProps> = ({ phase, remainingMs, round, goalProgress, onStart, onEnd }) => {
+  if (!phase) {
+    return (
+      <button className="header-button" onClick={onStart} title="Start a focus session">
+        <Timer size={20} />
+        <span>Focus</span>
+      </button>
+    );
+  }
+
+  return (
+    <div className={`focus-timer ${phase}`} title={phase === 'work' ? `Focus round ${round}` : 'Break'}>
+      {phase === 'work' ? <Timer size={18} /> : <Coffee size={18} />}
+      <span className="focus-countdown">{formatCountdown(remainingMs)}</span>
+      {goalProgress !== null && (
+        <span className="focus-goal" title={`Goal ${Math.round(goalProgress * 100)}% done`}>
+          <span style={{ width: `${goalProgress * 100}%` }} />
+        </span>
+      )}
+      <button className="focus-end" onClick={onEnd} title="End session">
+        <Square size={14} />
+      </button>
+
+      <style>{`
+        .focus-timer {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+          padding: 0.375rem 0.5rem 0.375rem 0.875rem;
+          background: var(--color-accent-soft);
+          border: 1px solid var(--color-accent-border);
+          border-radius: 8px;
+          color: var(--color-accent);
+          font-size: 0.875rem;
+        }
+
+        .focus-timer.break {
+          background: var(--color-fill);
+          border-color: var(--color-border);
+          color: var(--color-text-secondary);
+        }
+
+        .focus-countdown {
+          font-weight: 600;
+          font-variant-numeric: tabular-nums;
+        }
+
+        .focus-goal {
+          width: 48px;
+          height: 4px;
+          background: var(--color-fill-heavy);
+          border-radius: 2px;
+          overflow: hidden;
+        }
+
+        .focus-goal span {
+          display: block;
+          height: 100%;
+          background: currentColor;
+          transition: width 0.3s ease;
+        }
+
+        .focus-end {
+          display: flex;
+          padding: 0.3rem;
+          background: none;
+          border: none;
+          border-radius: 6px;
+          color: inherit;
+          cursor: pointer;
+        }
+
+        .focus-end:hover {
+          background: var(--color-fill-strong);
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default FocusTimer;
@@ -0,0 +1,203 @@
+import React, { useState, useEffect } from 'react';
+import { StickyNote, Trash2 } from 'lucide-react';
+import type { HighlightColor } from '../types';
+import { HIGHLIGHT_COLORS } from '../utils/themes';
+
+export interface ToolbarPosition {
+  /** Offsets inside the scrolling reader content */
+  top: number;
+  left: number;
+  placement: 'above' | 'below';
+}
+
+interface HighlightToolbarProps {
+  position: ToolbarPosition;
+  /** Color of the highlight being edited; unset for a fresh selection */
+  color?: HighlightColor;
+  note?: string;
+  onColor: (color: HighlightColor) => void;
+  /** For a fresh selection, highlights it and opens the note editor */
+  onAddNote: () => void;
+  onSaveNote: (note: string) => void;
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Floating toolbar over a text selection or an existing highlight:
+ * pick a color, write a note, or remove the highlight
+ */
+const HighlightToolbar: React.FC<HighlightToolbarProps> = ({
+  position,
+  color,
+  note,
+  onColor,
+  onAddNote,
+  onSaveNote,
+  onDelete,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState(note ?? '');
+  const isExisting = color !== undefined;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className={`highlight-toolbar ${position.placement}`}
+      style={{ top: position.top, left: position.left }}
+      // Keep the text selection while using the toolbar
+      onMouseDown={(e) => {
+        if (!(e.target instanceof HTMLTextAreaElement)) e.preventDefault();
+      }}
+    >
+      <div className="highlight-toolbar-row">
+        {(Object.keys(HIGHLIGHT_COLORS) as HighlightColor[]).map((option) => (
+          <button
+            key={option}
+            className={`highlight-swatch ${option === color ? 'selected' : ''}`}
+            style={{ background: HIGHLIGHT_COLORS[option].fill }}
+            title={HIGHLIGHT_COLORS[option].label}
+            onClick={() => onColor(option)}
+          />
+        ))}
+        {!isExisting && (
+          <button className="highlight-tool" title="Highlight and add a note" onClick={onAddNote}>
+            <StickyNote size={16} />
+          </button>
+        )}
+        {onDelete && (
+          <button className="highlight-tool" title="Remove highlight" onClick={onDelete}>
+            <Trash2 size={16} />
+          </button>
+        )}
+      </div>
+
+      {isExisting && (
+        <form
+          className="highlight-note"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onSaveNote(draft.trim());
+          }}
+        >
+          <textarea
+            value={draft}
+            placeholder="Add a note…"
+            rows={2}
+            autoFocus={!note}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                e.preventDefault();
+                onSaveNote(draft.trim());
+              }
+            }}
+          />
+          {draft.trim() !== (note ?? '') && <button type="submit">Save note</button>}
+        </form>
+      )}
+
+      <style>{`
+        .highlight-toolbar {
+          position: absolute;
+          z-index: 30;
+          display: flex;
+          flex-direction: column;
+          gap: 0.5rem;
+          padding: 0.5rem;
+          background: var(--color-surface);
+          border: 1px solid var(--color-border);
+          border-radius: 10px;
+          box-shadow: 0 8px 24px rgba(0, 0, 0, 0.35);
+          color: var(--color-text);
+          white-space: normal;
+          font-family: 'Segoe UI', sans-serif;
+          font-size: 0.875rem;
+          line-height: 1.4;
+        }
+
+        .highlight-toolbar.above {
+          transform: translate(-50%, calc(-100% - 8px));
+        }
+
+        .highlight-toolbar.below {
+          transform: translate(-50%, 8px);
+        }
+
+        .highlight-toolbar-row {
+          display: flex;
+          align-items: center;
+          gap: 0.375rem;
+        }
+
+        .highlight-swatch {
+          width: 22px;
+          height: 22px;
+          border: 2px solid transparent;
+          border-radius: 50%;
+          cursor: pointer;
+        }
+
+        .highlight-swatch.selected,
+        .highlight-swatch:hover {
+          border-color: var(--color-text);
+        }
+
+        .highlight-tool {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          width: 28px;
+          height: 28px;
+          background: none;
+          border: none;
+          border-radius: 6px;
+          color: var(--color-text-secondary);
+          cursor: pointer;
+        }
+
+        .highlight-tool:hover {
+          background: var(--color-fill-strong);
+          color: var(--color-text);
+        }
+
+        .highlight-note {
+          display: flex;
+          flex-direction: column;
+          align-items: flex-end;
+          gap: 0.375rem;
+        }
+
+        .highlight-note textarea {
+          width: 220px;
+          padding: 0.375rem 0.5rem;
+          background: rgba(0, 0, 0, 0.3);
+          border: 1px solid var(--color-border);
+          border-radius: 6px;
+          color: inherit;
+          font: inherit;
+          resize: vertical;
+        }
+
+        .highlight-note button {
+          padding: 0.25rem 0.75rem;
+          background: var(--color-accent);
+          border: none;
+          border-radius: 6px;
+          color: var(--color-on-accent);
+          font-weight: 600;
+          cursor: pointer;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default HighlightToolbar;
@@ -0,0 +1,309 @@
+import React, { useState } from 'react';
+import { BookOpen, Pencil, Trash2, Check, X } from 'lucide-react';
+import type { LibraryEntry } from '../types';
+import type { StorageUsage } from '../utils/library';
+import { formatBytes } from '../utils/format';
+
+interface LibraryListProps {
+  entries: LibraryEntry[];
+  usage: StorageUsage | null;
+  onOpen: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+function formatDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  const today = new Date();
+  if (date.toDateString() === today.toDateString()) {
+    return `Today, ${date.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}`;
+  }
+  return date.toLocaleDateString(undefined, {
+    day: 'numeric',
+    month: 'short',
+    ...(date.getFullYear() !== today.getFullYear() ? { year: 'numeric' } : {}),
+  });
+}
+
+/**
+ * Previously opened documents on the welcome screen
+ */
+const LibraryList: React.FC<LibraryListProps> = ({ entries, usage, onOpen, onRename, onDelete }) => {
+  const [editing, setEditing] = useState<{ id: string; title: string } | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState<string | null>(null);
+
+  if (!entries.length) return null;
+
+  const submitRename = () => {
+    if (!editing) return;
+    const title = editing.title.trim();
+    if (title) onRename(editing.id, title);
+    setEditing(null);
+  };
+
+  const storedTotal = entries.reduce((sum, entry) => sum + entry.storedSize, 0);
+
+  return (
+    <section className="library">
+      <h2 className="library-heading">
+        <BookOpen size={18} />
+        Your library
+      </h2>
+
+      <ul className="library-list">
+        {entries.map((entry) => {
+          const percent = Math.round(entry.progress * 100);
+          return (
+            <li key={entry.id} className="library-item">
+              <div className="library-item-main">
+                {editing?.id === entry.id ? (
+                  <form
+                    className="library-rename"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      submitRename();
+                    }}
+                  >
+                    <input
+                      autoFocus
+                      value={editing.title}
+                      onChange={(e) => setEditing({ id: entry.id, title: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Escape') setEditing(null);
+                      }}
+                      aria-label="Document title"
+                    />
+                    <button type="submit" title="Save name">
+                      <Check size={16} />
+                    </button>
+                    <button type="button" title="Cancel" onClick={() => setEditing(null)}>
+                      <X size={16} />
+                    </button>
+                  </form>
+                ) : (
+                  <button className="library-title" onClick={() => onOpen(entry.id)} title={entry.fileName}>
+                    {entry.title}
+                  </button>
+                )}
+
+                <div className="library-meta">
+                  <span className="library-format">{entry.format}</span>
+                  <span>{formatBytes(entry.fileSize)}</span>
+                  <span>{formatDate(entry.lastOpenedAt)}</span>
+                  {entry.author && <span>{entry.author}</span>}
+                </div>
+
+                <div className="library-progress" title={`${percent}% read`}>
+                  <div className="library-progress-bar">
+                    <div className="library-progress-fill" style={{ width: `${percent}%` }} />
+                  </div>
+                  <span>{percent}%</span>
+                </div>
+              </div>
+
+              <div className="library-actions">
+                {confirmingDelete === entry.id ? (
+                  <>
+                    <button
+                      className="library-delete-confirm"
+                      onClick={() => {
+                        setConfirmingDelete(null);
+                        onDelete(entry.id);
+                      }}
+                    >
+                      Delete
+                    </button>
+                    <button onClick={() => setConfirmingDelete(null)}>Keep</button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      title="Rename"
+                      onClick={() => {
+                        setConfirmingDelete(null);
+                        setEditing({ id: entry.id, title: entry.title });
+                      }}
+                    >
+                      <Pencil size={16} />
+                    </button>
+                    <button title="Delete" onClick={() => setConfirmingDelete(entry.id)}>
+                      <Trash2 size={16} />
+                    </button>
+                  </>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <p className="library-usage">
+        {entries.length} {entries.length === 1 ? 'document' : 'documents'} · {formatBytes(storedTotal)} stored
+        {usage && ` · ${formatBytes(usage.usage)} of ${formatBytes(usage.quota)} browser storage used`}
+      </p>
+
+      <style>{`
+        .library {
+          width: 100%;
+          max-width: 500px;
+          margin-top: 1rem;
+          text-align: left;
+        }
+
+        .library-heading {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+          margin: 0 0 0.75rem;
+          font-size: 1rem;
+          font-weight: 600;
+          color: var(--color-text-secondary);
+        }
+
+        .library-list {
+          display: flex;
+          flex-direction: column;
+          gap: 0.5rem;
+          max-height: 40vh;
+          margin: 0;
+          padding: 0;
+          overflow-y: auto;
+          list-style: none;
+        }
+
+        .library-item {
+          display: flex;
+          align-items: center;
+          gap: 0.75rem;
+          padding: 0.75rem 1rem;
+          background: var(--color-fill);
+          border: 1px solid var(--color-border);
+          border-radius: 12px;
+          transition: border-color 0.2s ease;
+        }
+
+        .library-item:hover {
+          border-color: var(--color-accent-border);
+        }
+
+        .library-item-main {
+          flex: 1;
+          min-width: 0;
+        }
+
+        .library-title {
+          display: block;
+          width: 100%;
+          padding: 0;
+          background: none;
+          border: none;
+          color: var(--color-text);
+          font-size: 0.95rem;
+          font-weight: 600;
+          text-align: left;
+          white-space: nowrap;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          cursor: pointer;
+        }
+
+        .library-title:hover {
+          color: var(--color-accent);
+        }
+
+        .library-rename {
+          display: flex;
+          gap: 0.25rem;
+        }
+
+        .library-rename input {
+          flex: 1;
+          min-width: 0;
+          padding: 0.25rem 0.5rem;
+          background: rgba(0, 0, 0, 0.3);
+          border: 1px solid var(--color-accent-border);
+          border-radius: 6px;
+          color: inherit;
+          font: inherit;
+          font-size: 0.9rem;
+        }
+
+        .library-meta {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 0.25rem 0.75rem;
+          margin-top: 0.25rem;
+          color: var(--color-text-muted);
+          font-size: 0.75rem;
+        }
+
+        .library-format {
+          text-transform: uppercase;
+          font-weight: 600;
+          color: rgba(0, 212, 255, 0.8);
+        }
+
+        .library-progress {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+          margin-top: 0.5rem;
+          color: var(--color-text-muted);
+          font-size: 0.75rem;
+        }
+
+        .library-progress-bar {
+          flex: 1;
+          height: 4px;
+          background: var(--color-fill-strong);
+          border-radius: 2px;
+          overflow: hidden;
+        }
+
+        .library-progress-fill {
+          height: 100%;
+          background: var(--color-accent);
+        }
+
+        .library-actions {
+          display: flex;
+          gap: 0.25rem;
+        }
+
+        .library-actions button,
+        .library-rename button {
+          display: flex;
+          align-items: center;
+          padding: 0.375rem;
+          background: var(--color-fill-strong);
+          border: none;
+          border-radius: 6px;
+          color: var(--color-text-secondary);
+          font-size: 0.8rem;
+          cursor: pointer;
+        }
+
+        .library-actions button:hover,
+        .library-rename button:hover {
+          background: var(--color-fill-heavy);
+          color: var(--color-text);
+        }
+
+        .library-actions .library-delete-confirm {
+          padding: 0.375rem 0.625rem;
+          background: rgba(255, 71, 87, 0.25);
+          color: #ff6b6b;
+        }
+
+        .library-usage {
+          margin: 0.75rem 0 0;
+          color: var(--color-text-subtle);
+          font-size: 0.75rem;
+          text-align: center;
+        }
+      `}</style>
+    </section>
+  );
+};
+
+export default LibraryList;
@@ -0,0 +1,483 @@
+import { useState, useMemo, useEffect, useCallback } from 'react';
+import { Zap, Play, Pause, Minus, Plus, SkipBack, SkipForward } from 'lucide-react';
+import type { DocumentBlock, ReaderSettings, ReadingPosition, TextChunk } from '../types';
+import {
+  buildRsvpFrames,
+  findChunkFrameIndex,
+  findNextSentenceIndex,
+  findSentenceRewindIndex,
+  getFrameDuration,
+} from '../utils/rsvp';
+import { chunkDocument, findChunkAt, getReadingProgress } from '../utils/chunking';
+import { clampWpm, WPM_STEP } from '../utils/pacing';
+import { isEditableTarget } from '../utils/keyboard';
+import { useProgressReport } from '../hooks/useProgressReport';
+
+interface RSVPReaderProps {
+  blocks: DocumentBlock[];
+  settings: ReaderSettings;
+  onSettingsChange: (settings: ReaderSettings) => void;
+  title: string;
+  /** Keyboard shortcuts are disabled while overlays such as settings are open */
+  keyboardEnabled: boolean;
+  /** Reports the share of the document read so far, from 0 to 1 */
+  onProgressChange?: (progress: number) => void;
+  /** Holds playback during a focus session break */
+  isOnBreak?: boolean;
+  /** Reports the words in each frame once it has been shown in full */
+  onWordsRead?: (count: number) => void;
+  /** Reports each reading chunk as its first frame is shown */
+  onChunkChange?: (chunk: TextChunk) => void;
+  /** Saved position to offer resuming from */
+  resumePosition?: ReadingPosition | null;
+  /** The resume offer was taken or declined */
+  onResumeHandled?: () => void;
+  /** Where to open when there is no offer, such as after switching reading mode */
+  startPosition?: ReadingPosition | null;
+  /** Reports the reading position as it moves from chunk to chunk */
+  onPositionChange?: (position: ReadingPosition) => void;
+}
+
+/**
+ * Rapid Serial Visual Presentation reader
+ * Shows one word or short phrase at a time with the optimal recognition
+ * point fixed in the same spot, so the eyes never have to move
+ */
+const RSVPReader: React.FC<RSVPReaderProps> = ({
+  blocks,
+  settings,
+  onSettingsChange,
+  title,
+  keyboardEnabled,
+  onProgressChange,
+  isOnBreak = false,
+  onWordsRead,
+  onChunkChange,
+  resumePosition,
+  onResumeHandled,
+  startPosition,
+  onPositionChange,
+}) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  // Frames come from the same chunks as the scrolling reader, so focus
+  // goals and reading positions count the same units in both modes
+  const chunks = useMemo(() => chunkDocument(blocks, settings.chunkSize), [blocks, settings.chunkSize]);
+  const frames = useMemo(
+    () => buildRsvpFrames(chunks, settings.rsvpWordsPerFrame),
+    [chunks, settings.rsvpWordsPerFrame]
+  );
+  const [frameIndex, setFrameIndex] = useState(() =>
+    startPosition
+      ? findChunkFrameIndex(frames, findChunkAt(chunks, startPosition.blockIndex, startPosition.charOffset))
+      : 0
+  );
+
+  // Frame count changes with phrase length, so keep the index in range
+  const currentIndex = Math.min(frameIndex, Math.max(frames.length - 1, 0));
+  const frame = frames[currentIndex];
+  const isLast = currentIndex >= frames.length - 1;
+
+  const currentChunk = frame ? chunks[frame.chunkId] : undefined;
+  useEffect(() => {
+    if (currentChunk) onChunkChange?.(currentChunk);
+  }, [currentChunk, onChunkChange]);
+
+  // Positions are saved by chunk, like the scrolling reader's, so either
+  // reader can pick up where the other left off
+  useEffect(() => {
+    if (!currentChunk || !onPositionChange) return;
+    onPositionChange({
+      blockIndex: currentChunk.blockIndex,
+      charOffset: currentChunk.charOffset,
+      layoutKey: 'rsvp',
+      progress: getReadingProgress(currentChunk.id, chunks.length),
+      updatedAt: Date.now(),
+    });
+  }, [currentChunk, chunks.length, onPositionChange]);
+
+  // Moving on from the start answers the resume offer: read from here
+  const goToFrame = useCallback(
+    (index: number) => {
+      setFrameIndex(Math.min(Math.max(index, 0), Math.max(frames.length - 1, 0)));
+      if (resumePosition) onResumeHandled?.();
+    },
+    [frames.length, resumePosition, onResumeHandled]
+  );
+
+  const resumeFrame = resumePosition
+    ? findChunkFrameIndex(frames, findChunkAt(chunks, resumePosition.blockIndex, resumePosition.charOffset))
+    : -1;
+
+  // A position in the first frame is no place to resume; answer the offer
+  // so new positions get saved
+  useEffect(() => {
+    if (resumePosition && resumeFrame <= 0) onResumeHandled?.();
+  }, [resumePosition, resumeFrame, onResumeHandled]);
+
+  const changeWpm = useCallback(
+    (delta: number) => {
+      onSettingsChange({ ...settings, rsvpWpm: clampWpm(settings.rsvpWpm + delta) });
+    },
+    [settings, onSettingsChange]
+  );
+
+  const togglePlaying = useCallback(() => {
+    if (!isPlaying && isLast) setFrameIndex(0);
+    if (resumePosition) onResumeHandled?.();
+    setIsPlaying((playing) => !playing);
+  }, [isPlaying, isLast, resumePosition, onResumeHandled]);
+
+  const rewindSentence = useCallback(() => {
+    goToFrame(findSentenceRewindIndex(frames, currentIndex));
+  }, [frames, currentIndex, goToFrame]);
+
+  const skipSentence = useCallback(() => {
+    goToFrame(findNextSentenceIndex(frames, currentIndex));
+  }, [frames, currentIndex, goToFrame]);
+
+  // Advance frames while playing; a break holds the current frame
+  useEffect(() => {
+    if (!isPlaying || isOnBreak || !frame) return;
+
+    const timer = window.setTimeout(() => {
+      onWordsRead?.(frame.wordCount);
+      if (isLast) {
+        setIsPlaying(false);
+      } else {
+        setFrameIndex(currentIndex + 1);
+      }
+    }, getFrameDuration(frame, settings.rsvpWpm));
+
+    return () => window.clearTimeout(timer);
+  }, [isPlaying, isOnBreak, frame, currentIndex, isLast, settings.rsvpWpm, onWordsRead]);
+
+  // Keyboard controls
+  useEffect(() => {
+    if (!keyboardEnabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isEditableTarget(e.target, e.key)) return;
+
+      switch (e.key) {
+        case ' ':
+        case 'p':
+          togglePlaying();
+          break;
+        case 'ArrowLeft':
+        case 'h':
+          rewindSentence();
+          break;
+        case 'ArrowRight':
+        case 'l':
+          skipSentence();
+          break;
+        case '+':
+        case '=':
+        case 'ArrowUp':
+          changeWpm(WPM_STEP);
+          break;
+        case '-':
+        case '_':
+        case 'ArrowDown':
+          changeWpm(-WPM_STEP);
+          break;
+        case 'Home':
+          goToFrame(0);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [keyboardEnabled, togglePlaying, rewindSentence, skipSentence, changeWpm, goToFrame]);
+
+  const progress = getReadingProgress(currentIndex, frames.length);
+
+  useProgressReport(progress, onProgressChange);
+
+  return (
+    <div className="rsvp-container">
+      {/* Header */}
+      <div className="rsvp-header">
+        <Zap size={18} />
+        <h1>{title}</h1>
+      </div>
+
+      {resumePosition && resumeFrame > 0 && (
+        <div className="rsvp-resume">
+          <span>
+            Continue where you left off?
+            <small>{Math.round(resumePosition.progress * 100)}% read</small>
+          </span>
+          <button className="rsvp-resume-continue" onClick={() => goToFrame(resumeFrame)}>
+            Continue
+          </button>
+          <button className="rsvp-resume-dismiss" onClick={() => onResumeHandled?.()}>
+            Start from the beginning
+          </button>
+        </div>
+      )}
+
+      {/* Focus point */}
+      <div className="rsvp-stage" style={{ fontFamily: settings.fontFamily }} onClick={togglePlaying}>
+        <div className="rsvp-guide rsvp-guide-top" />
+        <div className="rsvp-word" style={{ fontSize: `${settings.fontSize * 2}px` }}>
+          {frame ? (
+            <>
+              <span className="rsvp-before">{frame.text.slice(0, frame.orp)}</span>
+              <span className="rsvp-orp">{frame.text[frame.orp]}</span>
+              <span className="rsvp-after">{frame.text.slice(frame.orp + 1)}</span>
+            </>
+          ) : null}
+        </div>
+        <div className="rsvp-guide rsvp-guide-bottom" />
+      </div>
+
+      {/* Progress */}
+      <div className="rsvp-progress">
+        <div className="rsvp-progress-bar" style={{ width: `${progress * 100}%` }} />
+      </div>
+
+      {/* Controls */}
+      <div className="rsvp-controls">
+        <button className="rsvp-button" onClick={rewindSentence} title="Previous sentence (←)">
+          <SkipBack size={16} />
+        </button>
+        <button className="rsvp-button" onClick={() => changeWpm(-WPM_STEP)} title="Slower (-)">
+          <Minus size={16} />
+        </button>
+        <button
+          className="rsvp-button rsvp-play"
+          onClick={togglePlaying}
+          title={isPlaying ? 'Pause (Space)' : 'Play (Space)'}
+        >
+          {isPlaying ? <Pause size={20} /> : <Play size={20} />}
+        </button>
+        <button className="rsvp-button" onClick={() => changeWpm(WPM_STEP)} title="Faster (+)">
+          <Plus size={16} />
+        </button>
+        <button className="rsvp-button" onClick={skipSentence} title="Next sentence (→)">
+          <SkipForward size={16} />
+        </button>
+        <span className="rsvp-speed">{settings.rsvpWpm} WPM</span>
+      </div>
+
+      <style>{`
+        .rsvp-container {
+          position: relative;
+          z-index: 10;
+          display: flex;
+          flex-direction: column;
+          height: 100vh;
+          width: 640px;
+          max-width: 90vw;
+          margin: 0 auto;
+          background: var(--color-reader);
+          color: var(--color-text);
+          box-shadow: 0 0 60px rgba(0, 0, 0, 0.5);
+        }
+
+        @media (min-width: 600px) {
+          .rsvp-container {
+            margin: 1.5rem auto;
+            height: calc(100vh - 3rem);
+            border-radius: 16px;
+          }
+        }
+
+        .rsvp-resume {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 0.5rem 0.75rem;
+          padding: 0.75rem 1.25rem;
+          background: var(--color-accent-soft);
+          border-bottom: 1px solid rgba(128, 128, 128, 0.2);
+          font-size: 0.9rem;
+        }
+
+        .rsvp-resume span {
+          display: flex;
+          flex-direction: column;
+          flex: 1;
+          min-width: 12rem;
+        }
+
+        .rsvp-resume small {
+          color: var(--color-text-muted);
+          font-size: 0.8rem;
+        }
+
+        .rsvp-resume button {
+          padding: 0.375rem 0.875rem;
+          border-radius: 8px;
+          font-size: 0.85rem;
+          cursor: pointer;
+        }
+
+        .rsvp-resume-continue {
+          background: var(--color-accent);
+          border: none;
+          color: var(--color-on-accent);
+          font-weight: 600;
+        }
+
+        .rsvp-resume-dismiss {
+          background: none;
+          color: var(--color-text-muted);
+          border: 1px solid rgba(128, 128, 128, 0.3);
+        }
+
+        .rsvp-header {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          gap: 0.5rem;
+          padding: 0.875rem 1.25rem;
+          border-bottom: 1px solid rgba(128, 128, 128, 0.2);
+          overflow: hidden;
+        }
+
+        .rsvp-header svg {
+          flex-shrink: 0;
+          color: var(--color-text-muted);
+        }
+
+        .rsvp-header h1 {
+          margin: 0;
+          font-size: 0.95rem;
+          font-weight: 600;
+          white-space: nowrap;
+          overflow: hidden;
+          text-overflow: ellipsis;
+        }
+
+        .rsvp-stage {
+          flex: 1;
+          display: flex;
+          flex-direction: column;
+          justify-content: center;
+          cursor: pointer;
+          user-select: none;
+        }
+
+        .rsvp-word {
+          display: grid;
+          grid-template-columns: 1fr auto 1fr;
+          align-items: baseline;
+          padding: 0.5rem 0;
+          white-space: pre;
+          line-height: 1.2;
+        }
+
+        .rsvp-before {
+          text-align: right;
+          overflow: hidden;
+        }
+
+        .rsvp-orp {
+          color: #ff4757;
+          font-weight: 700;
+        }
+
+        .rsvp-after {
+          text-align: left;
+          overflow: hidden;
+        }
+
+        .rsvp-guide {
+          position: relative;
+          height: 1.25rem;
+          margin: 0 1.5rem;
+          border-color: rgba(128, 128, 128, 0.35);
+          border-style: solid;
+          border-width: 0;
+        }
+
+        .rsvp-guide-top {
+          border-bottom-width: 1px;
+        }
+
+        .rsvp-guide-bottom {
+          border-top-width: 1px;
+        }
+
+        .rsvp-guide::after {
+          content: "";
+          position: absolute;
+          left: 50%;
+          width: 2px;
+          height: 0.75rem;
+          background: #ff4757;
+          transform: translateX(-50%);
+        }
+
+        .rsvp-guide-top::after {
+          bottom: 0;
+        }
+
+        .rsvp-guide-bottom::after {
+          top: 0;
+        }
+
+        .rsvp-progress {
+          height: 3px;
+          background: rgba(128, 128, 128, 0.15);
+        }
+
+        .rsvp-progress-bar {
+          height: 100%;
+          background: var(--color-accent);
+          transition: width 0.2s linear;
+        }
+
+        .rsvp-controls {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          gap: 0.5rem;
+          padding: 0.75rem 1.25rem;
+          color: var(--color-text-muted);
+          font-size: 0.8rem;
+        }
+
+        .rsvp-button {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          width: 34px;
+          height: 34px;
+          background: rgba(128, 128, 128, 0.12);
+          border: 1px solid rgba(128, 128, 128, 0.2);
+          border-radius: 8px;
+          color: inherit;
+          cursor: pointer;
+          transition: all 0.2s;
+        }
+
+        .rsvp-button:hover {
+          background: rgba(128, 128, 128, 0.2);
+        }
+
+        .rsvp-play {
+          width: 44px;
+          height: 44px;
+          border-radius: 50%;
+          color: var(--color-accent);
+          border-color: var(--color-accent-border);
+        }
+
+        .rsvp-speed {
+          margin-left: 0.5rem;
+          font-variant-numeric: tabular-nums;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default RSVPReader;
@@ -0,0 +1,128 @@
+import React, { useMemo } from 'react';
+import { ImageIcon } from 'lucide-react';
+import BionicText from './BionicText';
+import type { TextChunk } from '../types';
+import type { ChunkHighlight } from '../utils/highlights';
+import type { SearchMatch } from '../utils/search';
+
+interface ReaderChunkProps {
+  chunk: TextChunk;
+  isActive: boolean;
+  bionicEnabled: boolean;
+  bionicFixation: number;
+  bionicSaccade: number;
+  onSelect: (id: number) => void;
+  /** Receives the chunk's element so the reader can scroll to it */
+  registerElement: (id: number, element: HTMLDivElement | null) => void;
+  highlights?: ChunkHighlight[];
+  /** The word being read aloud, when this chunk is being spoken */
+  spokenWord?: { start: number; end: number };
+  /** Search matches in this chunk */
+  searchMatches?: SearchMatch[];
+  /** The current search match, when it is in this chunk */
+  activeSearchMatch?: SearchMatch;
+}
+
+/**
+ * A single reading chunk, rendered according to the block it came from.
+ * The element holding the chunk's text is marked with data-text-root so
+ * selections can be mapped back to offsets in the chunk.
+ */
+const ReaderChunk: React.FC<ReaderChunkProps> = ({
+  chunk,
+  isActive,
+  bionicEnabled,
+  bionicFixation,
+  bionicSaccade,
+  onSelect,
+  registerElement,
+  highlights,
+  spokenWord,
+  searchMatches,
+  activeSearchMatch,
+}) => {
+  const text = (
+    <BionicText
+      spans={chunk.spans}
+      enabled={bionicEnabled}
+      fixation={bionicFixation}
+      saccade={bionicSaccade}
+      highlights={highlights}
+      spoken={spokenWord}
+      searchMatches={searchMatches}
+      activeSearchMatch={activeSearchMatch}
+    />
+  );
+  // Code is shown as written: no marks and no bionic bolding
+  const codeSpans = useMemo(() => [{ text: chunk.text }], [chunk.text]);
+
+  let body: React.ReactNode;
+  switch (chunk.kind) {
+    case 'heading': {
+      const Heading = `h${Math.min(chunk.level ?? 2, 6)}` as 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6';
+      body = (
+        <Heading className="chunk-heading-text" data-text-root>
+          {text}
+        </Heading>
+      );
+      break;
+    }
+    case 'listItem':
+      body = (
+        <div className="chunk-list-item">
+          <span className="chunk-marker">{chunk.marker ?? ''}</span>
+          <span data-text-root>{text}</span>
+        </div>
+      );
+      break;
+    case 'code':
+      body = (
+        <pre className="chunk-code" data-text-root>
+          <BionicText
+            spans={codeSpans}
+            enabled={false}
+            fixation={0}
+            saccade={1}
+            highlights={highlights}
+            spoken={spokenWord}
+            searchMatches={searchMatches}
+            activeSearchMatch={activeSearchMatch}
+          />
+        </pre>
+      );
+      break;
+    case 'image':
+      body = chunk.src ? (
+        <figure className="chunk-image">
+          <img src={chunk.src} alt={chunk.text} />
+          {chunk.text && <figcaption>{chunk.text}</figcaption>}
+        </figure>
+      ) : (
+        <div className="chunk-image-placeholder">
+          <ImageIcon size={16} />
+          <span>{chunk.text || 'Image'}</span>
+        </div>
+      );
+      break;
+    default:
+      body = <p data-text-root>{text}</p>;
+  }
+
+  return (
+    <div
+      ref={(element) => registerElement(chunk.id, element)}
+      className={`reader-chunk chunk-${chunk.kind} ${chunk.isParagraphEnd ? 'paragraph-end' : ''} ${
+        isActive ? 'active' : ''
+      }`}
+      onClick={() => {
+        // Selecting text to highlight shouldn't move the reader
+        if (window.getSelection()?.isCollapsed === false) return;
+        onSelect(chunk.id);
+      }}
+    >
+      {body}
+    </div>
+  );
+};
+
+export default React.memo(ReaderChunk);
@@ -0,0 +1,294 @@
+import React, { useMemo, useState } from 'react';
+import { Search, ChevronUp, ChevronDown, X, CaseSensitive, WholeWord, ListTree } from 'lucide-react';
+import type { TextChunk, TocEntry } from '../types';
+import { findTocEntryIndex } from '../utils/documentModel';
+import { getMatchContext, MAX_LISTED_RESULTS } from '../utils/search';
+import type { SearchMatch, SearchOptions } from '../utils/search';
+
+interface SearchBarProps {
+  query: string;
+  options: SearchOptions;
+  matches: SearchMatch[];
+  activeIndex: number;
+  chunks: TextChunk[];
+  toc: TocEntry[];
+  inputRef: React.RefObject<HTMLInputElement | null>;
+  onQueryChange: (query: string) => void;
+  onToggleOption: (option: keyof SearchOptions) => void;
+  onSelect: (index: number) => void;
+  onNext: () => void;
+  onPrevious: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Find bar for the scrolling reader, with a list of results by section
+ */
+const SearchBar: React.FC<SearchBarProps> = ({
+  query,
+  options,
+  matches,
+  activeIndex,
+  chunks,
+  toc,
+  inputRef,
+  onQueryChange,
+  onToggleOption,
+  onSelect,
+  onNext,
+  onPrevious,
+  onClose,
+}) => {
+  const [showResults, setShowResults] = useState(false);
+
+  // Results name their chapter (or page) and show the text around the match
+  const results = useMemo(
+    () =>
+      matches.slice(0, MAX_LISTED_RESULTS).map((match) => {
+        const tocIndex = findTocEntryIndex(toc, match.blockIndex);
+        const section = [
+          tocIndex >= 0 ? toc[tocIndex].title : null,
+          match.page !== undefined ? `p. ${match.page}` : null,
+        ]
+          .filter(Boolean)
+          .join(' · ');
+        return { section, context: getMatchContext(chunks[match.chunkId]?.text ?? '', match) };
+      }),
+    [matches, chunks, toc]
+  );
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (e.shiftKey) onPrevious();
+      else onNext();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  const count = query.trim()
+    ? matches.length > 0
+      ? `${activeIndex + 1} / ${matches.length}`
+      : 'No matches'
+    : '';
+
+  return (
+    <div className="reader-search">
+      <div className="search-row">
+        <Search size={16} className="search-icon" />
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Find in document"
+          aria-label="Find in document"
+          autoFocus
+        />
+        <span className="search-count">{count}</span>
+        <button
+          className={`search-button ${options.caseSensitive ? 'active' : ''}`}
+          onClick={() => onToggleOption('caseSensitive')}
+          title="Match case"
+          aria-pressed={options.caseSensitive}
+        >
+          <CaseSensitive size={16} />
+        </button>
+        <button
+          className={`search-button ${options.wholeWord ? 'active' : ''}`}
+          onClick={() => onToggleOption('wholeWord')}
+          title="Whole words"
+          aria-pressed={options.wholeWord}
+        >
+          <WholeWord size={16} />
+        </button>
+        <button
+          className="search-button"
+          onClick={onPrevious}
+          disabled={!matches.length}
+          title="Previous (Shift+Enter)"
+        >
+          <ChevronUp size={16} />
+        </button>
+        <button className="search-button" onClick={onNext} disabled={!matches.length} title="Next (Enter)">
+          <ChevronDown size={16} />
+        </button>
+        <button
+          className={`search-button ${showResults ? 'active' : ''}`}
+          onClick={() => setShowResults((show) => !show)}
+          disabled={!matches.length}
+          title="All results"
+          aria-pressed={showResults}
+        >
+          <ListTree size={16} />
+        </button>
+        <button className="search-button" onClick={onClose} title="Close (Esc)">
+          <X size={16} />
+        </button>
+      </div>
+
+      {showResults && matches.length > 0 && (
+        <ul className="search-results">
+          {results.map(({ section, context }, index) => (
+            <li key={index}>
+              <button className={index === activeIndex ? 'active' : ''} onClick={() => onSelect(index)}>
+                {section && (
+                  <span className="search-section">{section}</span>
+                )}
+                <span className="search-context">
+                  {context.before}
+                  <mark>{context.text}</mark>
+                  {context.after}
+                </span>
+              </button>
+            </li>
+          ))}
+          {matches.length > MAX_LISTED_RESULTS && (
+            <li className="search-more">
+              {matches.length - MAX_LISTED_RESULTS} more matches; use next and previous to reach them
+            </li>
+          )}
+        </ul>
+      )}
+
+      <style>{`
+        .reader-search {
+          position: relative;
+          color: var(--color-text);
+          border-bottom: 1px solid rgba(128, 128, 128, 0.2);
+        }
+
+        .search-row {
+          display: flex;
+          align-items: center;
+          gap: 0.25rem;
+          padding: 0.5rem 0.75rem 0.5rem 1.25rem;
+        }
+
+        .search-row input {
+          flex: 1;
+          min-width: 0;
+          margin-left: 0.25rem;
+          padding: 0.375rem 0.5rem;
+          background: rgba(128, 128, 128, 0.12);
+          border: 1px solid rgba(128, 128, 128, 0.25);
+          border-radius: 6px;
+          color: inherit;
+          font-size: 0.9rem;
+          outline: none;
+        }
+
+        .search-row input:focus {
+          border-color: var(--color-accent);
+        }
+
+        .search-icon,
+        .search-count,
+        .search-section,
+        .search-more {
+          flex-shrink: 0;
+          color: var(--color-text-muted);
+        }
+
+        .search-count {
+          padding: 0 0.25rem;
+          font-size: 0.75rem;
+          font-variant-numeric: tabular-nums;
+          white-space: nowrap;
+        }
+
+        .search-button {
+          flex-shrink: 0;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          width: 28px;
+          height: 28px;
+          background: none;
+          border: 1px solid transparent;
+          border-radius: 6px;
+          color: inherit;
+          cursor: pointer;
+        }
+
+        .search-button:hover:not(:disabled) {
+          background: rgba(128, 128, 128, 0.15);
+        }
+
+        .search-button:disabled {
+          opacity: 0.35;
+          cursor: default;
+        }
+
+        .search-button.active {
+          background: var(--color-accent-soft);
+          border-color: var(--color-accent-border);
+        }
+
+        .search-results {
+          position: absolute;
+          top: 100%;
+          left: 0;
+          right: 0;
+          z-index: 20;
+          max-height: 280px;
+          margin: 0;
+          padding: 0.25rem 0;
+          overflow-y: auto;
+          list-style: none;
+          background: var(--color-reader);
+          border-bottom: 1px solid rgba(128, 128, 128, 0.25);
+          box-shadow: 0 12px 24px rgba(0, 0, 0, 0.3);
+          backdrop-filter: blur(12px);
+        }
+
+        .search-results button {
+          display: flex;
+          flex-direction: column;
+          gap: 0.125rem;
+          width: 100%;
+          padding: 0.5rem 1.25rem;
+          background: none;
+          border: none;
+          border-left: 3px solid transparent;
+          color: inherit;
+          font-size: 0.85rem;
+          text-align: left;
+          cursor: pointer;
+        }
+
+        .search-results button:hover {
+          background: rgba(128, 128, 128, 0.12);
+        }
+
+        .search-results button.active {
+          border-left-color: var(--color-accent);
+          background: var(--color-accent-soft);
+        }
+
+        .search-section {
+          font-size: 0.75rem;
+          white-space: nowrap;
+          overflow: hidden;
+          text-overflow: ellipsis;
+        }
+
+        .search-context mark {
+          background: rgba(255, 170, 0, 0.45);
+          color: inherit;
+          border-radius: 2px;
+        }
+
+        .search-more {
+          padding: 0.5rem 1.25rem;
+          font-size: 0.75rem;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default SearchBar;
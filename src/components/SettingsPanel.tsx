@@ -3,20 +3,44 @@ import {
   Settings,
   Type,
   Video,
-  Sun,
-  Moon,
-  Coffee,
+  Palette,
   X,
   RotateCcw,
+  Zap,
+  Rows3,
+  Gauge,
+  BookOpen,
+  Volume2,
+  Plus,
+  Trash2,
+  Timer,
+  ListChecks,
 } from 'lucide-react';
-import type { ReaderSettings } from '../types';
+import type {
+  AutoScrollMode,
+  BackgroundSource,
+  ChunkSize,
+  FocusGoalType,
+  ReaderSettings,
+  ReadingMode,
+  RunnerStyle,
+  VideoFit,
+} from '../types';
 import { DEFAULT_SETTINGS } from '../types';
+import ThemeEditor from './ThemeEditor';
+import { MIN_WPM, MAX_WPM, WPM_STEP } from '../utils/pacing';
+import { RUNNER_STYLES } from '../utils/runner';
+import { formatBytes } from '../utils/format';
+import { isSpeechSupported, useSpeechVoices } from '../hooks/useSpeech';
+import type { Playlist } from '../hooks/usePlaylist';
 
 interface SettingsPanelProps {
   settings: ReaderSettings;
   onSettingsChange: (settings: ReaderSettings) => void;
   isOpen: boolean;
   onClose: () => void;
+  /** The user's background videos, managed here */
+  playlist: Playlist;
 }
 
 const SettingsPanel: React.FC<SettingsPanelProps> = ({
@@ -24,7 +48,10 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
   onSettingsChange,
   isOpen,
   onClose,
+  playlist,
 }) => {
+  const voices = useSpeechVoices();
+
   const updateSetting = <K extends keyof ReaderSettings>(
     key: K,
     value: ReaderSettings[K]
@@ -32,8 +59,42 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
     onSettingsChange({ ...settings, [key]: value });
   };
 
+  const chunkSizes: { value: ChunkSize; label: string }[] = [
+    { value: 'small', label: 'Small' },
+    { value: 'medium', label: 'Medium' },
+    { value: 'large', label: 'Large' },
+  ];
+
+  const autoScrollModes: { value: AutoScrollMode; label: string }[] = [
+    { value: 'step', label: 'Chunk by chunk' },
+    { value: 'continuous', label: 'Continuous' },
+  ];
+
+  const readingModes: { value: ReadingMode; label: string }[] = [
+    { value: 'scroll', label: 'Scrolling' },
+    { value: 'rsvp', label: 'RSVP' },
+  ];
+
+  const backgroundSources: { value: BackgroundSource; label: string }[] = [
+    { value: 'game', label: 'Game' },
+    { value: 'videos', label: 'My Videos' },
+    { value: 'none', label: 'None' },
+  ];
+
+  const videoFits: { value: VideoFit; label: string }[] = [
+    { value: 'cover', label: 'Crop to fill' },
+    { value: 'contain', label: 'Fit whole' },
+  ];
+
+  const focusGoals: { value: FocusGoalType; label: string }[] = [
+    { value: 'none', label: 'No goal' },
+    { value: 'chunks', label: 'Chunks' },
+    { value: 'pages', label: 'Pages' },
+  ];
+
   const resetSettings = () => {
-    onSettingsChange(DEFAULT_SETTINGS);
+    // Keep the user's own themes; only the choice of theme is reset
+    onSettingsChange({ ...DEFAULT_SETTINGS, customThemes: settings.customThemes });
   };
 
   if (!isOpen) return null;
@@ -55,30 +116,59 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
         <div className="settings-content">
           {/* Theme */}
           <div className="setting-group">
-            <label className="setting-label">Theme</label>
+            <label className="setting-label">
+              <Palette size={18} />
+              Theme
+            </label>
+            <ThemeEditor
+              theme={settings.theme}
+              customThemes={settings.customThemes}
+              onChange={(theme, customThemes) => onSettingsChange({ ...settings, theme, customThemes })}
+            />
+          </div>
+
+          {/* Reading Mode */}
+          <div className="setting-group">
+            <label className="setting-label">
+              <BookOpen size={18} />
+              Reading Mode
+            </label>
             <div className="theme-buttons">
-              <button
-                className={`theme-btn ${settings.theme === 'light' ? 'active' : ''}`}
-                onClick={() => updateSetting('theme', 'light')}
-              >
-                <Sun size={18} />
-                Light
-              </button>
-              <button
-                className={`theme-btn ${settings.theme === 'dark' ? 'active' : ''}`}
-                onClick={() => updateSetting('theme', 'dark')}
-              >
-                <Moon size={18} />
-                Dark
-              </button>
-              <button
-                className={`theme-btn ${settings.theme === 'sepia' ? 'active' : ''}`}
-                onClick={() => updateSetting('theme', 'sepia')}
-              >
-                <Coffee size={18} />
-                Sepia
-              </button>
+              {readingModes.map(({ value, label }) => (
+                <button
+                  key={value}
+                  className={`theme-btn ${settings.readingMode === value ? 'active' : ''}`}
+                  onClick={() => updateSetting('readingMode', value)}
+                >
+                  {label}
+                </button>
+              ))}
             </div>
+            {settings.readingMode === 'rsvp' && (
+              <div className="opacity-control">
+                <label>RSVP Speed: {settings.rsvpWpm} WPM</label>
+                <input
+                  type="range"
+                  min={MIN_WPM}
+                  max={MAX_WPM}
+                  step={WPM_STEP}
+                  value={settings.rsvpWpm}
+                  onChange={(e) => updateSetting('rsvpWpm', parseInt(e.target.value))}
+                  className="slider"
+                />
+                <label>
+                  Words per flash: {settings.rsvpWordsPerFrame}
+                </label>
+                <input
+                  type="range"
+                  min="1"
+                  max="3"
+                  value={settings.rsvpWordsPerFrame}
+                  onChange={(e) => updateSetting('rsvpWordsPerFrame', parseInt(e.target.value))}
+                  className="slider"
+                />
+              </div>
+            )}
           </div>
 
           {/* Font Size */}
@@ -130,23 +220,337 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
             </select>
           </div>
 
-          {/* Background Video */}
+          {/* Chunk Size */}
+          <div className="setting-group">
+            <label className="setting-label">
+              <Rows3 size={18} />
+              Chunk Size
+            </label>
+            <div className="theme-buttons">
+              {chunkSizes.map(({ value, label }) => (
+                <button
+                  key={value}
+                  className={`theme-btn ${settings.chunkSize === value ? 'active' : ''}`}
+                  onClick={() => updateSetting('chunkSize', value)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Auto-Scroll */}
+          <div className="setting-group">
+            <label className="setting-label">
+              <Gauge size={18} />
+              Auto-Scroll Speed: {settings.autoScrollWpm} WPM
+            </label>
+            <input
+              type="range"
+              min={MIN_WPM}
+              max={MAX_WPM}
+              step={WPM_STEP}
+              value={settings.autoScrollWpm}
+              onChange={(e) => updateSetting('autoScrollWpm', parseInt(e.target.value))}
+              className="slider"
+            />
+            <div className="theme-buttons">
+              {autoScrollModes.map(({ value, label }) => (
+                <button
+                  key={value}
+                  className={`theme-btn ${settings.autoScrollMode === value ? 'active' : ''}`}
+                  onClick={() => updateSetting('autoScrollMode', value)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Read Aloud */}
+          <div className="setting-group">
+            <label className="setting-label">
+              <Volume2 size={18} />
+              Read Aloud
+            </label>
+            {isSpeechSupported ? (
+              <>
+                <select
+                  value={settings.speechVoice}
+                  onChange={(e) => updateSetting('speechVoice', e.target.value)}
+                  className="font-select"
+                >
+                  <option value="">Browser default</option>
+                  {voices.map((voice) => (
+                    <option key={voice.voiceURI} value={voice.voiceURI}>
+                      {voice.name} ({voice.lang})
+                    </option>
+                  ))}
+                </select>
+                <div className="opacity-control">
+                  <label>Rate: {settings.speechRate.toFixed(1)}x</label>
+                  <input
+                    type="range"
+                    min="0.5"
+                    max="2"
+                    step="0.1"
+                    value={settings.speechRate}
+                    onChange={(e) => updateSetting('speechRate', parseFloat(e.target.value))}
+                    className="slider"
+                  />
+                  <label>Pitch: {settings.speechPitch.toFixed(1)}</label>
+                  <input
+                    type="range"
+                    min="0.5"
+                    max="2"
+                    step="0.1"
+                    value={settings.speechPitch}
+                    onChange={(e) => updateSetting('speechPitch', parseFloat(e.target.value))}
+                    className="slider"
+                  />
+                </div>
+              </>
+            ) : (
+              <p className="setting-note">Speech is not available in this browser.</p>
+            )}
+          </div>
+
+          {/* Bionic Reading */}
           <div className="setting-group">
             <div className="setting-header">
               <label className="setting-label">
-                <Video size={18} />
-                Background Video
+                <Zap size={18} />
+                Bionic Reading
               </label>
               <label className="toggle">
                 <input
                   type="checkbox"
-                  checked={settings.backgroundEnabled}
-                  onChange={(e) => updateSetting('backgroundEnabled', e.target.checked)}
+                  checked={settings.bionicEnabled}
+                  onChange={(e) => updateSetting('bionicEnabled', e.target.checked)}
                 />
                 <span className="toggle-slider" />
               </label>
             </div>
-            {settings.backgroundEnabled && (
+            {settings.bionicEnabled && (
+              <div className="opacity-control">
+                <label>Fixation Strength: {Math.round(settings.bionicFixation * 100)}%</label>
+                <input
+                  type="range"
+                  min="0.2"
+                  max="0.8"
+                  step="0.05"
+                  value={settings.bionicFixation}
+                  onChange={(e) => updateSetting('bionicFixation', parseFloat(e.target.value))}
+                  className="slider"
+                />
+                <label>
+                  Saccade: {settings.bionicSaccade === 1 ? 'every word' : `every ${settings.bionicSaccade} words`}
+                </label>
+                <input
+                  type="range"
+                  min="1"
+                  max="5"
+                  value={settings.bionicSaccade}
+                  onChange={(e) => updateSetting('bionicSaccade', parseInt(e.target.value))}
+                  className="slider"
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Focus Sessions */}
+          <div className="setting-group">
+            <label className="setting-label">
+              <Timer size={18} />
+              Focus Sessions
+            </label>
+            <div className="opacity-control">
+              <label>Focus: {settings.focusWorkMinutes} min</label>
+              <input
+                type="range"
+                min="5"
+                max="60"
+                step="5"
+                value={settings.focusWorkMinutes}
+                onChange={(e) => updateSetting('focusWorkMinutes', parseInt(e.target.value))}
+                className="slider"
+              />
+              <label>Break: {settings.focusBreakMinutes} min</label>
+              <input
+                type="range"
+                min="1"
+                max="30"
+                step="1"
+                value={settings.focusBreakMinutes}
+                onChange={(e) => updateSetting('focusBreakMinutes', parseInt(e.target.value))}
+                className="slider"
+              />
+            </div>
+            <div className="theme-buttons">
+              {focusGoals.map(({ value, label }) => (
+                <button
+                  key={value}
+                  className={`theme-btn ${settings.focusGoalType === value ? 'active' : ''}`}
+                  onClick={() => updateSetting('focusGoalType', value)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {settings.focusGoalType !== 'none' && (
+              <label className="goal-amount">
+                Finish the session after
+                <input
+                  type="number"
+                  min="1"
+                  max="999"
+                  value={settings.focusGoalAmount}
+                  onChange={(e) => {
+                    const amount = parseInt(e.target.value);
+                    if (amount > 0) updateSetting('focusGoalAmount', Math.min(amount, 999));
+                  }}
+                />
+                {settings.focusGoalType}
+              </label>
+            )}
+            <p className="setting-note">Start a session with the Focus button above the reader.</p>
+          </div>
+
+          {/* Comprehension Checkpoints */}
+          <div className="setting-group">
+            <div className="setting-header">
+              <label className="setting-label">
+                <ListChecks size={18} />
+                Comprehension Checks
+              </label>
+              <label className="toggle">
+                <input
+                  type="checkbox"
+                  checked={settings.checkpointsEnabled}
+                  onChange={(e) => updateSetting('checkpointsEnabled', e.target.checked)}
+                />
+                <span className="toggle-slider" />
+              </label>
+            </div>
+            {settings.checkpointsEnabled && (
+              <div className="opacity-control">
+                <label>Every {settings.checkpointInterval} chunks</label>
+                <input
+                  type="range"
+                  min="5"
+                  max="60"
+                  step="5"
+                  value={settings.checkpointInterval}
+                  onChange={(e) => updateSetting('checkpointInterval', parseInt(e.target.value))}
+                  className="slider"
+                />
+              </div>
+            )}
+            <p className="setting-note">
+              A quick quiz on what you just read in the scrolling reader, with the option to read it again after a
+              miss.
+            </p>
+          </div>
+
+          {/* Background */}
+          <div className="setting-group">
+            <label className="setting-label">
+              <Video size={18} />
+              Background
+            </label>
+            <div className="theme-buttons">
+              {backgroundSources.map(({ value, label }) => (
+                <button
+                  key={value}
+                  className={`theme-btn ${settings.backgroundSource === value ? 'active' : ''}`}
+                  onClick={() => updateSetting('backgroundSource', value)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {settings.backgroundSource === 'game' && (
+              <select
+                value={settings.backgroundStyle}
+                onChange={(e) => updateSetting('backgroundStyle', e.target.value as RunnerStyle)}
+                className="font-select"
+              >
+                {(Object.keys(RUNNER_STYLES) as RunnerStyle[]).map((style) => (
+                  <option key={style} value={style}>
+                    {RUNNER_STYLES[style].label}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {settings.backgroundSource === 'videos' && (
+              <>
+                {playlist.videos.length > 0 ? (
+                  <ul className="playlist">
+                    {playlist.videos.map((video) => (
+                      <li key={video.id} className="playlist-item">
+                        <span className="playlist-name" title={video.name}>
+                          {video.name}
+                        </span>
+                        <span className="playlist-size">{formatBytes(video.size)}</span>
+                        <button
+                          className="playlist-remove"
+                          onClick={() => void playlist.remove(video.id)}
+                          title="Remove from playlist"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="setting-note">
+                    Add your own clips to play behind the text. They are stored in this browser.
+                  </p>
+                )}
+                <label className="playlist-add">
+                  <Plus size={16} />
+                  Add videos
+                  <input
+                    type="file"
+                    accept="video/*"
+                    multiple
+                    onChange={(e) => {
+                      const files = Array.from(e.target.files ?? []);
+                      // Allow picking the same files again
+                      e.target.value = '';
+                      if (files.length > 0) void playlist.add(files);
+                    }}
+                  />
+                </label>
+                {playlist.error && <p className="setting-note playlist-error">{playlist.error}</p>}
+                <div className="theme-buttons">
+                  {videoFits.map(({ value, label }) => (
+                    <button
+                      key={value}
+                      className={`theme-btn ${settings.backgroundVideoFit === value ? 'active' : ''}`}
+                      onClick={() => updateSetting('backgroundVideoFit', value)}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <div className="setting-header">
+                  <span className="setting-sublabel">Shuffle</span>
+                  <label className="toggle">
+                    <input
+                      type="checkbox"
+                      checked={settings.backgroundShuffle}
+                      onChange={(e) => updateSetting('backgroundShuffle', e.target.checked)}
+                    />
+                    <span className="toggle-slider" />
+                  </label>
+                </div>
+              </>
+            )}
+
+            {settings.backgroundSource !== 'none' && (
               <div className="opacity-control">
                 <label>Opacity: {Math.round(settings.backgroundOpacity * 100)}%</label>
                 <input
@@ -187,8 +591,8 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
             bottom: 0;
             width: 340px;
             max-width: 100vw;
-            background: #1a1a2e;
-            border-left: 1px solid rgba(255, 255, 255, 0.1);
+            background: var(--color-surface);
+            border-left: 1px solid var(--color-border);
             z-index: 101;
             display: flex;
             flex-direction: column;
@@ -205,14 +609,14 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
             align-items: center;
             justify-content: space-between;
             padding: 1.25rem 1.5rem;
-            border-bottom: 1px solid rgba(255, 255, 255, 0.1);
+            border-bottom: 1px solid var(--color-border);
           }
 
           .settings-title {
             display: flex;
             align-items: center;
             gap: 0.75rem;
-            color: white;
+            color: var(--color-text);
           }
 
           .settings-title h2 {
@@ -224,7 +628,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
           .close-button {
             background: none;
             border: none;
-            color: rgba(255, 255, 255, 0.6);
+            color: var(--color-text-muted);
             cursor: pointer;
             padding: 0.5rem;
             border-radius: 8px;
@@ -232,8 +636,8 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
           }
 
           .close-button:hover {
-            background: rgba(255, 255, 255, 0.1);
-            color: white;
+            background: var(--color-fill-strong);
+            color: var(--color-text);
           }
 
           .settings-content {
@@ -261,7 +665,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
             display: flex;
             align-items: center;
             gap: 0.5rem;
-            color: rgba(255, 255, 255, 0.9);
+            color: var(--color-text);
             font-size: 0.95rem;
             font-weight: 500;
           }
@@ -286,7 +690,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
             left: 0;
             right: 0;
             bottom: 0;
-            background-color: rgba(255, 255, 255, 0.2);
+            background-color: var(--color-fill-heavy);
             transition: 0.3s;
             border-radius: 26px;
           }
@@ -304,7 +708,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
           }
 
           .toggle input:checked + .toggle-slider {
-            background-color: #00ff88;
+            background-color: var(--color-accent);
           }
 
           .toggle input:checked + .toggle-slider:before {
@@ -323,31 +727,31 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
             justify-content: center;
             gap: 0.5rem;
             padding: 0.75rem;
-            background: rgba(255, 255, 255, 0.05);
-            border: 1px solid rgba(255, 255, 255, 0.1);
+            background: var(--color-fill);
+            border: 1px solid var(--color-border);
             border-radius: 8px;
-            color: rgba(255, 255, 255, 0.7);
+            color: var(--color-text-secondary);
             cursor: pointer;
             transition: all 0.2s;
             font-size: 0.875rem;
           }
 
           .theme-btn:hover {
-            background: rgba(255, 255, 255, 0.1);
-            border-color: rgba(255, 255, 255, 0.2);
+            background: var(--color-fill-strong);
+            border-color: var(--color-border-strong);
           }
 
           .theme-btn.active {
-            background: rgba(0, 255, 136, 0.15);
-            border-color: #00ff88;
-            color: #00ff88;
+            background: var(--color-accent-soft);
+            border-color: var(--color-accent);
+            color: var(--color-accent);
           }
 
           .slider {
             width: 100%;
             height: 6px;
             border-radius: 3px;
-            background: rgba(255, 255, 255, 0.1);
+            background: var(--color-fill-strong);
             outline: none;
             -webkit-appearance: none;
           }
@@ -357,7 +761,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
             width: 18px;
             height: 18px;
             border-radius: 50%;
-            background: #00ff88;
+            background: var(--color-accent);
             cursor: pointer;
             transition: transform 0.2s;
           }
@@ -369,22 +773,22 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
           .font-select {
             width: 100%;
             padding: 0.75rem;
-            background: rgba(255, 255, 255, 0.05);
-            border: 1px solid rgba(255, 255, 255, 0.1);
+            background: var(--color-fill);
+            border: 1px solid var(--color-border);
             border-radius: 8px;
-            color: white;
+            color: var(--color-text);
             font-size: 0.9rem;
             cursor: pointer;
             outline: none;
           }
 
           .font-select:focus {
-            border-color: #00ff88;
+            border-color: var(--color-accent);
           }
 
           .font-select option {
-            background: #1a1a2e;
-            color: white;
+            background: var(--color-surface);
+            color: var(--color-text);
           }
 
           .opacity-control {
@@ -392,13 +796,122 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
             flex-direction: column;
             gap: 0.5rem;
             padding: 0.75rem;
-            background: rgba(255, 255, 255, 0.03);
+            background: var(--color-fill);
             border-radius: 8px;
           }
 
           .opacity-control label {
             font-size: 0.85rem;
-            color: rgba(255, 255, 255, 0.6);
+            color: var(--color-text-muted);
+          }
+
+          .setting-note {
+            margin: 0;
+            font-size: 0.85rem;
+            color: var(--color-text-muted);
+          }
+
+          .goal-amount {
+            display: flex;
+            align-items: center;
+            gap: 0.5rem;
+            font-size: 0.85rem;
+            color: var(--color-text-secondary);
+          }
+
+          .goal-amount input {
+            width: 4.5rem;
+            padding: 0.375rem 0.5rem;
+            background: var(--color-fill);
+            border: 1px solid var(--color-border);
+            border-radius: 6px;
+            color: var(--color-text);
+            font-size: 0.9rem;
+            outline: none;
+          }
+
+          .goal-amount input:focus {
+            border-color: var(--color-accent);
+          }
+
+          .setting-sublabel {
+            font-size: 0.9rem;
+            color: var(--color-text-secondary);
+          }
+
+          .playlist {
+            display: flex;
+            flex-direction: column;
+            gap: 0.25rem;
+            margin: 0;
+            padding: 0;
+            list-style: none;
+          }
+
+          .playlist-item {
+            display: flex;
+            align-items: center;
+            gap: 0.5rem;
+            padding: 0.5rem 0.75rem;
+            background: var(--color-fill);
+            border-radius: 8px;
+            font-size: 0.85rem;
+            color: var(--color-text);
+          }
+
+          .playlist-name {
+            flex: 1;
+            min-width: 0;
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+          }
+
+          .playlist-size {
+            color: var(--color-text-muted);
+            font-variant-numeric: tabular-nums;
+          }
+
+          .playlist-remove {
+            display: flex;
+            padding: 0.25rem;
+            background: none;
+            border: none;
+            border-radius: 6px;
+            color: var(--color-text-muted);
+            cursor: pointer;
+          }
+
+          .playlist-remove:hover {
+            background: rgba(255, 71, 87, 0.15);
+            color: #ff4757;
+          }
+
+          .playlist-add {
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            gap: 0.5rem;
+            padding: 0.625rem;
+            border: 1px dashed var(--color-border-strong);
+            border-radius: 8px;
+            color: var(--color-text-secondary);
+            font-size: 0.9rem;
+            cursor: pointer;
+            transition: all 0.2s;
+          }
+
+          .playlist-add:hover {
+            border-color: var(--color-accent);
+            color: var(--color-accent);
+          }
+
+          .playlist-add input {
+            display: none;
+          }
+
+          .playlist-error {
+            color: #ff4757;
           }
 
           .reset-button {
@@ -0,0 +1,568 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BarChart3, X, Download, Flame, Clock, BookOpen, Gauge, Rows3, ListChecks } from 'lucide-react';
+import type { CheckpointResult, ReadingSession, ReadingSessionSettings } from '../types';
+import {
+  getMsPerChunk,
+  getStreaks,
+  getWpm,
+  listReadingSessions,
+  statsByDay,
+  statsByDocument,
+  statsBySetting,
+  statsByWeek,
+  sumSessions,
+} from '../utils/readingStats';
+import { listCheckpointResults } from '../utils/checkpoints';
+import { exportSessionsCsv, exportSessionsJson } from '../utils/statsExport';
+import { downloadFile } from '../utils/download';
+import { formatDuration } from '../utils/format';
+import { BUILT_IN_THEMES, isBuiltInTheme } from '../utils/themes';
+
+interface StatsDashboardProps {
+  onClose: () => void;
+}
+
+type ChartPeriod = 'day' | 'week';
+
+const DAYS_SHOWN = 14;
+const WEEKS_SHOWN = 8;
+
+const COMPARED_SETTINGS: { value: keyof ReadingSessionSettings; label: string }[] = [
+  { value: 'fontFamily', label: 'Font' },
+  { value: 'fontSize', label: 'Font size' },
+  { value: 'chunkSize', label: 'Chunk size' },
+  { value: 'backgroundSource', label: 'Background' },
+  { value: 'bionicEnabled', label: 'Bionic reading' },
+  { value: 'readingMode', label: 'Reading mode' },
+  { value: 'theme', label: 'Theme' },
+];
+
+/**
+ * Readable name for a stored setting value
+ */
+function describeSettingValue(setting: keyof ReadingSessionSettings, value: string): string {
+  switch (setting) {
+    case 'fontFamily':
+      // The first family of the CSS stack
+      return value.split(',')[0].replace(/['"]/g, '').trim();
+    case 'fontSize':
+      return `${value}px`;
+    case 'bionicEnabled':
+      return value === 'true' ? 'On' : 'Off';
+    case 'backgroundSource':
+      return { game: 'Runner game', videos: 'My videos', none: 'None' }[value] ?? value;
+    case 'readingMode':
+      return value === 'rsvp' ? 'RSVP' : 'Scrolling';
+    case 'theme':
+      return isBuiltInTheme(value) ? BUILT_IN_THEMES[value].label : 'Custom theme';
+    default:
+      return value.charAt(0).toUpperCase() + value.slice(1);
+  }
+}
+
+function formatChunkTime(ms: number): string {
+  return ms > 0 ? `${(ms / 1000).toFixed(1)} s` : '–';
+}
+
+/**
+ * Reading statistics recorded on this device: totals, streaks, charts by
+ * day and week, and breakdowns by document and by setting
+ */
+const StatsDashboard: React.FC<StatsDashboardProps> = ({ onClose }) => {
+  const [sessions, setSessions] = useState<ReadingSession[] | null>(null);
+  const [checkpoints, setCheckpoints] = useState<CheckpointResult[]>([]);
+  const [period, setPeriod] = useState<ChartPeriod>('day');
+  const [setting, setSetting] = useState<keyof ReadingSessionSettings>('fontFamily');
+
+  useEffect(() => {
+    let cancelled = false;
+    listReadingSessions()
+      .catch((e) => {
+        console.warn('Failed to read reading statistics:', e);
+        return [];
+      })
+      .then((list) => {
+        if (!cancelled) setSessions(list);
+      });
+    listCheckpointResults()
+      .then((list) => {
+        if (!cancelled) setCheckpoints(list);
+      })
+      .catch((e) => console.warn('Failed to read checkpoint results:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const stats = useMemo(() => {
+    if (!sessions) return null;
+    return {
+      totals: sumSessions(sessions),
+      msPerChunk: getMsPerChunk(sessions),
+      streaks: getStreaks(sessions),
+      documents: statsByDocument(sessions),
+    };
+  }, [sessions]);
+
+  const comprehension = useMemo(() => {
+    let questions = 0;
+    let correct = 0;
+    for (const result of checkpoints) {
+      questions += result.questions;
+      correct += result.correct;
+    }
+    return { questions, correct };
+  }, [checkpoints]);
+
+  const periods = useMemo(
+    () =>
+      sessions ? (period === 'day' ? statsByDay(sessions, DAYS_SHOWN) : statsByWeek(sessions, WEEKS_SHOWN)) : [],
+    [sessions, period]
+  );
+  const longestPeriod = Math.max(...periods.map((item) => item.activeMs), 1);
+
+  const settingRows = useMemo(() => (sessions ? statsBySetting(sessions, setting) : []), [sessions, setting]);
+
+  const exportStats = (format: 'csv' | 'json') => {
+    if (!sessions) return;
+    if (format === 'csv') {
+      downloadFile('reading-stats.csv', exportSessionsCsv(sessions), 'text/csv');
+    } else {
+      downloadFile('reading-stats.json', exportSessionsJson(sessions), 'application/json');
+    }
+  };
+
+  return (
+    <>
+      <div className="stats-overlay" onClick={onClose} />
+      <div className="stats-dashboard" role="dialog" aria-label="Reading statistics">
+        <div className="stats-header">
+          <div className="stats-title">
+            <BarChart3 size={22} />
+            <h2>Reading Stats</h2>
+          </div>
+          {sessions && sessions.length > 0 && (
+            <div className="stats-export">
+              <Download size={16} />
+              <button onClick={() => exportStats('csv')}>CSV</button>
+              <button onClick={() => exportStats('json')}>JSON</button>
+            </div>
+          )}
+          <button className="stats-close" onClick={onClose} title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="stats-content">
+          {!stats ? (
+            <p className="stats-empty">Loading…</p>
+          ) : stats.totals.sessions === 0 ? (
+            <p className="stats-empty">
+              Nothing recorded yet. Time spent reading and the words you cover are tracked on this device as you
+              read.
+            </p>
+          ) : (
+            <>
+              <div className="stats-cards">
+                <div className="stats-card">
+                  <Clock size={18} />
+                  <span className="stats-value">{formatDuration(stats.totals.activeMs)}</span>
+                  <span className="stats-label">Time read</span>
+                </div>
+                <div className="stats-card">
+                  <BookOpen size={18} />
+                  <span className="stats-value">{stats.totals.words.toLocaleString()}</span>
+                  <span className="stats-label">Words</span>
+                </div>
+                <div className="stats-card">
+                  <Gauge size={18} />
+                  <span className="stats-value">{getWpm(stats.totals)}</span>
+                  <span className="stats-label">Avg WPM</span>
+                </div>
+                <div className="stats-card">
+                  <Rows3 size={18} />
+                  <span className="stats-value">{formatChunkTime(stats.msPerChunk)}</span>
+                  <span className="stats-label">Per chunk</span>
+                </div>
+                <div className="stats-card">
+                  <Flame size={18} />
+                  <span className="stats-value">
+                    {stats.streaks.current} {stats.streaks.current === 1 ? 'day' : 'days'}
+                  </span>
+                  <span className="stats-label">Streak (best {stats.streaks.longest})</span>
+                </div>
+                {comprehension.questions > 0 && (
+                  <div className="stats-card">
+                    <ListChecks size={18} />
+                    <span className="stats-value">
+                      {Math.round((comprehension.correct / comprehension.questions) * 100)}%
+                    </span>
+                    <span className="stats-label">
+                      Checks right ({comprehension.correct} of {comprehension.questions})
+                    </span>
+                  </div>
+                )}
+              </div>
+
+              <section className="stats-section">
+                <div className="stats-section-header">
+                  <h3>Time read</h3>
+                  <div className="stats-tabs">
+                    <button className={period === 'day' ? 'active' : ''} onClick={() => setPeriod('day')}>
+                      Days
+                    </button>
+                    <button className={period === 'week' ? 'active' : ''} onClick={() => setPeriod('week')}>
+                      Weeks
+                    </button>
+                  </div>
+                </div>
+                <div className="stats-chart">
+                  {periods.map((item) => (
+                    <div
+                      key={item.key}
+                      className="stats-bar"
+                      title={`${item.label}: ${formatDuration(item.activeMs)}, ${item.words.toLocaleString()} words, ${getWpm(item)} WPM`}
+                    >
+                      <div className="stats-bar-track">
+                        <div className="stats-bar-fill" style={{ height: `${(item.activeMs / longestPeriod) * 100}%` }} />
+                      </div>
+                      <span className="stats-bar-label">{item.label}</span>
+                    </div>
+                  ))}
+                </div>
+              </section>
+
+              <section className="stats-section">
+                <h3>Documents</h3>
+                <table className="stats-table">
+                  <thead>
+                    <tr>
+                      <th>Document</th>
+                      <th>Time</th>
+                      <th>Words</th>
+                      <th>WPM</th>
+                      <th>Sessions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {stats.documents.map((document) => (
+                      <tr key={document.key}>
+                        <td className="stats-document" title={document.title}>
+                          {document.title}
+                        </td>
+                        <td>{formatDuration(document.activeMs)}</td>
+                        <td>{document.words.toLocaleString()}</td>
+                        <td>{getWpm(document)}</td>
+                        <td>{document.sessions}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+
+              <section className="stats-section">
+                <div className="stats-section-header">
+                  <h3>Compare settings</h3>
+                  <select
+                    value={setting}
+                    onChange={(e) => setSetting(e.target.value as keyof ReadingSessionSettings)}
+                    className="stats-select"
+                  >
+                    {COMPARED_SETTINGS.map(({ value, label }) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <table className="stats-table">
+                  <thead>
+                    <tr>
+                      <th>Value</th>
+                      <th>Time</th>
+                      <th>Words</th>
+                      <th>WPM</th>
+                      <th>Per chunk</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {settingRows.map((row) => (
+                      <tr key={row.value}>
+                        <td>{describeSettingValue(setting, row.value)}</td>
+                        <td>{formatDuration(row.activeMs)}</td>
+                        <td>{row.words.toLocaleString()}</td>
+                        <td>{getWpm(row)}</td>
+                        <td>{formatChunkTime(row.chunks > 0 ? row.activeMs / row.chunks : 0)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            </>
+          )}
+        </div>
+
+        <style>{`
+          .stats-overlay {
+            position: fixed;
+            inset: 0;
+            z-index: 80;
+            background: rgba(0, 0, 0, 0.6);
+          }
+
+          .stats-dashboard {
+            position: fixed;
+            top: 50%;
+            left: 50%;
+            z-index: 81;
+            transform: translate(-50%, -50%);
+            display: flex;
+            flex-direction: column;
+            width: 720px;
+            max-width: 94vw;
+            max-height: 90vh;
+            background: var(--color-surface);
+            border: 1px solid var(--color-border);
+            border-radius: 16px;
+            box-shadow: 0 16px 48px rgba(0, 0, 0, 0.5);
+            color: var(--color-text);
+          }
+
+          .stats-header {
+            display: flex;
+            align-items: center;
+            gap: 1rem;
+            padding: 1.25rem 1.5rem;
+            border-bottom: 1px solid var(--color-border);
+          }
+
+          .stats-title {
+            display: flex;
+            align-items: center;
+            gap: 0.75rem;
+            margin-right: auto;
+            color: var(--color-accent);
+          }
+
+          .stats-title h2 {
+            margin: 0;
+            font-size: 1.25rem;
+            font-weight: 600;
+            color: var(--color-text);
+          }
+
+          .stats-export {
+            display: flex;
+            align-items: center;
+            gap: 0.5rem;
+            color: var(--color-text-muted);
+          }
+
+          .stats-export button,
+          .stats-tabs button {
+            padding: 0.375rem 0.75rem;
+            background: var(--color-fill-strong);
+            border: 1px solid var(--color-border);
+            border-radius: 6px;
+            color: var(--color-text);
+            font-size: 0.8rem;
+            cursor: pointer;
+          }
+
+          .stats-export button:hover,
+          .stats-tabs button:hover {
+            background: var(--color-accent-soft);
+            border-color: var(--color-accent-border);
+          }
+
+          .stats-tabs {
+            display: flex;
+            gap: 0.375rem;
+          }
+
+          .stats-tabs button.active {
+            background: var(--color-accent-soft);
+            border-color: var(--color-accent);
+            color: var(--color-accent);
+          }
+
+          .stats-close {
+            background: none;
+            border: none;
+            color: var(--color-text-muted);
+            cursor: pointer;
+            padding: 0.5rem;
+            border-radius: 8px;
+          }
+
+          .stats-close:hover {
+            background: var(--color-fill-strong);
+            color: var(--color-text);
+          }
+
+          .stats-content {
+            overflow-y: auto;
+            padding: 1.25rem 1.5rem 1.5rem;
+          }
+
+          .stats-empty {
+            margin: 1rem 0;
+            color: var(--color-text-muted);
+            line-height: 1.5;
+          }
+
+          .stats-cards {
+            display: grid;
+            grid-template-columns: repeat(auto-fit, minmax(120px, 1fr));
+            gap: 0.75rem;
+          }
+
+          .stats-card {
+            display: flex;
+            flex-direction: column;
+            gap: 0.25rem;
+            padding: 0.875rem;
+            background: var(--color-fill);
+            border-radius: 10px;
+            color: var(--color-accent);
+          }
+
+          .stats-value {
+            font-size: 1.2rem;
+            font-weight: 600;
+            color: var(--color-text);
+            font-variant-numeric: tabular-nums;
+          }
+
+          .stats-label {
+            font-size: 0.75rem;
+            color: var(--color-text-muted);
+          }
+
+          .stats-section {
+            margin-top: 1.75rem;
+          }
+
+          .stats-section h3 {
+            margin: 0 0 0.75rem;
+            font-size: 0.95rem;
+            font-weight: 600;
+            color: var(--color-text);
+          }
+
+          .stats-section-header {
+            display: flex;
+            align-items: center;
+            justify-content: space-between;
+            margin-bottom: 0.75rem;
+          }
+
+          .stats-section-header h3 {
+            margin: 0;
+          }
+
+          .stats-chart {
+            display: flex;
+            align-items: flex-end;
+            gap: 0.375rem;
+            height: 160px;
+          }
+
+          .stats-bar {
+            flex: 1;
+            display: flex;
+            flex-direction: column;
+            align-items: center;
+            gap: 0.375rem;
+            height: 100%;
+            min-width: 0;
+          }
+
+          .stats-bar-track {
+            flex: 1;
+            display: flex;
+            align-items: flex-end;
+            width: 100%;
+            background: var(--color-fill);
+            border-radius: 4px;
+          }
+
+          .stats-bar-fill {
+            width: 100%;
+            min-height: 2px;
+            background: linear-gradient(180deg, var(--color-accent), var(--color-accent-alt));
+            border-radius: 4px;
+            transition: height 0.3s ease;
+          }
+
+          .stats-bar-label {
+            max-width: 100%;
+            font-size: 0.65rem;
+            color: var(--color-text-muted);
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+          }
+
+          .stats-table {
+            width: 100%;
+            border-collapse: collapse;
+            font-size: 0.85rem;
+            table-layout: fixed;
+          }
+
+          .stats-table th {
+            padding: 0.5rem;
+            color: var(--color-text-muted);
+            font-weight: 500;
+            font-size: 0.75rem;
+            text-align: right;
+          }
+
+          .stats-table td {
+            padding: 0.5rem;
+            border-top: 1px solid var(--color-border);
+            text-align: right;
+            font-variant-numeric: tabular-nums;
+          }
+
+          .stats-table th:first-child,
+          .stats-table td:first-child {
+            width: 40%;
+            text-align: left;
+          }
+
+          .stats-document {
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+          }
+
+          .stats-select {
+            padding: 0.375rem 0.5rem;
+            background: var(--color-fill);
+            border: 1px solid var(--color-border);
+            border-radius: 6px;
+            color: var(--color-text);
+            font-size: 0.8rem;
+            outline: none;
+          }
+
+          .stats-select option {
+            background: var(--color-surface);
+          }
+        `}</style>
+      </div>
+    </>
+  );
+};
+
+export default StatsDashboard;
@@ -1,60 +1,748 @@
-import { useRef, useMemo } from 'react';
-import { BookOpen } from 'lucide-react';
-import type { ReaderSettings } from '../types';
+import { useRef, useMemo, useState, useEffect, useCallback } from 'react';
+import { BookOpen, List, Play, Pause, Minus, Plus, Highlighter, Volume2, VolumeX, Search } from 'lucide-react';
+import ReaderChunk from './ReaderChunk';
+import TocSidebar from './TocSidebar';
+import AnnotationsSidebar from './AnnotationsSidebar';
+import HighlightToolbar from './HighlightToolbar';
+import CheckpointQuiz from './CheckpointQuiz';
+import SearchBar from './SearchBar';
+import type { ToolbarPosition } from './HighlightToolbar';
+import { chunkDocument, findChunkAt, getReadingProgress } from '../utils/chunking';
+import { clampWpm, WPM_STEP } from '../utils/pacing';
+import { HIGHLIGHT_COLORS } from '../utils/themes';
+import { isEditableTarget } from '../utils/keyboard';
+import { getSelectionRange } from '../utils/selection';
+import { mapHighlightsToChunks } from '../utils/highlights';
+import { exportHighlightsJson, exportHighlightsMarkdown } from '../utils/annotationExport';
+import { downloadFile, toFileName } from '../utils/download';
+import { usePacing } from '../hooks/usePacing';
+import { isSpeechSupported, useSpeech } from '../hooks/useSpeech';
+import { useVirtualList } from '../hooks/useVirtualList';
+import { useCheckpoints } from '../hooks/useCheckpoints';
+import { useSearch } from '../hooks/useSearch';
+import { useProgressReport } from '../hooks/useProgressReport';
+import type { HighlightStore } from '../hooks/useHighlights';
+import { findTocEntryIndex } from '../utils/documentModel';
+import type {
+  CheckpointResult,
+  DocumentBlock,
+  Highlight,
+  HighlightColor,
+  ReaderSettings,
+  ReadingPosition,
+  TextChunk,
+  TextPoint,
+  TocEntry,
+} from '../types';
 
 interface TextReaderProps {
-  content: string;
+  blocks: DocumentBlock[];
+  toc: TocEntry[];
   settings: ReaderSettings;
+  onSettingsChange: (settings: ReaderSettings) => void;
   title: string;
+  /** Keyboard shortcuts are disabled while overlays such as settings are open */
+  keyboardEnabled: boolean;
+  /** Reports the share of the document read so far, from 0 to 1 */
+  onProgressChange?: (progress: number) => void;
+  /** Saved position to offer resuming from */
+  resumePosition?: ReadingPosition | null;
+  /** The resume offer was taken or declined */
+  onResumeHandled?: () => void;
+  /** Where to open when there is no offer, such as after switching reading mode */
+  startPosition?: ReadingPosition | null;
+  /** Reports the reading position as it changes */
+  onPositionChange?: (position: ReadingPosition) => void;
+  /** Highlights of this document; highlighting is off when null */
+  highlightStore?: HighlightStore | null;
+  /** Reports each chunk as it becomes the active one */
+  onChunkChange?: (chunk: TextChunk) => void;
+  /** A focus session break is on: stop moving and save the position */
+  isOnBreak?: boolean;
+  /** Reports each answered comprehension checkpoint */
+  onCheckpointResult?: (result: Pick<CheckpointResult, 'blockIndex' | 'questions' | 'correct' | 'reread'>) => void;
 }
 
-const TextReader: React.FC<TextReaderProps> = ({ content, settings, title }) => {
+/** Toolbar for a fresh text selection or for an existing highlight */
+type ToolbarState =
+  | { kind: 'selection'; start: TextPoint; end: TextPoint; position: ToolbarPosition }
+  | { kind: 'highlight'; id: string; position: ToolbarPosition };
+
+/**
+ * Where to place the highlight toolbar for a rectangle on screen, in the
+ * scrolling content's coordinates
+ */
+function toolbarPosition(container: HTMLElement, rect: DOMRect): ToolbarPosition {
+  const bounds = container.getBoundingClientRect();
+  const above = rect.top - bounds.top > 120;
+  const left = rect.left + rect.width / 2 - bounds.left;
+  return {
+    top: (above ? rect.top : rect.bottom) - bounds.top + container.scrollTop,
+    left: Math.min(Math.max(left, 130), Math.max(container.clientWidth - 130, 130)),
+    placement: above ? 'above' : 'below',
+  };
+}
+
+// Wait for scrolling to settle before reporting the position
+const POSITION_SCROLL_DELAY = 500;
+
+/**
+ * Rough rendered height of a chunk row before it has been measured
+ */
+function estimateChunkHeight(
+  chunk: TextChunk,
+  hasDivider: boolean,
+  width: number,
+  fontSize: number,
+  lineHeight: number
+): number {
+  // Chunk padding, border and margin, plus the page divider above it
+  const chrome = 30 + (chunk.isParagraphEnd ? 28 : 12) + (hasDivider ? 40 : 0);
+  if (chunk.kind === 'image') return chrome + (chunk.src ? 240 : fontSize * lineHeight);
+
+  const scale = chunk.kind === 'heading' ? 1.3 : chunk.kind === 'code' ? 0.85 : 1;
+  const textWidth = Math.max((width || 350) - 34, 100);
+  const charsPerLine = Math.max(textWidth / (fontSize * scale * 0.52), 10);
+  const lines = chunk.text
+    .split('\n')
+    .reduce((sum, line) => sum + Math.max(Math.ceil(line.length / charsPerLine), 1), 0);
+  return chrome + lines * fontSize * scale * lineHeight;
+}
+
+const TextReader: React.FC<TextReaderProps> = ({
+  blocks,
+  toc,
+  settings,
+  onSettingsChange,
+  title,
+  keyboardEnabled,
+  onProgressChange,
+  resumePosition,
+  onResumeHandled,
+  startPosition,
+  onPositionChange,
+  highlightStore,
+  onChunkChange,
+  isOnBreak = false,
+  onCheckpointResult,
+}) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const chunkRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const [isTocOpen, setIsTocOpen] = useState(false);
+  const [isAnnotationsOpen, setIsAnnotationsOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const [toolbar, setToolbar] = useState<ToolbarState | null>(null);
+
+  const chunks = useMemo(
+    () => chunkDocument(blocks, settings.chunkSize),
+    [blocks, settings.chunkSize]
+  );
+  const [activeChunk, setActiveChunk] = useState(() =>
+    startPosition ? findChunkAt(chunks, startPosition.blockIndex, startPosition.charOffset) : 0
+  );
+
+  // Chunk count changes with chunk size, so keep the active index in range
+  const currentChunk = Math.min(activeChunk, Math.max(chunks.length - 1, 0));
+
+  // Moving on from the start answers the resume offer: read from here
+  const goToChunk = useCallback(
+    (index: number) => {
+      setActiveChunk(Math.min(Math.max(index, 0), Math.max(chunks.length - 1, 0)));
+      if (resumePosition) onResumeHandled?.();
+    },
+    [chunks.length, resumePosition, onResumeHandled]
+  );
+
+  // A page divider goes above the first chunk of each new page
+  const hasDivider = useCallback(
+    (index: number) =>
+      index > 0 && chunks[index].page !== undefined && chunks[index].page !== chunks[index - 1].page,
+    [chunks]
+  );
+
+  const estimateHeight = useCallback(
+    (index: number, width: number) =>
+      estimateChunkHeight(chunks[index], hasDivider(index), width, settings.fontSize, settings.lineHeight),
+    [chunks, hasDivider, settings.fontSize, settings.lineHeight]
+  );
+
+  const layoutKey = [
+    settings.chunkSize,
+    settings.fontSize,
+    settings.lineHeight,
+    settings.fontFamily,
+    settings.bionicEnabled,
+    settings.bionicFixation,
+    settings.bionicSaccade,
+  ].join('|');
+
+  // Only the chunks around the viewport are rendered
+  const {
+    listRef,
+    start,
+    end,
+    paddingTop,
+    paddingBottom,
+    measureElement,
+    scrollToIndex,
+    getScrollOffset,
+  } = useVirtualList({
+    count: chunks.length,
+    containerRef,
+    estimateHeight,
+    layoutKey,
+  });
+
+  // Current chapter for the header and the contents sidebar
+  const activeTocIndex = useMemo(
+    () => findTocEntryIndex(toc, chunks[currentChunk]?.blockIndex ?? 0),
+    [toc, chunks, currentChunk]
+  );
+  const currentChapter = activeTocIndex >= 0 ? toc[activeTocIndex].title : null;
+
+  const goToTocEntry = useCallback(
+    (entry: TocEntry) => {
+      const index = chunks.findIndex((chunk) => chunk.blockIndex >= entry.blockIndex);
+      goToChunk(index === -1 ? chunks.length - 1 : index);
+    },
+    [chunks, goToChunk]
+  );
+
+  const registerChunkElement = useCallback((id: number, element: HTMLDivElement | null) => {
+    chunkRefs.current[id] = element;
+  }, []);
+
+  const { isPlaying, pause: pausePacing, toggle: togglePacing } = usePacing({
+    chunks,
+    currentChunk,
+    goToChunk,
+    wpm: settings.autoScrollWpm,
+    mode: settings.autoScrollMode,
+    containerRef,
+    chunkRefs,
+  });
+  const isAutoScrolling = isPlaying && settings.autoScrollMode === 'continuous';
+
+  const {
+    isSpeaking,
+    spokenWord,
+    stop: stopSpeech,
+    toggle: toggleSpeech,
+    speakFrom,
+  } = useSpeech({
+    chunks,
+    currentChunk,
+    goToChunk,
+    voiceURI: settings.speechVoice,
+    rate: settings.speechRate,
+    pitch: settings.speechPitch,
+  });
+
+  // Auto-scroll and read-aloud both move the active chunk, so only one runs
+  const togglePlaying = useCallback(() => {
+    if (!isPlaying) stopSpeech();
+    togglePacing();
+  }, [isPlaying, stopSpeech, togglePacing]);
+
+  const toggleReadAloud = useCallback(() => {
+    if (!isSpeaking) pausePacing();
+    toggleSpeech();
+  }, [isSpeaking, pausePacing, toggleSpeech]);
+
+  const changeWpm = useCallback(
+    (delta: number) => {
+      onSettingsChange({ ...settings, autoScrollWpm: clampWpm(settings.autoScrollWpm + delta) });
+    },
+    [settings, onSettingsChange]
+  );
+
+  // Scroll offset to restore with the next jump, when resuming in the same layout
+  const resumeOffsetRef = useRef<number | null>(null);
+
+  // Keep the active chunk in view (continuous auto-scroll moves the view itself).
+  // Chunks streaming in at the end don't move the view; re-chunking does.
+  useEffect(() => {
+    if (isAutoScrolling) return;
+    const offset = resumeOffsetRef.current;
+    resumeOffsetRef.current = null;
+    scrollToIndex(currentChunk, offset === null ? undefined : { block: 'start', behavior: 'auto', offset });
+  }, [currentChunk, settings.chunkSize, isAutoScrolling, scrollToIndex]);
+
+  const resumeIndex = resumePosition
+    ? findChunkAt(chunks, resumePosition.blockIndex, resumePosition.charOffset)
+    : -1;
+  const resumeTocIndex = resumePosition ? findTocEntryIndex(toc, resumePosition.blockIndex) : -1;
+
+  // A position in the first chunk is no place to resume; answer the offer
+  // so new positions get saved
+  useEffect(() => {
+    if (resumePosition && resumeIndex <= 0) onResumeHandled?.();
+  }, [resumePosition, resumeIndex, onResumeHandled]);
+
+  const resumeReading = () => {
+    if (!resumePosition) return;
+    // Pixel offsets only hold in the layout they were measured in
+    resumeOffsetRef.current =
+      resumePosition.layoutKey === layoutKey && resumePosition.scrollOffset !== undefined
+        ? resumePosition.scrollOffset
+        : null;
+    if (resumeIndex === currentChunk) {
+      scrollToIndex(currentChunk, { block: 'start', behavior: 'auto', offset: resumeOffsetRef.current ?? 0 });
+      resumeOffsetRef.current = null;
+    } else {
+      goToChunk(resumeIndex);
+    }
+    onResumeHandled?.();
+  };
+
+  // Report the position when the active chunk changes and once scrolling settles
+  const reportPosition = useCallback(() => {
+    const chunk = chunks[currentChunk];
+    if (!chunk || !onPositionChange) return;
+    const scrollOffset = getScrollOffset(currentChunk);
+    onPositionChange({
+      blockIndex: chunk.blockIndex,
+      charOffset: chunk.charOffset,
+      ...(scrollOffset !== null ? { scrollOffset } : {}),
+      layoutKey,
+      progress: getReadingProgress(currentChunk, chunks.length),
+      updatedAt: Date.now(),
+    });
+  }, [chunks, currentChunk, layoutKey, getScrollOffset, onPositionChange]);
+
+  useEffect(() => {
+    reportPosition();
+    const container = containerRef.current;
+    if (!container) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const onScroll = () => {
+      clearTimeout(timer);
+      timer = setTimeout(reportPosition, POSITION_SCROLL_DELAY);
+    };
+    container.addEventListener('scroll', onScroll, { passive: true });
+    return () => {
+      clearTimeout(timer);
+      container.removeEventListener('scroll', onScroll);
+    };
+  }, [reportPosition]);
+
+  const currentChunkData = chunks[currentChunk];
+  useEffect(() => {
+    if (currentChunkData) onChunkChange?.(currentChunkData);
+  }, [currentChunkData, onChunkChange]);
+
+  const {
+    checkpoint,
+    recordChunk: recordCheckpointChunk,
+    finish: finishCheckpoint,
+    reread: rereadCheckpoint,
+  } = useCheckpoints({
+    chunks,
+    enabled: settings.checkpointsEnabled,
+    interval: settings.checkpointInterval,
+  });
+
+  useEffect(() => {
+    recordCheckpointChunk(currentChunk);
+  }, [currentChunk, recordCheckpointChunk]);
+
+  const completeCheckpoint = (correct: number, reread: boolean) => {
+    if (!checkpoint) return;
+    onCheckpointResult?.({
+      blockIndex: checkpoint.start.blockIndex,
+      questions: checkpoint.questions.length,
+      correct,
+      reread,
+    });
+    if (reread) {
+      goToChunk(rereadCheckpoint());
+    } else {
+      finishCheckpoint();
+    }
+  };
+
+  // Nothing moves the reader during a break or a checkpoint, and the place
+  // is saved for after
+  const isHeld = isOnBreak || checkpoint !== null;
+  useEffect(() => {
+    if (!isHeld) return;
+    pausePacing();
+    stopSpeech();
+    reportPosition();
+  }, [isHeld, pausePacing, stopSpeech, reportPosition]);
+
+  // Highlights split up by the chunks they cover
+  const highlights = highlightStore?.highlights;
+  const chunkHighlights = useMemo(
+    () => mapHighlightsToChunks(chunks, highlights ?? []),
+    [chunks, highlights]
+  );
+
+  // Offer the toolbar when text is selected, or when a highlight is clicked
+  const handleSelectionEnd = (e: React.SyntheticEvent) => {
+    const container = containerRef.current;
+    if (!highlightStore || !container || (e.target as Element).closest('.highlight-toolbar')) return;
+    const selection = window.getSelection();
+    const range = getSelectionRange(selection, container, chunks);
+    if (!range || !selection) return;
+    const rect = selection.getRangeAt(0).getBoundingClientRect();
+    setToolbar({ kind: 'selection', ...range, position: toolbarPosition(container, rect) });
+  };
+
+  const handleContentClick = (e: React.MouseEvent) => {
+    const container = containerRef.current;
+    const mark = (e.target as Element).closest<HTMLElement>('mark[data-highlight-id]');
+    if (!container || !mark?.dataset.highlightId || window.getSelection()?.isCollapsed === false) return;
+    setToolbar({
+      kind: 'highlight',
+      id: mark.dataset.highlightId,
+      position: toolbarPosition(container, mark.getBoundingClientRect()),
+    });
+  };
+
+  const closeToolbar = useCallback(() => setToolbar(null), []);
+
+  const search = useSearch({ chunks, currentChunk, goToChunk });
+  const { clear: clearSearch } = search;
+
+  const openSearch = useCallback(() => {
+    setIsSearchOpen(true);
+    // Already open: take focus back to the query
+    searchInputRef.current?.focus();
+    searchInputRef.current?.select();
+  }, []);
+
+  const closeSearch = useCallback(() => {
+    setIsSearchOpen(false);
+    clearSearch();
+  }, [clearSearch]);
 
-  // Theme styles
-  const themeStyles = useMemo(() => {
-    const themes = {
-      light: {
-        background: 'rgba(255, 255, 255, 0.92)',
-        text: '#1a1a2e',
-        textMuted: 'rgba(26, 26, 46, 0.6)',
-      },
-      dark: {
-        background: 'rgba(26, 26, 46, 0.92)',
-        text: 'rgba(255, 255, 255, 0.9)',
-        textMuted: 'rgba(255, 255, 255, 0.5)',
-      },
-      sepia: {
-        background: 'rgba(244, 234, 213, 0.92)',
-        text: '#433422',
-        textMuted: 'rgba(67, 52, 34, 0.6)',
-      },
+  // Close the toolbar on a click anywhere else
+  useEffect(() => {
+    if (!toolbar) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!(e.target as Element).closest?.('.highlight-toolbar')) setToolbar(null);
     };
-    return themes[settings.theme];
-  }, [settings.theme]);
+    window.addEventListener('mousedown', handleMouseDown);
+    return () => window.removeEventListener('mousedown', handleMouseDown);
+  }, [toolbar]);
+
+  const createHighlight = (color: HighlightColor, withNote: boolean) => {
+    if (toolbar?.kind !== 'selection' || !highlightStore) return;
+    const highlight = highlightStore.add(toolbar.start, toolbar.end, color);
+    window.getSelection()?.removeAllRanges();
+    setToolbar(highlight && withNote ? { kind: 'highlight', id: highlight.id, position: toolbar.position } : null);
+  };
+
+  const editedHighlight =
+    toolbar?.kind === 'highlight' ? highlights?.find((highlight) => highlight.id === toolbar.id) : undefined;
+
+  const goToHighlight = useCallback(
+    (highlight: Highlight) => {
+      goToChunk(findChunkAt(chunks, highlight.start.blockIndex, highlight.start.offset));
+    },
+    [chunks, goToChunk]
+  );
+
+  const exportHighlights = (format: 'markdown' | 'json') => {
+    if (!highlights) return;
+    const name = `${toFileName(title)} highlights`;
+    if (format === 'markdown') {
+      downloadFile(`${name}.md`, exportHighlightsMarkdown(title, blocks, toc, highlights), 'text/markdown');
+    } else {
+      downloadFile(`${name}.json`, exportHighlightsJson(title, blocks, toc, highlights), 'application/json');
+    }
+  };
+
+  const progress = getReadingProgress(currentChunk, chunks.length);
+  useProgressReport(progress, onProgressChange);
+
+  // Keyboard navigation
+  useEffect(() => {
+    if (!keyboardEnabled || checkpoint) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // The browser's find doesn't work with only part of the document rendered
+      if ((e.ctrlKey || e.metaKey) && !e.altKey && e.key.toLowerCase() === 'f') {
+        e.preventDefault();
+        openSearch();
+        return;
+      }
+      if (e.ctrlKey || e.metaKey || e.altKey || isEditableTarget(e.target, e.key)) return;
+
+      switch (e.key) {
+        case 'ArrowDown':
+        case 'j':
+        case ' ':
+          goToChunk(currentChunk + 1);
+          break;
+        case 'ArrowUp':
+        case 'k':
+          goToChunk(currentChunk - 1);
+          break;
+        case 'Home':
+          goToChunk(0);
+          break;
+        case 'End':
+          goToChunk(chunks.length - 1);
+          break;
+        case 'p':
+          togglePlaying();
+          break;
+        case 'r':
+          toggleReadAloud();
+          break;
+        case 't':
+          setIsTocOpen((open) => !open);
+          break;
+        case 'h':
+          if (highlightStore) setIsAnnotationsOpen((open) => !open);
+          break;
+        case '/':
+          openSearch();
+          break;
+        case '+':
+        case '=':
+          changeWpm(WPM_STEP);
+          break;
+        case '-':
+        case '_':
+          changeWpm(-WPM_STEP);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [
+    keyboardEnabled,
+    checkpoint,
+    currentChunk,
+    chunks.length,
+    goToChunk,
+    togglePlaying,
+    toggleReadAloud,
+    changeWpm,
+    highlightStore,
+    openSearch,
+  ]);
 
   return (
-    <div className="reader-container" style={{ background: themeStyles.background }}>
+    <div className="reader-container">
       {/* Header */}
       <div className="reader-header">
-        <div className="reader-title">
-          <BookOpen size={18} style={{ color: themeStyles.textMuted }} />
-          <h1 style={{ color: themeStyles.text }}>{title}</h1>
+        <button
+          className="reader-toc-button"
+          onClick={() => setIsTocOpen((open) => !open)}
+          title="Contents (T)"
+        >
+          <List size={18} />
+        </button>
+        <div className="reader-heading">
+          <div className="reader-title">
+            <BookOpen size={18} />
+            <h1>{title}</h1>
+          </div>
+          {currentChapter && (
+            <div className="reader-chapter">{currentChapter}</div>
+          )}
+        </div>
+        <div className="reader-header-actions">
+          <button
+            className="reader-toc-button"
+            onClick={() => (isSearchOpen ? closeSearch() : openSearch())}
+            title="Find (Ctrl+F or /)"
+          >
+            <Search size={18} />
+          </button>
+          {highlightStore && (
+            <button
+              className="reader-toc-button"
+              onClick={() => setIsAnnotationsOpen((open) => !open)}
+              title="Highlights (H)"
+            >
+              <Highlighter size={18} />
+            </button>
+          )}
         </div>
       </div>
 
-      {/* Main content - plain text display */}
+      {isSearchOpen && (
+        <SearchBar
+          query={search.query}
+          options={search.options}
+          matches={search.matches}
+          activeIndex={search.activeIndex}
+          chunks={chunks}
+          toc={toc}
+          inputRef={searchInputRef}
+          onQueryChange={search.changeQuery}
+          onToggleOption={search.toggleOption}
+          onSelect={search.goToMatch}
+          onNext={search.next}
+          onPrevious={search.previous}
+          onClose={closeSearch}
+        />
+      )}
+
+      {resumePosition && resumeIndex > 0 && (
+        <div className="reader-resume">
+          <span>
+            Continue where you left off?
+            <small>
+              {resumeTocIndex >= 0 ? `${toc[resumeTocIndex].title} · ` : ''}
+              {Math.round(resumePosition.progress * 100)}% read
+            </small>
+          </span>
+          <button className="reader-resume-continue" onClick={resumeReading}>
+            Continue
+          </button>
+          <button
+            className="reader-resume-dismiss"
+            onClick={() => onResumeHandled?.()}
+          >
+            Start from the beginning
+          </button>
+        </div>
+      )}
+
+      <TocSidebar
+        toc={toc}
+        activeIndex={activeTocIndex}
+        isOpen={isTocOpen}
+        onSelect={goToTocEntry}
+        onClose={() => setIsTocOpen(false)}
+      />
+
+      <AnnotationsSidebar
+        highlights={highlights ?? []}
+        toc={toc}
+        isOpen={isAnnotationsOpen && !!highlightStore}
+        onSelect={goToHighlight}
+        onExport={exportHighlights}
+        onClose={() => setIsAnnotationsOpen(false)}
+      />
+
+      {/* Main content - document chunks with optional bionic reading */}
       <div
         className="reader-content"
         ref={containerRef}
         style={{
-          color: themeStyles.text,
           fontSize: `${settings.fontSize}px`,
           lineHeight: settings.lineHeight,
           fontFamily: settings.fontFamily,
         }}
+        onMouseUp={handleSelectionEnd}
+        onKeyUp={handleSelectionEnd}
+        onClick={handleContentClick}
       >
-        {content}
+        <div
+          ref={listRef}
+          style={{ paddingTop, paddingBottom }}
+        >
+          {chunks.slice(start, end).map((chunk) => (
+            <div
+              key={chunk.id}
+              className={`reader-row ${chunk.id === chunks.length - 1 ? 'last' : ''}`}
+              data-index={chunk.id}
+              ref={measureElement}
+            >
+              {hasDivider(chunk.id) && (
+                <div className="page-divider">
+                  <span>Page {chunk.page}</span>
+                </div>
+              )}
+              <ReaderChunk
+                chunk={chunk}
+                isActive={chunk.id === currentChunk}
+                bionicEnabled={settings.bionicEnabled}
+                bionicFixation={settings.bionicFixation}
+                bionicSaccade={settings.bionicSaccade}
+                onSelect={isSpeaking ? speakFrom : goToChunk}
+                registerElement={registerChunkElement}
+                highlights={chunkHighlights.get(chunk.id)}
+                spokenWord={spokenWord?.chunkId === chunk.id ? spokenWord : undefined}
+                searchMatches={search.matchesByChunk.get(chunk.id)}
+                activeSearchMatch={search.activeMatch?.chunkId === chunk.id ? search.activeMatch : undefined}
+              />
+            </div>
+          ))}
+        </div>
+
+        {toolbar && highlightStore && (toolbar.kind === 'selection' || editedHighlight) && (
+          <HighlightToolbar
+            key={toolbar.kind === 'highlight' ? toolbar.id : 'selection'}
+            position={toolbar.position}
+            color={editedHighlight?.color}
+            note={editedHighlight?.note}
+            onColor={(color) =>
+              editedHighlight ? highlightStore.update(editedHighlight.id, { color }) : createHighlight(color, false)
+            }
+            onAddNote={() => createHighlight('yellow', true)}
+            onSaveNote={(note) => {
+              if (editedHighlight) highlightStore.update(editedHighlight.id, { note });
+              setToolbar(null);
+            }}
+            onDelete={
+              editedHighlight
+                ? () => {
+                    highlightStore.remove(editedHighlight.id);
+                    setToolbar(null);
+                  }
+                : undefined
+            }
+            onClose={closeToolbar}
+          />
+        )}
+      </div>
+
+      {checkpoint && (
+        <CheckpointQuiz questions={checkpoint.questions} onComplete={completeCheckpoint} onSkip={finishCheckpoint} />
+      )}
+
+      {/* Auto-scroll controls */}
+      <div className="reader-footer">
+        <button
+          className="pacing-button"
+          onClick={() => changeWpm(-WPM_STEP)}
+          title="Slower (-)"
+        >
+          <Minus size={16} />
+        </button>
+        <button
+          className="pacing-button pacing-play"
+          onClick={togglePlaying}
+          title={isPlaying ? 'Pause (P)' : 'Auto-scroll (P)'}
+        >
+          {isPlaying ? <Pause size={18} /> : <Play size={18} />}
+        </button>
+        <button
+          className="pacing-button"
+          onClick={() => changeWpm(WPM_STEP)}
+          title="Faster (+)"
+        >
+          <Plus size={16} />
+        </button>
+        {isSpeechSupported && (
+          <button
+            className={`pacing-button ${isSpeaking ? 'speaking' : ''}`}
+            onClick={toggleReadAloud}
+            title={isSpeaking ? 'Stop reading aloud (R)' : 'Read aloud (R)'}
+          >
+            {isSpeaking ? <VolumeX size={16} /> : <Volume2 size={16} />}
+          </button>
+        )}
+        <span className="pacing-speed">
+          {settings.autoScrollWpm} WPM · {settings.autoScrollMode === 'step' ? 'Step' : 'Scroll'}
+        </span>
+        <span className="pacing-progress">
+          {chunks.length > 0 ? currentChunk + 1 : 0} / {chunks.length}
+        </span>
       </div>
 
       <style>{`
@@ -68,6 +756,8 @@ const TextReader: React.FC<TextReaderProps> = ({ content, settings, title }) =>
           max-width: 90vw;
           margin: 0 auto;
           border-radius: 0;
+          background: var(--color-reader);
+          color: var(--color-text);
           box-shadow: 0 0 60px rgba(0, 0, 0, 0.5);
         }
 
@@ -80,20 +770,114 @@ const TextReader: React.FC<TextReaderProps> = ({ content, settings, title }) =>
         }
 
         .reader-header {
-          display: flex;
+          display: grid;
+          grid-template-columns: 68px 1fr 68px;
           align-items: center;
-          justify-content: center;
+          gap: 0.5rem;
           padding: 0.875rem 1.25rem;
           border-bottom: 1px solid rgba(128, 128, 128, 0.2);
         }
 
+        .reader-resume {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 0.5rem 0.75rem;
+          padding: 0.75rem 1.25rem;
+          background: var(--color-accent-soft);
+          border-bottom: 1px solid rgba(128, 128, 128, 0.2);
+          font-size: 0.9rem;
+        }
+
+        .reader-resume span {
+          display: flex;
+          flex-direction: column;
+          flex: 1;
+          min-width: 12rem;
+        }
+
+        .reader-resume small {
+          color: var(--color-text-muted);
+          font-size: 0.8rem;
+          white-space: nowrap;
+          overflow: hidden;
+          text-overflow: ellipsis;
+        }
+
+        .reader-resume button {
+          padding: 0.375rem 0.875rem;
+          border-radius: 8px;
+          font-size: 0.85rem;
+          cursor: pointer;
+        }
+
+        .reader-resume-continue {
+          background: var(--color-accent);
+          border: none;
+          color: var(--color-on-accent);
+          font-weight: 600;
+        }
+
+        .reader-resume-dismiss {
+          background: none;
+          color: var(--color-text-muted);
+          border: 1px solid rgba(128, 128, 128, 0.3);
+        }
+
+        .reader-header-actions {
+          display: flex;
+          justify-content: flex-end;
+          gap: 4px;
+        }
+
+        .reader-toc-button {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          width: 32px;
+          height: 32px;
+          background: none;
+          border: none;
+          border-radius: 8px;
+          color: var(--color-text-muted);
+          cursor: pointer;
+          transition: background 0.2s;
+        }
+
+        .reader-toc-button:hover {
+          background: rgba(128, 128, 128, 0.15);
+        }
+
+        .reader-heading {
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          min-width: 0;
+        }
+
         .reader-title {
           display: flex;
           align-items: center;
           gap: 0.5rem;
+          max-width: 100%;
           overflow: hidden;
         }
 
+        .reader-title svg {
+          flex-shrink: 0;
+          color: var(--color-text-muted);
+        }
+
+        .reader-chapter {
+          max-width: 100%;
+          margin-top: 0.15rem;
+          color: var(--color-text-muted);
+          font-size: 0.75rem;
+          white-space: nowrap;
+          overflow: hidden;
+          text-overflow: ellipsis;
+        }
+
         .reader-title h1 {
           margin: 0;
           font-size: 0.95rem;
@@ -103,7 +887,59 @@ const TextReader: React.FC<TextReaderProps> = ({ content, settings, title }) =>
           text-overflow: ellipsis;
         }
 
+        .reader-footer {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+          padding: 0.625rem 1.25rem;
+          border-top: 1px solid rgba(128, 128, 128, 0.2);
+          color: var(--color-text-muted);
+          font-size: 0.8rem;
+        }
+
+        .pacing-button {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          width: 32px;
+          height: 32px;
+          background: rgba(128, 128, 128, 0.12);
+          border: 1px solid rgba(128, 128, 128, 0.2);
+          border-radius: 8px;
+          color: inherit;
+          cursor: pointer;
+          transition: all 0.2s;
+        }
+
+        .pacing-button:hover {
+          background: rgba(128, 128, 128, 0.2);
+        }
+
+        .pacing-play {
+          width: 38px;
+          height: 38px;
+          border-radius: 50%;
+          color: var(--color-accent);
+          border-color: var(--color-accent-border);
+        }
+
+        .pacing-button.speaking {
+          color: var(--color-accent);
+          border-color: var(--color-accent-border);
+        }
+
+        .pacing-speed {
+          margin-left: 0.25rem;
+          font-variant-numeric: tabular-nums;
+        }
+
+        .pacing-progress {
+          margin-left: auto;
+          font-variant-numeric: tabular-nums;
+        }
+
         .reader-content {
+          position: relative;
           flex: 1;
           overflow-y: auto;
           padding: 1.5rem;
@@ -112,6 +948,175 @@ const TextReader: React.FC<TextReaderProps> = ({ content, settings, title }) =>
           overflow-wrap: break-word;
         }
 
+        .reader-chunk mark.highlight {
+          color: inherit;
+          border-radius: 2px;
+          cursor: pointer;
+        }
+
+        .reader-chunk mark.search-match {
+          color: inherit;
+          background: rgba(255, 170, 0, 0.3);
+          border-radius: 2px;
+        }
+
+        .reader-chunk mark.search-match.active {
+          background: rgba(255, 140, 0, 0.65);
+          box-shadow: 0 0 0 2px rgba(255, 140, 0, 0.8);
+        }
+
+        .reader-chunk mark.spoken-word {
+          color: inherit;
+          background: var(--color-accent-border);
+          border-radius: 2px;
+          box-shadow: 0 0 0 1px var(--color-accent);
+        }
+
+${Object.entries(HIGHLIGHT_COLORS)
+  .map(([color, { fill }]) => `        .reader-chunk mark.highlight-${color} { background: ${fill}; }`)
+  .join('\n')}
+
+        .reader-chunk {
+          margin: 0 0 0.75rem;
+          padding: 0.875rem 1rem;
+          background: rgba(128, 128, 128, 0.08);
+          border: 1px solid rgba(128, 128, 128, 0.12);
+          border-radius: 10px;
+          opacity: 0.45;
+          cursor: pointer;
+          transition: opacity 0.25s ease, border-color 0.25s ease, background 0.25s ease;
+        }
+
+        .reader-chunk:hover {
+          opacity: 0.7;
+        }
+
+        .reader-chunk.active {
+          opacity: 1;
+          background: var(--color-accent-soft);
+          border-color: var(--color-accent-border);
+          cursor: default;
+        }
+
+        .reader-chunk p,
+        .reader-chunk figure {
+          margin: 0;
+        }
+
+        .chunk-heading {
+          background: transparent;
+          border-color: transparent;
+          padding: 0.25rem 0.25rem;
+        }
+
+        .chunk-heading-text {
+          margin: 0;
+          font-size: 1.3em;
+          line-height: 1.3;
+        }
+
+        h3.chunk-heading-text,
+        h4.chunk-heading-text,
+        h5.chunk-heading-text,
+        h6.chunk-heading-text {
+          font-size: 1.1em;
+        }
+
+        .chunk-quote {
+          border-left: 3px solid rgba(128, 128, 128, 0.5);
+          font-style: italic;
+        }
+
+        .chunk-list-item {
+          display: flex;
+          gap: 0.6rem;
+        }
+
+        .chunk-marker {
+          flex-shrink: 0;
+          opacity: 0.7;
+        }
+
+        .chunk-code {
+          margin: 0;
+          font-family: monospace;
+          font-size: 0.85em;
+          white-space: pre-wrap;
+        }
+
+        .reader-chunk code {
+          font-family: monospace;
+          font-size: 0.9em;
+          padding: 0.05em 0.3em;
+          background: rgba(128, 128, 128, 0.15);
+          border-radius: 4px;
+        }
+
+        .reader-chunk a {
+          color: inherit;
+          text-decoration: underline;
+        }
+
+        .chunk-image img {
+          display: block;
+          max-width: 100%;
+          margin: 0 auto;
+          border-radius: 6px;
+        }
+
+        .chunk-image figcaption,
+        .chunk-image-placeholder {
+          font-size: 0.85em;
+          opacity: 0.7;
+        }
+
+        .chunk-image figcaption {
+          margin-top: 0.5rem;
+          text-align: center;
+        }
+
+        .chunk-image-placeholder {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+        }
+
+        .page-divider {
+          display: flex;
+          align-items: center;
+          gap: 0.75rem;
+          margin: 0.5rem 0 1.25rem;
+          color: var(--color-text-muted);
+          font-size: 0.75rem;
+          text-transform: uppercase;
+          letter-spacing: 0.05em;
+        }
+
+        .page-divider::before,
+        .page-divider::after {
+          content: "";
+          flex: 1;
+          border-top: 1px dashed rgba(128, 128, 128, 0.3);
+        }
+
+        .reader-chunk.paragraph-end {
+          margin-bottom: 1.75rem;
+        }
+
+        /* Rows contain their chunk's margins so measured heights include them */
+        .reader-row {
+          display: flow-root;
+        }
+
+        /* Not :last-child, which is only the last row rendered */
+        .reader-row.last .reader-chunk {
+          margin-bottom: 0;
+        }
+
+        .bionic-fixation {
+          font-weight: 700;
+        }
+
         .reader-content::-webkit-scrollbar {
           width: 6px;
         }
@@ -0,0 +1,447 @@
+import React, { useState } from 'react';
+import { Plus, Pencil, Trash2, Check, X } from 'lucide-react';
+import type { BuiltInTheme, CustomTheme, ThemeColors } from '../types';
+import {
+  BUILT_IN_THEMES,
+  CONTRAST_AA,
+  CONTRAST_AA_LARGE,
+  getContrastGrade,
+  getContrastRatio,
+  resolveTheme,
+} from '../utils/themes';
+import { createId } from '../utils/database';
+
+interface ThemeEditorProps {
+  /** The selected theme: a built-in name or a custom theme's id */
+  theme: string;
+  customThemes: CustomTheme[];
+  onChange: (theme: string, customThemes: CustomTheme[]) => void;
+}
+
+const COLOR_FIELDS: { key: keyof Omit<ThemeColors, 'overlay'>; label: string }[] = [
+  { key: 'background', label: 'Page' },
+  { key: 'surface', label: 'Reader' },
+  { key: 'text', label: 'Text' },
+  { key: 'accent', label: 'Accent' },
+];
+
+const DEFAULT_OVERLAY = { color: '#4da3ff', opacity: 0.18 };
+
+/**
+ * A small preview of a theme's colors, for the theme buttons
+ */
+const ThemeSwatch: React.FC<{ colors: ThemeColors }> = ({ colors }) => (
+  <span className="theme-swatch" style={{ background: colors.background }}>
+    <span style={{ background: colors.surface, color: colors.text }}>
+      Aa
+      <i style={{ background: colors.accent }} />
+    </span>
+  </span>
+);
+
+/**
+ * A contrast ratio with its WCAG grade
+ */
+const ContrastRow: React.FC<{ label: string; ratio: number; minimum: number }> = ({ label, ratio, minimum }) => (
+  <li className={ratio < minimum ? 'failing' : ''}>
+    <span>{label}</span>
+    <span className="contrast-ratio">{ratio.toFixed(1)}:1</span>
+    <span className="contrast-grade">{getContrastGrade(ratio)}</span>
+  </li>
+);
+
+/**
+ * Theme picker with an editor for the user's own themes. A custom theme
+ * can't be saved until its text is readable on the reader (WCAG AA).
+ */
+const ThemeEditor: React.FC<ThemeEditorProps> = ({ theme, customThemes, onChange }) => {
+  const [draft, setDraft] = useState<CustomTheme | null>(null);
+
+  const startNew = () => {
+    // Start from whatever is showing, so small tweaks are easy
+    const { background, surface, text, accent, overlay } = resolveTheme(theme, customThemes);
+    setDraft({ id: createId(), name: 'My theme', background, surface, text, accent, overlay });
+  };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    const saved = { ...draft, name: draft.name.trim() || 'My theme' };
+    const exists = customThemes.some((item) => item.id === saved.id);
+    onChange(
+      saved.id,
+      exists ? customThemes.map((item) => (item.id === saved.id ? saved : item)) : [...customThemes, saved]
+    );
+    setDraft(null);
+  };
+
+  const removeTheme = (id: string) => {
+    onChange(
+      theme === id ? 'dark' : theme,
+      customThemes.filter((item) => item.id !== id)
+    );
+    if (draft?.id === id) setDraft(null);
+  };
+
+  const updateDraft = (changes: Partial<CustomTheme>) => {
+    setDraft((current) => (current ? { ...current, ...changes } : current));
+  };
+
+  const overlay = draft?.overlay;
+  const textOnSurface = draft ? getContrastRatio(draft.text, draft.surface) : 0;
+  const textOnBackground = draft ? getContrastRatio(draft.text, draft.background) : 0;
+  const accentOnSurface = draft ? getContrastRatio(draft.accent, draft.surface) : 0;
+
+  return (
+    <div className="theme-editor">
+      <div className="theme-grid">
+        {(Object.keys(BUILT_IN_THEMES) as BuiltInTheme[]).map((id) => (
+          <button
+            key={id}
+            className={`theme-choice ${theme === id ? 'active' : ''}`}
+            onClick={() => onChange(id, customThemes)}
+          >
+            <ThemeSwatch colors={BUILT_IN_THEMES[id]} />
+            {BUILT_IN_THEMES[id].label}
+          </button>
+        ))}
+      </div>
+
+      {customThemes.length > 0 && (
+        <ul className="custom-themes">
+          {customThemes.map((item) => (
+            <li key={item.id}>
+              <button
+                className={`theme-choice ${theme === item.id ? 'active' : ''}`}
+                onClick={() => onChange(item.id, customThemes)}
+              >
+                <ThemeSwatch colors={item} />
+                <span className="custom-theme-name">{item.name}</span>
+              </button>
+              <button className="custom-theme-action" onClick={() => setDraft(item)} title="Edit theme">
+                <Pencil size={14} />
+              </button>
+              <button className="custom-theme-action" onClick={() => removeTheme(item.id)} title="Delete theme">
+                <Trash2 size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {draft ? (
+        <div className="theme-draft">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => updateDraft({ name: e.target.value })}
+            className="font-select"
+            aria-label="Theme name"
+            maxLength={40}
+          />
+
+          <div className="theme-colors">
+            {COLOR_FIELDS.map(({ key, label }) => (
+              <label key={key} className="theme-color">
+                <input type="color" value={draft[key]} onChange={(e) => updateDraft({ [key]: e.target.value })} />
+                {label}
+              </label>
+            ))}
+          </div>
+
+          <div className="setting-header">
+            <span className="setting-sublabel">Colored overlay</span>
+            <label className="toggle">
+              <input
+                type="checkbox"
+                checked={!!overlay}
+                onChange={(e) => updateDraft({ overlay: e.target.checked ? DEFAULT_OVERLAY : undefined })}
+              />
+              <span className="toggle-slider" />
+            </label>
+          </div>
+          {overlay && (
+            <div className="theme-overlay-controls">
+              <input
+                type="color"
+                value={overlay.color}
+                onChange={(e) => updateDraft({ overlay: { ...overlay, color: e.target.value } })}
+                aria-label="Overlay color"
+              />
+              <input
+                type="range"
+                min="0.05"
+                max="0.4"
+                step="0.01"
+                value={overlay.opacity}
+                onChange={(e) => updateDraft({ overlay: { ...overlay, opacity: parseFloat(e.target.value) } })}
+                className="slider"
+                aria-label="Overlay strength"
+              />
+            </div>
+          )}
+
+          <div className="theme-preview" style={{ background: draft.background }}>
+            <div style={{ background: draft.surface, color: draft.text }}>
+              <strong>Reading preview</strong>
+              <p>The quick brown fox jumps over the lazy dog.</p>
+              <span style={{ color: draft.accent }}>Accent and links</span>
+            </div>
+            {overlay && (
+              <span className="theme-preview-tint" style={{ background: overlay.color, opacity: overlay.opacity }} />
+            )}
+          </div>
+
+          <ul className="theme-contrast">
+            <ContrastRow label="Text on reader" ratio={textOnSurface} minimum={CONTRAST_AA} />
+            <ContrastRow label="Text on page" ratio={textOnBackground} minimum={CONTRAST_AA} />
+            <ContrastRow label="Accent on reader" ratio={accentOnSurface} minimum={CONTRAST_AA_LARGE} />
+          </ul>
+          {textOnSurface < CONTRAST_AA ? (
+            <p className="setting-note theme-warning">
+              Text needs a contrast of at least {CONTRAST_AA}:1 with the reader to be saved.
+            </p>
+          ) : (
+            accentOnSurface < CONTRAST_AA_LARGE && (
+              <p className="setting-note theme-warning">The accent will be hard to see on the reader.</p>
+            )
+          )}
+
+          <div className="theme-buttons">
+            <button className="theme-btn" onClick={() => setDraft(null)}>
+              <X size={16} />
+              Cancel
+            </button>
+            <button className="theme-btn active" onClick={saveDraft} disabled={textOnSurface < CONTRAST_AA}>
+              <Check size={16} />
+              Save
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button className="playlist-add" onClick={startNew}>
+          <Plus size={16} />
+          New theme
+        </button>
+      )}
+
+      <style>{`
+        .theme-editor {
+          display: flex;
+          flex-direction: column;
+          gap: 0.75rem;
+        }
+
+        .theme-grid {
+          display: grid;
+          grid-template-columns: 1fr 1fr;
+          gap: 0.5rem;
+        }
+
+        .theme-choice {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+          min-width: 0;
+          padding: 0.5rem;
+          background: var(--color-fill);
+          border: 1px solid var(--color-border);
+          border-radius: 8px;
+          color: var(--color-text-secondary);
+          font-size: 0.8rem;
+          text-align: left;
+          cursor: pointer;
+          transition: all 0.2s;
+        }
+
+        .theme-choice:hover {
+          background: var(--color-fill-strong);
+          border-color: var(--color-border-strong);
+        }
+
+        .theme-choice.active {
+          background: var(--color-accent-soft);
+          border-color: var(--color-accent);
+          color: var(--color-accent);
+        }
+
+        .theme-swatch {
+          flex-shrink: 0;
+          display: flex;
+          padding: 4px;
+          border: 1px solid rgba(128, 128, 128, 0.4);
+          border-radius: 6px;
+        }
+
+        .theme-swatch span {
+          position: relative;
+          padding: 0 6px;
+          border-radius: 3px;
+          font-size: 0.75rem;
+          font-weight: 600;
+          line-height: 1.5;
+        }
+
+        .theme-swatch i {
+          position: absolute;
+          right: -2px;
+          bottom: -2px;
+          width: 6px;
+          height: 6px;
+          border-radius: 50%;
+        }
+
+        .custom-themes {
+          display: flex;
+          flex-direction: column;
+          gap: 0.375rem;
+          margin: 0;
+          padding: 0;
+          list-style: none;
+        }
+
+        .custom-themes li {
+          display: flex;
+          align-items: center;
+          gap: 0.25rem;
+        }
+
+        .custom-themes .theme-choice {
+          flex: 1;
+        }
+
+        .custom-theme-name {
+          white-space: nowrap;
+          overflow: hidden;
+          text-overflow: ellipsis;
+        }
+
+        .custom-theme-action {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          width: 32px;
+          height: 32px;
+          background: none;
+          border: none;
+          border-radius: 6px;
+          color: var(--color-text-muted);
+          cursor: pointer;
+        }
+
+        .custom-theme-action:hover {
+          background: var(--color-fill-strong);
+          color: var(--color-text);
+        }
+
+        .theme-draft {
+          display: flex;
+          flex-direction: column;
+          gap: 0.75rem;
+          padding: 0.75rem;
+          border: 1px solid var(--color-border);
+          border-radius: 8px;
+        }
+
+        .theme-draft .font-select {
+          cursor: text;
+        }
+
+        .theme-colors {
+          display: grid;
+          grid-template-columns: 1fr 1fr;
+          gap: 0.5rem;
+        }
+
+        .theme-color {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+          color: var(--color-text-secondary);
+          font-size: 0.85rem;
+          cursor: pointer;
+        }
+
+        .theme-draft input[type='color'] {
+          flex-shrink: 0;
+          width: 32px;
+          height: 32px;
+          padding: 2px;
+          background: var(--color-fill);
+          border: 1px solid var(--color-border);
+          border-radius: 6px;
+          cursor: pointer;
+        }
+
+        .theme-overlay-controls {
+          display: flex;
+          align-items: center;
+          gap: 0.75rem;
+        }
+
+        .theme-preview {
+          position: relative;
+          padding: 0.75rem;
+          border: 1px solid rgba(128, 128, 128, 0.4);
+          border-radius: 8px;
+          overflow: hidden;
+        }
+
+        .theme-preview > div {
+          padding: 0.75rem;
+          border-radius: 6px;
+          font-size: 0.85rem;
+        }
+
+        .theme-preview p {
+          margin: 0.25rem 0;
+        }
+
+        .theme-preview-tint {
+          position: absolute;
+          inset: 0;
+          pointer-events: none;
+          mix-blend-mode: multiply;
+        }
+
+        .theme-contrast {
+          display: flex;
+          flex-direction: column;
+          gap: 0.25rem;
+          margin: 0;
+          padding: 0;
+          list-style: none;
+          font-size: 0.8rem;
+          color: var(--color-text-secondary);
+        }
+
+        .theme-contrast li {
+          display: grid;
+          grid-template-columns: 1fr auto 64px;
+          gap: 0.5rem;
+        }
+
+        .contrast-ratio {
+          font-variant-numeric: tabular-nums;
+        }
+
+        .contrast-grade {
+          font-weight: 600;
+          color: var(--color-accent);
+          text-align: right;
+        }
+
+        .theme-contrast li.failing .contrast-grade,
+        .theme-warning {
+          color: #ff4757;
+        }
+
+        .theme-btn:disabled {
+          opacity: 0.4;
+          cursor: default;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default ThemeEditor;
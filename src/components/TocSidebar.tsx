@@ -0,0 +1,149 @@
+import React from 'react';
+import { List, X } from 'lucide-react';
+import type { TocEntry } from '../types';
+
+interface TocSidebarProps {
+  toc: TocEntry[];
+  activeIndex: number;
+  isOpen: boolean;
+  onSelect: (entry: TocEntry) => void;
+  onClose: () => void;
+}
+
+/**
+ * Collapsible table of contents for jumping between chapters and sections
+ */
+const TocSidebar: React.FC<TocSidebarProps> = ({ toc, activeIndex, isOpen, onSelect, onClose }) => {
+  if (!isOpen) return null;
+
+  return (
+    <aside className="toc-sidebar">
+      <div className="toc-header">
+        <div className="toc-title">
+          <List size={18} />
+          <h2>Contents</h2>
+        </div>
+        <button className="toc-close" onClick={onClose} title="Close contents (T)">
+          <X size={18} />
+        </button>
+      </div>
+
+      <nav className="toc-list">
+        {toc.length === 0 ? (
+          <p className="toc-empty">This document has no table of contents.</p>
+        ) : (
+          toc.map((entry, index) => (
+            <button
+              key={`${entry.blockIndex}-${index}`}
+              className={`toc-entry ${index === activeIndex ? 'active' : ''}`}
+              style={{ paddingLeft: `${0.75 + Math.min(entry.level, 4) * 0.875}rem` }}
+              onClick={() => onSelect(entry)}
+              title={entry.title}
+            >
+              {entry.title}
+            </button>
+          ))
+        )}
+      </nav>
+
+      <style>{`
+        .toc-sidebar {
+          position: fixed;
+          top: 0;
+          left: 0;
+          bottom: 0;
+          width: 300px;
+          max-width: 85vw;
+          background: var(--color-surface);
+          border-right: 1px solid var(--color-border);
+          z-index: 60;
+          display: flex;
+          flex-direction: column;
+          animation: tocSlideIn 0.25s ease;
+        }
+
+        @keyframes tocSlideIn {
+          from { transform: translateX(-100%); }
+          to { transform: translateX(0); }
+        }
+
+        .toc-header {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          padding: 1rem 1.25rem;
+          border-bottom: 1px solid var(--color-border);
+        }
+
+        .toc-title {
+          display: flex;
+          align-items: center;
+          gap: 0.6rem;
+          color: var(--color-text);
+        }
+
+        .toc-title h2 {
+          margin: 0;
+          font-size: 1.05rem;
+          font-weight: 600;
+        }
+
+        .toc-close {
+          background: none;
+          border: none;
+          color: var(--color-text-muted);
+          cursor: pointer;
+          padding: 0.4rem;
+          border-radius: 8px;
+        }
+
+        .toc-close:hover {
+          background: var(--color-fill-strong);
+          color: var(--color-text);
+        }
+
+        .toc-list {
+          flex: 1;
+          overflow-y: auto;
+          padding: 0.5rem 0;
+        }
+
+        .toc-entry {
+          display: block;
+          width: 100%;
+          padding: 0.5rem 0.75rem;
+          background: none;
+          border: none;
+          border-left: 3px solid transparent;
+          color: var(--color-text-secondary);
+          font-size: 0.875rem;
+          text-align: left;
+          white-space: nowrap;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          cursor: pointer;
+          transition: all 0.15s;
+        }
+
+        .toc-entry:hover {
+          background: var(--color-fill);
+          color: var(--color-text);
+        }
+
+        .toc-entry.active {
+          border-left-color: var(--color-accent);
+          background: var(--color-accent-soft);
+          color: var(--color-accent);
+        }
+
+        .toc-empty {
+          margin: 1rem 1.25rem;
+          color: var(--color-text-muted);
+          font-size: 0.875rem;
+        }
+      `}</style>
+    </aside>
+  );
+};
+
+export default TocSidebar;
@@ -0,0 +1,85 @@
+import { useCallback, useRef, useState } from 'react';
+import type { TextChunk, TextPoint } from '../types';
+import { findChunkAt } from '../utils/chunking';
+import { createQuiz } from '../utils/quiz';
+import type { QuizQuestion } from '../utils/quiz';
+
+/** Chunks on either side of a section that wrong answers are taken from */
+const DISTRACTOR_CHUNKS = 200;
+
+export interface Checkpoint {
+  /** Where the section the questions cover starts and ends */
+  start: TextPoint;
+  end: TextPoint;
+  questions: QuizQuestion[];
+}
+
+interface UseCheckpointsOptions {
+  chunks: TextChunk[];
+  enabled: boolean;
+  /** Chunks to read between checkpoints */
+  interval: number;
+}
+
+function toPoint(chunk: TextChunk): TextPoint {
+  return { blockIndex: chunk.blockIndex, offset: chunk.charOffset };
+}
+
+/**
+ * Comprehension checkpoints for the scrolling reader. Once `interval`
+ * chunks have been read since the last one, a short quiz on them comes up.
+ * Jumping far ahead skips the check for the chunks passed over, and going
+ * back moves the start of the section back with the reader.
+ */
+export function useCheckpoints({ chunks, enabled, interval }: UseCheckpointsOptions) {
+  const [checkpoint, setCheckpoint] = useState<Checkpoint | null>(null);
+  // Kept as a text position so it holds when the chunk size changes
+  const sectionRef = useRef<TextPoint>({ blockIndex: 0, offset: 0 });
+
+  /** The reader moved to the chunk at `index` */
+  const recordChunk = useCallback(
+    (index: number) => {
+      const chunk = chunks[index];
+      if (!enabled || !chunk) return;
+      const section = sectionRef.current;
+      const start = findChunkAt(chunks, section.blockIndex, section.offset);
+      const read = index - start;
+      if (read < 0 || read > interval * 2) {
+        sectionRef.current = toPoint(chunk);
+        return;
+      }
+      if (read < interval) return;
+
+      const questions = createQuiz(chunks.slice(start, index), [
+        ...chunks.slice(index, index + DISTRACTOR_CHUNKS),
+        ...chunks.slice(Math.max(start - DISTRACTOR_CHUNKS, 0), start),
+      ]);
+      if (questions.length === 0) {
+        // Nothing to ask about (code, images, very short lines)
+        sectionRef.current = toPoint(chunk);
+        return;
+      }
+      const next: Checkpoint = { start: section, end: toPoint(chunk), questions };
+      setCheckpoint((current) => current ?? next);
+    },
+    [chunks, enabled, interval]
+  );
+
+  /** Close the checkpoint; the next section starts where it ended */
+  const finish = useCallback(() => {
+    if (checkpoint) sectionRef.current = checkpoint.end;
+    setCheckpoint(null);
+  }, [checkpoint]);
+
+  /**
+   * Close the checkpoint to read the section again, with a new check at
+   * its end. Returns the chunk the section starts at.
+   */
+  const reread = useCallback((): number => {
+    setCheckpoint(null);
+    const { blockIndex, offset } = checkpoint?.start ?? sectionRef.current;
+    return findChunkAt(chunks, blockIndex, offset);
+  }, [checkpoint, chunks]);
+
+  return { checkpoint, recordChunk, finish, reread };
+}
@@ -0,0 +1,113 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { DocumentBlock, ParsedDocument, ParseProgress } from '../types';
+import { parseFileInWorker } from '../utils/parseInWorker';
+import { buildHeadingToc } from '../utils/documentModel';
+
+interface UseDocumentImportOptions {
+  /** Called once a file has been parsed completely (not for partial documents) */
+  onImported?: (file: File, document: ParsedDocument) => void;
+}
+
+/**
+ * Imports a file in the parser worker and holds the open document.
+ * Formats that stream (PDF, EPUB) open as soon as their first pages have
+ * text; the rest of the document fills in while the import keeps running.
+ */
+export function useDocumentImport({ onImported }: UseDocumentImportOptions = {}) {
+  const [document, setDocument] = useState<ParsedDocument | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const importRef = useRef<AbortController | null>(null);
+  const onImportedRef = useRef(onImported);
+
+  useEffect(() => {
+    onImportedRef.current = onImported;
+  }, [onImported]);
+
+  const finishImport = useCallback((controller: AbortController) => {
+    if (importRef.current !== controller) return;
+    importRef.current = null;
+    setIsImporting(false);
+    setProgress(null);
+  }, []);
+
+  const importFile = useCallback(
+    async (file: File) => {
+      importRef.current?.abort();
+      const controller = new AbortController();
+      importRef.current = controller;
+      setIsImporting(true);
+      setProgress(null);
+      setError(null);
+
+      const title = file.name.replace(/\.[^/.]+$/, '');
+      let received: DocumentBlock[] = [];
+
+      try {
+        const parsed = await parseFileInWorker(file, {
+          signal: controller.signal,
+          onProgress: setProgress,
+          onBlocks: (blocks) => {
+            received = received.concat(blocks);
+            // Wait for some text; a run of empty pages makes a blank reader
+            if (!received.some((block) => block.type !== 'pageBreak')) return;
+            setDocument({ title, blocks: received, toc: buildHeadingToc(received) });
+          },
+        });
+        if (!controller.signal.aborted) {
+          setDocument(parsed);
+          onImportedRef.current?.(file, parsed);
+        }
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          setDocument(null);
+          setError(err instanceof Error ? err.message : 'Failed to parse file');
+        }
+      } finally {
+        finishImport(controller);
+      }
+    },
+    [finishImport]
+  );
+
+  const cancelImport = useCallback(() => {
+    const controller = importRef.current;
+    if (!controller) return;
+    controller.abort();
+    finishImport(controller);
+  }, [finishImport]);
+
+  /** Close the document, stopping an import that is still streaming it */
+  const closeDocument = useCallback(() => {
+    cancelImport();
+    setDocument(null);
+  }, [cancelImport]);
+
+  /** Show a document that is already parsed, such as one from the library */
+  const openDocument = useCallback(
+    (parsed: ParsedDocument) => {
+      cancelImport();
+      setError(null);
+      setDocument(parsed);
+    },
+    [cancelImport]
+  );
+
+  const clearError = useCallback(() => setError(null), []);
+
+  // Stop the worker if the app goes away mid-import
+  useEffect(() => () => importRef.current?.abort(), []);
+
+  return {
+    document,
+    isImporting,
+    progress,
+    error,
+    importFile,
+    cancelImport,
+    openDocument,
+    closeDocument,
+    clearError,
+  };
+}
@@ -0,0 +1,190 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { FocusGoalType, TextChunk } from '../types';
+
+/** Words that count as a page for documents without page numbers */
+const WORDS_PER_PAGE = 250;
+
+export type FocusPhase = 'work' | 'break';
+
+export interface FocusSessionOptions {
+  workMinutes: number;
+  breakMinutes: number;
+  goalType: FocusGoalType;
+  goalAmount: number;
+}
+
+export interface FocusSummary {
+  /** Time spent in work phases */
+  readMs: number;
+  words: number;
+  chunks: number;
+  pages: number;
+  /** Work phases started, including the last one */
+  rounds: number;
+  goalReached: boolean;
+}
+
+interface Session {
+  options: FocusSessionOptions;
+  phase: FocusPhase;
+  phaseEndsAt: number;
+  /** Start of the current work phase */
+  workStartedAt: number;
+  /** Work time from earlier rounds */
+  readMs: number;
+  round: number;
+  /** Chunks read this session, keyed by their place in the document */
+  visited: Set<string>;
+  pages: Set<number>;
+  words: number;
+}
+
+interface FocusState {
+  session: Session | null;
+  summary: FocusSummary | null;
+}
+
+function pagesCovered(session: Session): number {
+  return session.pages.size > 0 ? session.pages.size : Math.floor(session.words / WORDS_PER_PAGE);
+}
+
+function isGoalReached(session: Session): boolean {
+  const { goalType, goalAmount } = session.options;
+  if (goalType === 'chunks') return session.visited.size >= goalAmount;
+  if (goalType === 'pages') return pagesCovered(session) >= goalAmount;
+  return false;
+}
+
+function finish(session: Session, now: number): FocusState {
+  return {
+    session: null,
+    summary: {
+      readMs: session.readMs + (session.phase === 'work' ? now - session.workStartedAt : 0),
+      words: session.words,
+      chunks: session.visited.size,
+      pages: pagesCovered(session),
+      rounds: session.round,
+      goalReached: isGoalReached(session),
+    },
+  };
+}
+
+function startWork(session: Session, now: number): Session {
+  return {
+    ...session,
+    phase: 'work',
+    phaseEndsAt: now + session.options.workMinutes * 60000,
+    workStartedAt: now,
+    round: session.round + 1,
+  };
+}
+
+/**
+ * Move on to the next phase once the current one has run out
+ */
+function advance(state: FocusState, now: number): FocusState {
+  const { session } = state;
+  if (!session || now < session.phaseEndsAt) return state;
+  if (session.phase === 'break') return { ...state, session: startWork(session, now) };
+  return {
+    ...state,
+    session: {
+      ...session,
+      phase: 'break',
+      phaseEndsAt: now + session.options.breakMinutes * 60000,
+      readMs: session.readMs + (now - session.workStartedAt),
+    },
+  };
+}
+
+/**
+ * Pomodoro-style focus sessions: timed work phases alternating with
+ * breaks until the session is ended or its goal is met. Chunks reported
+ * through `recordChunk` during work phases count towards the goal and
+ * the summary shown at the end.
+ */
+export function useFocusSession() {
+  const [state, setState] = useState<FocusState>({ session: null, summary: null });
+  const [now, setNow] = useState(() => Date.now());
+  const isActive = state.session !== null;
+
+  useEffect(() => {
+    if (!isActive) return;
+    const timer = window.setInterval(() => {
+      const time = Date.now();
+      setNow(time);
+      setState((current) => advance(current, time));
+    }, 1000);
+    return () => window.clearInterval(timer);
+  }, [isActive]);
+
+  const start = useCallback((options: FocusSessionOptions) => {
+    const time = Date.now();
+    setNow(time);
+    const session: Session = {
+      options,
+      phase: 'work',
+      phaseEndsAt: time,
+      workStartedAt: time,
+      readMs: 0,
+      round: 0,
+      visited: new Set(),
+      pages: new Set(),
+      words: 0,
+    };
+    setState({ session: startWork(session, time), summary: null });
+  }, []);
+
+  const end = useCallback(() => {
+    setState((current) => (current.session ? finish(current.session, Date.now()) : current));
+  }, []);
+
+  const skipBreak = useCallback(() => {
+    const time = Date.now();
+    setNow(time);
+    setState((current) =>
+      current.session?.phase === 'break' ? { ...current, session: startWork(current.session, time) } : current
+    );
+  }, []);
+
+  const dismissSummary = useCallback(() => {
+    setState((current) => ({ ...current, summary: null }));
+  }, []);
+
+  const recordChunk = useCallback((chunk: TextChunk) => {
+    setState((current) => {
+      const { session } = current;
+      const key = `${chunk.blockIndex}:${chunk.charOffset}`;
+      if (!session || session.phase !== 'work' || session.visited.has(key)) return current;
+      const updated: Session = {
+        ...session,
+        visited: new Set(session.visited).add(key),
+        pages: chunk.page !== undefined ? new Set(session.pages).add(chunk.page) : session.pages,
+        words: session.words + chunk.wordCount,
+      };
+      return isGoalReached(updated) ? finish(updated, Date.now()) : { ...current, session: updated };
+    });
+  }, []);
+
+  const { session, summary } = state;
+  return {
+    phase: session?.phase ?? null,
+    remainingMs: session ? Math.max(session.phaseEndsAt - now, 0) : 0,
+    round: session?.round ?? 0,
+    /** Progress towards the goal from 0 to 1, or null without a goal */
+    goalProgress:
+      session && session.options.goalType !== 'none'
+        ? Math.min(
+            (session.options.goalType === 'chunks' ? session.visited.size : pagesCovered(session)) /
+              Math.max(session.options.goalAmount, 1),
+            1
+          )
+        : null,
+    summary,
+    start,
+    end,
+    skipBreak,
+    dismissSummary,
+    recordChunk,
+  };
+}
@@ -0,0 +1,108 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { Highlight, HighlightColor, ParsedDocument, TextPoint } from '../types';
+import { createId } from '../utils/database';
+import { deleteHighlight, getRangeText, listHighlights, putHighlight, resolveHighlights } from '../utils/highlights';
+
+export interface HighlightStore {
+  /** Highlights found in the document, in reading order */
+  highlights: Highlight[];
+  add: (start: TextPoint, end: TextPoint, color: HighlightColor, note?: string) => Highlight | null;
+  update: (id: string, changes: Partial<Pick<Highlight, 'color' | 'note'>>) => void;
+  remove: (id: string) => void;
+}
+
+/**
+ * Highlights of the open document, loaded by content hash.
+ * Null while the document has no hash (still streaming in, or the browser
+ * can't compute one), since highlights couldn't be saved.
+ */
+export function useHighlights(document: ParsedDocument | null): HighlightStore | null {
+  const [stored, setStored] = useState<{ hash: string; highlights: Highlight[] } | null>(null);
+  const hash = document?.hash;
+
+  useEffect(() => {
+    if (!hash) return;
+    let cancelled = false;
+    listHighlights(hash)
+      .catch((e) => {
+        console.warn('Failed to load highlights:', e);
+        return [];
+      })
+      .then((highlights) => {
+        if (!cancelled) setStored({ hash, highlights });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [hash]);
+
+  const current = hash && stored?.hash === hash ? stored.highlights : null;
+  const blocks = document?.blocks;
+
+  // Re-anchor against the current text, in case offsets moved
+  const highlights = useMemo(
+    () => (current && blocks ? resolveHighlights(blocks, current) : []),
+    [current, blocks]
+  );
+
+  const persist = useCallback((highlight: Highlight) => {
+    putHighlight(highlight).catch((e) => console.warn('Failed to save the highlight:', e));
+  }, []);
+
+  const add = useCallback(
+    (start: TextPoint, end: TextPoint, color: HighlightColor, note?: string) => {
+      if (!hash || !blocks) return null;
+      const text = getRangeText(blocks, start, end);
+      if (!text.trim()) return null;
+      const now = Date.now();
+      const highlight: Highlight = {
+        id: createId(),
+        documentHash: hash,
+        start,
+        end,
+        text,
+        color,
+        ...(note ? { note } : {}),
+        createdAt: now,
+        updatedAt: now,
+      };
+      setStored((value) =>
+        value?.hash === hash ? { hash, highlights: [...value.highlights, highlight] } : value
+      );
+      persist(highlight);
+      return highlight;
+    },
+    [hash, blocks, persist]
+  );
+
+  const update = useCallback(
+    (id: string, changes: Partial<Pick<Highlight, 'color' | 'note'>>) => {
+      const existing = highlights.find((highlight) => highlight.id === id);
+      if (!existing || !hash) return;
+      const updated: Highlight = { ...existing, ...changes, updatedAt: Date.now() };
+      if (!updated.note) delete updated.note;
+      setStored((value) =>
+        value?.hash === hash
+          ? { hash, highlights: value.highlights.map((highlight) => (highlight.id === id ? updated : highlight)) }
+          : value
+      );
+      persist(updated);
+    },
+    [highlights, hash, persist]
+  );
+
+  const remove = useCallback(
+    (id: string) => {
+      setStored((value) =>
+        value ? { ...value, highlights: value.highlights.filter((highlight) => highlight.id !== id) } : value
+      );
+      deleteHighlight(id).catch((e) => console.warn('Failed to delete the highlight:', e));
+    },
+    []
+  );
+
+  return useMemo(
+    () => (current ? { highlights, add, update, remove } : null),
+    [current, highlights, add, update, remove]
+  );
+}
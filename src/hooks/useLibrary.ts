@@ -0,0 +1,105 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { LibraryEntry, ParsedDocument, SupportedFormat } from '../types';
+import {
+  addToLibrary,
+  getStorageUsage,
+  listLibrary,
+  openFromLibrary,
+  removeFromLibrary,
+  updateLibraryEntry,
+} from '../utils/library';
+import type { StorageUsage } from '../utils/library';
+
+function readLibrary() {
+  return Promise.all([listLibrary(), getStorageUsage()]);
+}
+
+/**
+ * The saved document library and the storage it uses.
+ * Storage failures (private browsing, quota) are logged and leave the
+ * library empty rather than breaking reading.
+ */
+export function useLibrary() {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [list, estimate] = await readLibrary();
+      setEntries(list);
+      setUsage(estimate);
+    } catch (e) {
+      console.warn('Failed to read the document library:', e);
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    readLibrary()
+      .then(([list, estimate]) => {
+        if (cancelled) return;
+        setEntries(list);
+        setUsage(estimate);
+      })
+      .catch((e) => console.warn('Failed to read the document library:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const save = useCallback(
+    async (file: File, format: SupportedFormat, document: ParsedDocument) => {
+      try {
+        const entry = await addToLibrary(file, format, document);
+        void refresh();
+        return entry;
+      } catch (e) {
+        console.warn('Failed to save the document to the library:', e);
+        return null;
+      }
+    },
+    [refresh]
+  );
+
+  const open = useCallback(async (id: string) => {
+    const result = await openFromLibrary(id);
+    if (!result) {
+      setEntries((current) => current.filter((entry) => entry.id !== id));
+      throw new Error('This document is no longer in the library');
+    }
+    return result;
+  }, []);
+
+  const remove = useCallback(
+    async (id: string) => {
+      try {
+        await removeFromLibrary(id);
+        setEntries((current) => current.filter((entry) => entry.id !== id));
+        void refresh();
+      } catch (e) {
+        console.warn('Failed to delete the document:', e);
+      }
+    },
+    [refresh]
+  );
+
+  const rename = useCallback(async (id: string, title: string) => {
+    try {
+      const updated = await updateLibraryEntry(id, { title });
+      if (updated) setEntries((current) => current.map((entry) => (entry.id === id ? updated : entry)));
+    } catch (e) {
+      console.warn('Failed to rename the document:', e);
+    }
+  }, []);
+
+  /** Stores progress without re-rendering; the list catches up on refresh */
+  const updateProgress = useCallback(async (id: string, progress: number) => {
+    try {
+      await updateLibraryEntry(id, { progress });
+    } catch (e) {
+      console.warn('Failed to save reading progress:', e);
+    }
+  }, []);
+
+  return { entries, usage, refresh, save, open, remove, rename, updateProgress };
+}
@@ -0,0 +1,111 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { RefObject } from 'react';
+import type { AutoScrollMode, TextChunk } from '../types';
+import { getChunkTiming } from '../utils/pacing';
+
+interface UsePacingOptions {
+  chunks: TextChunk[];
+  currentChunk: number;
+  goToChunk: (index: number) => void;
+  wpm: number;
+  mode: AutoScrollMode;
+  containerRef: RefObject<HTMLElement | null>;
+  chunkRefs: RefObject<(HTMLElement | null)[]>;
+}
+
+/**
+ * Scroll offset that centers a chunk inside the scroll container
+ */
+function centeredScrollTop(container: HTMLElement, element: HTMLElement): number {
+  const top = element.offsetTop + element.offsetHeight / 2 - container.clientHeight / 2;
+  return Math.min(Math.max(top, 0), container.scrollHeight - container.clientHeight);
+}
+
+/**
+ * Drives automatic reading at a target words-per-minute.
+ * In step mode the active chunk advances after its reading time; in
+ * continuous mode the container scrolls smoothly towards the next chunk.
+ */
+export function usePacing({
+  chunks,
+  currentChunk,
+  goToChunk,
+  wpm,
+  mode,
+  containerRef,
+  chunkRefs,
+}: UsePacingOptions) {
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const play = useCallback(() => setIsPlaying(true), []);
+  const pause = useCallback(() => setIsPlaying(false), []);
+  const toggle = useCallback(() => setIsPlaying((playing) => !playing), []);
+
+  const chunk = chunks[currentChunk];
+  const isLast = currentChunk >= chunks.length - 1;
+
+  // Step mode: advance one chunk at a time
+  useEffect(() => {
+    if (!isPlaying || mode !== 'step' || !chunk) return;
+
+    const { readMs, pauseMs } = getChunkTiming(chunk, wpm);
+    const timer = window.setTimeout(() => {
+      if (isLast) {
+        setIsPlaying(false);
+      } else {
+        goToChunk(currentChunk + 1);
+      }
+    }, readMs + pauseMs);
+
+    return () => window.clearTimeout(timer);
+  }, [isPlaying, mode, chunk, currentChunk, isLast, wpm, goToChunk]);
+
+  // Continuous mode: glide from the current position to the next chunk
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!isPlaying || mode !== 'continuous' || !chunk || !container) return;
+
+    const next = chunkRefs.current[currentChunk + 1];
+    const from = container.scrollTop;
+    const to = next
+      ? centeredScrollTop(container, next)
+      : container.scrollHeight - container.clientHeight;
+    const { readMs, pauseMs } = getChunkTiming(chunk, wpm);
+    const startedAt = performance.now();
+    let frame = 0;
+
+    const step = (now: number) => {
+      const elapsed = now - startedAt;
+      container.scrollTop = from + (to - from) * Math.min(elapsed / readMs, 1);
+
+      if (elapsed >= readMs + pauseMs) {
+        if (isLast) {
+          setIsPlaying(false);
+        } else {
+          goToChunk(currentChunk + 1);
+        }
+        return;
+      }
+      frame = requestAnimationFrame(step);
+    };
+
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, mode, chunk, currentChunk, isLast, wpm, goToChunk, containerRef, chunkRefs]);
+
+  // Manual scrolling takes over from continuous scrolling
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!isPlaying || mode !== 'continuous' || !container) return;
+
+    const handleManualScroll = () => setIsPlaying(false);
+    container.addEventListener('wheel', handleManualScroll, { passive: true });
+    container.addEventListener('touchstart', handleManualScroll, { passive: true });
+    return () => {
+      container.removeEventListener('wheel', handleManualScroll);
+      container.removeEventListener('touchstart', handleManualScroll);
+    };
+  }, [isPlaying, mode, containerRef]);
+
+  return { isPlaying, play, pause, toggle };
+}
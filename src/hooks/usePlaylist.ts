@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { PlaylistVideo } from '../types';
+import { addToPlaylist, listPlaylist, removeFromPlaylist } from '../utils/playlist';
+
+export interface Playlist {
+  videos: PlaylistVideo[];
+  /** Why the last change failed, e.g. storage being full */
+  error: string | null;
+  add: (files: File[]) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+/**
+ * The background video playlist. Loading failures are logged and leave it
+ * empty; failures to add or remove are reported through `error`.
+ */
+export function usePlaylist(): Playlist {
+  const [videos, setVideos] = useState<PlaylistVideo[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listPlaylist()
+      .then((list) => {
+        if (!cancelled) setVideos(list);
+      })
+      .catch((e) => console.warn('Failed to read the background playlist:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // New videos are appended so the one playing isn't reloaded
+  const add = useCallback(async (files: File[]) => {
+    setError(null);
+    try {
+      const added = await addToPlaylist(files);
+      if (added.length < files.length) setError('Only video files can be added');
+      setVideos((current) => [...current, ...added]);
+    } catch (e) {
+      console.warn('Failed to add background videos:', e);
+      setError('Could not store the videos. The browser may be out of storage space.');
+    }
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    setError(null);
+    try {
+      await removeFromPlaylist(id);
+      setVideos((current) => current.filter((video) => video.id !== id));
+    } catch (e) {
+      console.warn('Failed to remove the background video:', e);
+      setError('Could not remove the video');
+    }
+  }, []);
+
+  return { videos, error, add, remove };
+}
@@ -0,0 +1,17 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * Report a reader's progress once it moves away from where it opened.
+ * Opening a document or switching reading mode reports nothing, so the
+ * stored progress isn't replaced by the place the reader happened to start.
+ */
+export function useProgressReport(progress: number, onProgressChange?: (progress: number) => void) {
+  // Progress at mount, until the reader first moves
+  const startRef = useRef<number | null>(progress);
+
+  useEffect(() => {
+    if (startRef.current === progress) return;
+    startRef.current = null;
+    onProgressChange?.(progress);
+  }, [progress, onProgressChange]);
+}
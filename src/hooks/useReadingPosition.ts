@@ -0,0 +1,66 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { ParsedDocument, ReadingPosition } from '../types';
+import { loadReadingPosition, saveReadingPosition } from '../utils/readingPositions';
+
+interface LoadedPosition {
+  document: ParsedDocument;
+  position: ReadingPosition | null;
+  /** The offer to resume has been taken or declined */
+  handled: boolean;
+  /** Last position saved since, where a reader opened by switching mode starts */
+  latest?: ReadingPosition;
+}
+
+/**
+ * Saved reading position of the open document.
+ * When a document with a saved position opens, the position is offered for
+ * resuming; new positions are only saved once that offer has been answered,
+ * so opening a document doesn't overwrite where it was left. `isSettled`
+ * tells other progress records (the library's) when they can be written.
+ */
+export function useReadingPosition(document: ParsedDocument | null) {
+  const [loaded, setLoaded] = useState<LoadedPosition | null>(null);
+  const hash = document?.hash;
+
+  useEffect(() => {
+    if (!document?.hash) return;
+    let cancelled = false;
+    loadReadingPosition(document.hash)
+      .catch((e) => {
+        console.warn('Failed to load the reading position:', e);
+        return null;
+      })
+      .then((position) => {
+        if (!cancelled) setLoaded({ document, position, handled: false });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [document]);
+
+  // Each opened document gets its own load, even if the same file was open before
+  const current = loaded && loaded.document === document ? loaded : null;
+  const resumePosition =
+    current && !current.handled && current.position && current.position.progress > 0
+      ? current.position
+      : null;
+  // Loaded and the offer answered; documents without a hash have nothing to wait for
+  const isSettled = !hash || (!!current && !resumePosition);
+  const canSave = !!hash && isSettled;
+  const startPosition = current?.latest ?? null;
+
+  const savePosition = useCallback(
+    (position: ReadingPosition) => {
+      if (!hash || !canSave) return;
+      setLoaded((value) => (value && value.document === document ? { ...value, latest: position } : value));
+      saveReadingPosition(hash, position).catch((e) => console.warn('Failed to save the reading position:', e));
+    },
+    [document, hash, canSave]
+  );
+
+  const dismissResume = useCallback(() => {
+    setLoaded((value) => (value && !value.handled ? { ...value, handled: true } : value));
+  }, []);
+
+  return { resumePosition, startPosition, isSettled, savePosition, dismissResume };
+}
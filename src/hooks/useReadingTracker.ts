@@ -0,0 +1,140 @@
+import { useEffect, useCallback, useMemo, useRef } from 'react';
+import type { ParsedDocument, ReaderSettings, ReadingSession, ReadingSessionSettings, TextChunk } from '../types';
+import { createId } from '../utils/database';
+import { saveReadingSession } from '../utils/readingStats';
+
+/** Reading stops counting after this long without any activity */
+const IDLE_MS = 60000;
+const TICK_MS = 5000;
+const SAVE_INTERVAL_MS = 30000;
+/** Shorter sessions without any words read aren't worth keeping */
+const MIN_SESSION_MS = 10000;
+
+/**
+ * Records reading sessions for the statistics view. A session covers one
+ * open document with the same settings; changing a compared setting starts
+ * a new one. Time counts while the tab is visible and the reader was used
+ * in the last minute.
+ */
+export function useReadingTracker(document: ParsedDocument | null, settings: ReaderSettings) {
+  const sessionRef = useRef<ReadingSession | null>(null);
+  // Chunks read in this document, kept across sessions so rereading after
+  // a settings change doesn't count words twice
+  const visitedRef = useRef({ title: null as string | null, keys: new Set<string>() });
+  const lastTickRef = useRef(0);
+  const lastActivityRef = useRef(0);
+
+  // The hash only arrives once a streamed document is complete
+  const hashRef = useRef<string | undefined>(undefined);
+  useEffect(() => {
+    hashRef.current = document?.hash;
+  }, [document]);
+
+  const title = document?.title ?? null;
+  const { readingMode, fontFamily, fontSize, chunkSize, bionicEnabled, backgroundSource, theme } = settings;
+  const compared = useMemo<ReadingSessionSettings>(
+    () => ({ readingMode, fontFamily, fontSize, chunkSize, bionicEnabled, backgroundSource, theme }),
+    [readingMode, fontFamily, fontSize, chunkSize, bionicEnabled, backgroundSource, theme]
+  );
+
+  /** Add the time since the last tick if the reader was in use */
+  const tick = useCallback(() => {
+    const session = sessionRef.current;
+    const now = Date.now();
+    const elapsed = now - lastTickRef.current;
+    lastTickRef.current = now;
+    if (!session || window.document.hidden || now - lastActivityRef.current > IDLE_MS) return;
+    session.activeMs += elapsed;
+    session.endedAt = now;
+  }, []);
+
+  const markActive = useCallback(() => {
+    tick();
+    lastActivityRef.current = Date.now();
+  }, [tick]);
+
+  useEffect(() => {
+    if (title === null) return;
+    const now = Date.now();
+    const session: ReadingSession = {
+      id: createId(),
+      title,
+      startedAt: now,
+      endedAt: now,
+      activeMs: 0,
+      words: 0,
+      chunks: 0,
+      settings: compared,
+    };
+    sessionRef.current = session;
+    if (visitedRef.current.title !== title) visitedRef.current = { title, keys: new Set() };
+    lastTickRef.current = now;
+    lastActivityRef.current = now;
+
+    const save = () => {
+      if (session.activeMs < MIN_SESSION_MS && session.words === 0) return;
+      const hash = hashRef.current;
+      saveReadingSession({ ...session, ...(hash ? { documentHash: hash } : {}) }).catch((e) =>
+        console.warn('Failed to save reading statistics:', e)
+      );
+    };
+
+    let lastSaved = now;
+    const timer = window.setInterval(() => {
+      tick();
+      if (Date.now() - lastSaved >= SAVE_INTERVAL_MS) {
+        lastSaved = Date.now();
+        save();
+      }
+    }, TICK_MS);
+
+    const handleVisibilityChange = () => {
+      tick();
+      if (window.document.hidden) save();
+    };
+
+    const activityEvents = ['keydown', 'pointerdown', 'wheel', 'scroll'] as const;
+    for (const event of activityEvents) {
+      window.addEventListener(event, markActive, { capture: true, passive: true });
+    }
+    window.document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      tick();
+      save();
+      sessionRef.current = null;
+      window.clearInterval(timer);
+      for (const event of activityEvents) {
+        window.removeEventListener(event, markActive, { capture: true });
+      }
+      window.document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [title, compared, tick, markActive]);
+
+  /** The scrolling reader moved to a chunk; each chunk counts once */
+  const recordChunk = useCallback(
+    (chunk: TextChunk) => {
+      const session = sessionRef.current;
+      const key = `${chunk.blockIndex}:${chunk.charOffset}`;
+      if (!session || visitedRef.current.keys.has(key)) return;
+      visitedRef.current.keys.add(key);
+      markActive();
+      session.words += chunk.wordCount;
+      session.chunks++;
+    },
+    [markActive]
+  );
+
+  /** Words shown by the RSVP reader */
+  const recordWords = useCallback(
+    (count: number) => {
+      const session = sessionRef.current;
+      if (!session) return;
+      markActive();
+      session.words += count;
+    },
+    [markActive]
+  );
+
+  return { recordChunk, recordWords };
+}
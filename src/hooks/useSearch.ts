@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { TextChunk } from '../types';
+import { groupMatchesByChunk, searchChunks } from '../utils/search';
+import type { SearchOptions } from '../utils/search';
+
+interface UseSearchOptions {
+  chunks: TextChunk[];
+  currentChunk: number;
+  goToChunk: (index: number) => void;
+}
+
+const DEFAULT_OPTIONS: SearchOptions = { caseSensitive: false, wholeWord: false };
+
+/**
+ * Find in the document. A new query starts at the first match from the
+ * reader's position on, and the reader follows the active match.
+ */
+export function useSearch({ chunks, currentChunk, goToChunk }: UseSearchOptions) {
+  const [query, setQuery] = useState('');
+  const [options, setOptions] = useState<SearchOptions>(DEFAULT_OPTIONS);
+  // Chosen match, or null for the first one from `anchor` on
+  const [selected, setSelected] = useState<number | null>(null);
+  const [anchor, setAnchor] = useState(0);
+
+  const matches = useMemo(() => searchChunks(chunks, query, options), [chunks, query, options]);
+  const matchesByChunk = useMemo(() => groupMatchesByChunk(matches), [matches]);
+
+  let activeIndex = -1;
+  if (matches.length > 0) {
+    const fromAnchor = matches.findIndex((match) => match.chunkId >= anchor);
+    activeIndex = Math.min(selected ?? (fromAnchor === -1 ? 0 : fromAnchor), matches.length - 1);
+  }
+  const activeMatch = activeIndex >= 0 ? matches[activeIndex] : null;
+
+  // Read through a ref so chunks streaming in don't pull the reader back
+  const goToChunkRef = useRef(goToChunk);
+  useEffect(() => {
+    goToChunkRef.current = goToChunk;
+  }, [goToChunk]);
+
+  const activeChunkId = activeMatch?.chunkId;
+  useEffect(() => {
+    if (activeChunkId !== undefined) goToChunkRef.current(activeChunkId);
+  }, [activeChunkId]);
+
+  const restart = useCallback(() => {
+    setSelected(null);
+    setAnchor(currentChunk);
+  }, [currentChunk]);
+
+  const changeQuery = useCallback(
+    (value: string) => {
+      setQuery(value);
+      restart();
+    },
+    [restart]
+  );
+
+  const toggleOption = useCallback(
+    (option: keyof SearchOptions) => {
+      setOptions((current) => ({ ...current, [option]: !current[option] }));
+      restart();
+    },
+    [restart]
+  );
+
+  /** Make a match active and bring the reader to it, even if it's already active */
+  const goToMatch = useCallback(
+    (index: number) => {
+      const match = matches[index];
+      if (!match) return;
+      setSelected(index);
+      goToChunk(match.chunkId);
+    },
+    [matches, goToChunk]
+  );
+
+  const next = useCallback(() => {
+    if (matches.length) goToMatch((activeIndex + 1) % matches.length);
+  }, [matches.length, activeIndex, goToMatch]);
+
+  const previous = useCallback(() => {
+    if (matches.length) goToMatch((activeIndex - 1 + matches.length) % matches.length);
+  }, [matches.length, activeIndex, goToMatch]);
+
+  const clear = useCallback(() => {
+    setQuery('');
+    setSelected(null);
+  }, []);
+
+  return {
+    query,
+    options,
+    matches,
+    matchesByChunk,
+    activeIndex,
+    activeMatch,
+    changeQuery,
+    toggleOption,
+    goToMatch,
+    next,
+    previous,
+    clear,
+  };
+}
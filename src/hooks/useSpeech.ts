@@ -0,0 +1,137 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { TextChunk } from '../types';
+
+interface UseSpeechOptions {
+  chunks: TextChunk[];
+  currentChunk: number;
+  goToChunk: (index: number) => void;
+  /** voiceURI of the chosen voice; empty for the browser default */
+  voiceURI: string;
+  rate: number;
+  pitch: number;
+}
+
+/** The word being spoken, as offsets into a chunk's text */
+export interface SpokenWord {
+  chunkId: number;
+  start: number;
+  end: number;
+}
+
+export const isSpeechSupported = typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+/**
+ * Voices offered by the browser. Most browsers load them asynchronously,
+ * so the list fills in after a voiceschanged event.
+ */
+export function useSpeechVoices(): SpeechSynthesisVoice[] {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() =>
+    isSpeechSupported ? window.speechSynthesis.getVoices() : []
+  );
+
+  useEffect(() => {
+    if (!isSpeechSupported) return;
+    const update = () => setVoices(window.speechSynthesis.getVoices());
+    window.speechSynthesis.addEventListener('voiceschanged', update);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', update);
+  }, []);
+
+  return voices;
+}
+
+/**
+ * End of the word starting at `index`, for browsers whose boundary events
+ * leave out charLength
+ */
+function findWordEnd(text: string, index: number): number {
+  const match = /^\S+/.exec(text.slice(index));
+  return index + (match ? match[0].replace(/[^\p{L}\p{N}]+$/u, '').length || match[0].length : 0);
+}
+
+/**
+ * Reads the document aloud with the Web Speech API, one chunk per
+ * utterance, moving the active chunk along as each one finishes.
+ * Changing the active chunk while speaking restarts speech from there.
+ */
+export function useSpeech({ chunks, currentChunk, goToChunk, voiceURI, rate, pitch }: UseSpeechOptions) {
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [spokenWord, setSpokenWord] = useState<SpokenWord | null>(null);
+  // Bumped to read the active chunk again from its start
+  const [restartCount, setRestartCount] = useState(0);
+  const voices = useSpeechVoices();
+
+  const start = useCallback(() => setIsSpeaking(isSpeechSupported), []);
+  const stop = useCallback(() => setIsSpeaking(false), []);
+  const toggle = useCallback(() => setIsSpeaking((speaking) => isSpeechSupported && !speaking), []);
+
+  // Read through refs so chunks streaming in don't restart the utterance
+  const navigationRef = useRef({ goToChunk, currentChunk, isLast: false });
+  useEffect(() => {
+    navigationRef.current = { goToChunk, currentChunk, isLast: currentChunk >= chunks.length - 1 };
+  }, [goToChunk, currentChunk, chunks.length]);
+
+  /** Continue reading from a chunk, starting it over if it's the one being read */
+  const speakFrom = useCallback((index: number) => {
+    const { goToChunk, currentChunk } = navigationRef.current;
+    if (index === currentChunk) setRestartCount((count) => count + 1);
+    else goToChunk(index);
+  }, []);
+
+  const chunk = chunks[currentChunk];
+  const chunkId = chunk?.id;
+  const text = chunk?.text;
+  const voice = voices.find((item) => item.voiceURI === voiceURI);
+
+  useEffect(() => {
+    if (!isSpeaking || chunkId === undefined || text === undefined) return;
+    const synth = window.speechSynthesis;
+    let cancelled = false;
+
+    const advance = () => {
+      if (cancelled) return;
+      const { goToChunk, isLast } = navigationRef.current;
+      if (isLast) setIsSpeaking(false);
+      else goToChunk(chunkId + 1);
+    };
+
+    // Nothing to say for images without a caption
+    if (!text.trim()) {
+      const timer = window.setTimeout(advance, 0);
+      return () => {
+        cancelled = true;
+        window.clearTimeout(timer);
+      };
+    }
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    if (voice) {
+      utterance.voice = voice;
+      utterance.lang = voice.lang;
+    }
+    utterance.rate = rate;
+    utterance.pitch = pitch;
+    utterance.onboundary = (event) => {
+      if (cancelled || event.name !== 'word') return;
+      const end = event.charLength ? event.charIndex + event.charLength : findWordEnd(text, event.charIndex);
+      setSpokenWord({ chunkId, start: event.charIndex, end });
+    };
+    utterance.onend = advance;
+    utterance.onerror = (event) => {
+      if (cancelled || event.error === 'interrupted' || event.error === 'canceled') return;
+      console.warn('Speech synthesis failed:', event.error);
+      setIsSpeaking(false);
+    };
+
+    synth.cancel();
+    synth.speak(utterance);
+    return () => {
+      cancelled = true;
+      synth.cancel();
+    };
+  }, [isSpeaking, chunkId, text, voice, rate, pitch, restartCount]);
+
+  // Only the word in the chunk being read counts
+  const currentWord = isSpeaking && spokenWord?.chunkId === chunkId ? spokenWord : null;
+
+  return { isSpeaking, spokenWord: currentWord, start, stop, toggle, speakFrom };
+}
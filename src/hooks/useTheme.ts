@@ -0,0 +1,23 @@
+import { useEffect, useMemo } from 'react';
+import type { CustomTheme } from '../types';
+import { createDesignTokens, isDarkTheme, resolveTheme } from '../utils/themes';
+import type { ThemeDefinition } from '../utils/themes';
+
+/**
+ * Put the selected theme's design tokens on the document root, where every
+ * component's styles pick them up
+ */
+export function useTheme(themeId: string, customThemes: CustomTheme[]): ThemeDefinition {
+  const theme = useMemo(() => resolveTheme(themeId, customThemes), [themeId, customThemes]);
+
+  useEffect(() => {
+    const root = document.documentElement;
+    for (const [name, value] of Object.entries(createDesignTokens(theme))) {
+      root.style.setProperty(name, value);
+    }
+    // Native controls and scrollbars follow along
+    root.style.colorScheme = isDarkTheme(theme) ? 'dark' : 'light';
+  }, [theme]);
+
+  return theme;
+}
@@ -0,0 +1,254 @@
+import { useState, useEffect, useLayoutEffect, useCallback, useMemo, useRef } from 'react';
+import type { RefObject } from 'react';
+
+interface UseVirtualListOptions {
+  count: number;
+  /** The scrolling element */
+  containerRef: RefObject<HTMLElement | null>;
+  /** Height guess for items that have not been rendered yet */
+  estimateHeight: (index: number, width: number) => number;
+  /** Measured heights are dropped when this changes (fonts, spacing, chunk size) */
+  layoutKey: string;
+  /** Extra pixels rendered above and below the viewport */
+  overscan?: number;
+}
+
+interface Viewport {
+  top: number;
+  height: number;
+  width: number;
+}
+
+interface ScrollToIndexOptions {
+  block?: ScrollLogicalPosition;
+  behavior?: ScrollBehavior;
+  /** Pixels to scroll further once aligned; pair with an instant behavior */
+  offset?: number;
+}
+
+interface PendingScroll {
+  index: number;
+  block: ScrollLogicalPosition;
+  offset: number;
+}
+
+/**
+ * Index of the item containing the given offset
+ */
+function findIndex(offsets: Float64Array, offset: number): number {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (offsets[mid] <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return Math.max(low, 0);
+}
+
+/**
+ * Windowed rendering for long lists of variable-height items.
+ * Only items near the viewport are mounted; the rest are represented by
+ * padding on the list element, sized from measured heights where known and
+ * estimates otherwise. Items are measured with a ResizeObserver, and the
+ * browser's scroll anchoring keeps the view steady as estimates are replaced.
+ */
+export function useVirtualList({
+  count,
+  containerRef,
+  estimateHeight,
+  layoutKey,
+  overscan = 800,
+}: UseVirtualListOptions) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState<Viewport>({ top: 0, height: window.innerHeight, width: 0 });
+  const [measured, setMeasured] = useState<{ key: string; heights: Map<number, number> }>({
+    key: layoutKey,
+    heights: new Map(),
+  });
+  const elementsRef = useRef(new Map<number, HTMLElement>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const pendingScrollRef = useRef<PendingScroll | null>(null);
+
+  // Measurements taken under another layout no longer apply
+  const heights = measured.key === layoutKey ? measured.heights : null;
+
+  const offsets = useMemo(() => {
+    const result = new Float64Array(count + 1);
+    for (let i = 0; i < count; i++) {
+      result[i + 1] = result[i] + (heights?.get(i) ?? estimateHeight(i, viewport.width));
+    }
+    return result;
+  }, [count, heights, estimateHeight, viewport.width]);
+
+  const totalHeight = offsets[count];
+  const start = count ? findIndex(offsets, viewport.top - overscan) : 0;
+  const end = count ? Math.min(findIndex(offsets, viewport.top + viewport.height + overscan) + 1, count) : 0;
+
+  const offsetsRef = useRef(offsets);
+  useEffect(() => {
+    offsetsRef.current = offsets;
+  }, [offsets]);
+
+  // Track the scroll position and size of the container
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const listTop = listRef.current?.offsetTop ?? 0;
+      setViewport((current) => {
+        const next = {
+          top: container.scrollTop - listTop,
+          height: container.clientHeight,
+          width: listRef.current?.clientWidth ?? container.clientWidth,
+        };
+        // Skip renders for scrolls that don't change which items are mounted
+        const offsets = offsetsRef.current;
+        const sameRange =
+          next.height === current.height &&
+          next.width === current.width &&
+          findIndex(offsets, next.top - overscan) === findIndex(offsets, current.top - overscan) &&
+          findIndex(offsets, next.top + next.height + overscan) ===
+            findIndex(offsets, current.top + current.height + overscan);
+        return sameRange ? current : next;
+      });
+    };
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    update();
+    container.addEventListener('scroll', schedule, { passive: true });
+    const resizeObserver = new ResizeObserver(schedule);
+    resizeObserver.observe(container);
+    return () => {
+      cancelAnimationFrame(frame);
+      container.removeEventListener('scroll', schedule);
+      resizeObserver.disconnect();
+    };
+  }, [containerRef, overscan]);
+
+  // Re-measure rendered items whenever their size changes
+  const layoutKeyRef = useRef(layoutKey);
+  useEffect(() => {
+    layoutKeyRef.current = layoutKey;
+  }, [layoutKey]);
+
+  const getObserver = useCallback(() => {
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver((entries) => {
+        const changes: [number, number][] = [];
+        for (const entry of entries) {
+          const index = Number((entry.target as HTMLElement).dataset.index);
+          const height = entry.borderBoxSize?.[0]?.blockSize ?? entry.target.getBoundingClientRect().height;
+          if (Number.isFinite(index) && height > 0) changes.push([index, height]);
+        }
+        if (!changes.length) return;
+
+        setMeasured((current) => {
+          const key = layoutKeyRef.current;
+          const base = current.key === key ? current.heights : new Map<number, number>();
+          if (changes.every(([index, height]) => Math.abs((base.get(index) ?? -1) - height) < 0.5)) {
+            return current.key === key ? current : { key, heights: base };
+          }
+          const heights = new Map(base);
+          for (const [index, height] of changes) heights.set(index, height);
+          return { key, heights };
+        });
+      });
+    }
+    return observerRef.current;
+  }, []);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  // After a layout change, measure the mounted items again from scratch
+  useEffect(() => {
+    const observer = observerRef.current;
+    if (!observer) return;
+    for (const element of elementsRef.current.values()) {
+      observer.unobserve(element);
+      observer.observe(element);
+    }
+  }, [layoutKey]);
+
+  /** Ref callback for rendered items; they need a data-index attribute */
+  const measureElement = useCallback(
+    (element: HTMLElement | null) => {
+      if (!element) return;
+      const index = Number(element.dataset.index);
+      elementsRef.current.set(index, element);
+      const observer = getObserver();
+      observer.observe(element);
+      return () => {
+        observer.unobserve(element);
+        if (elementsRef.current.get(index) === element) elementsRef.current.delete(index);
+      };
+    },
+    [getObserver]
+  );
+
+  /**
+   * Bring an item into view. Items that aren't mounted are jumped to by
+   * their estimated offset first, then aligned once they have rendered.
+   */
+  const scrollToIndex = useCallback(
+    (index: number, { block = 'center', behavior = 'smooth', offset = 0 }: ScrollToIndexOptions = {}) => {
+      const container = containerRef.current;
+      if (!container) return;
+
+      const element = elementsRef.current.get(index);
+      if (element) {
+        element.scrollIntoView({ block, behavior });
+        if (offset) container.scrollBy({ top: offset, behavior });
+        return;
+      }
+
+      const offsets = offsetsRef.current;
+      if (index < 0 || index >= offsets.length - 1) return;
+      const listTop = listRef.current?.offsetTop ?? 0;
+      const itemHeight = offsets[index + 1] - offsets[index];
+      const top = block === 'center'
+        ? listTop + offsets[index] + itemHeight / 2 - container.clientHeight / 2
+        : listTop + offsets[index];
+      pendingScrollRef.current = { index, block, offset };
+      container.scrollTo({ top: Math.max(top + offset, 0) });
+    },
+    [containerRef]
+  );
+
+  /** How far the view is scrolled past the top of a mounted item, or null */
+  const getScrollOffset = useCallback(
+    (index: number) => {
+      const container = containerRef.current;
+      const element = elementsRef.current.get(index);
+      if (!container || !element) return null;
+      return container.getBoundingClientRect().top - element.getBoundingClientRect().top;
+    },
+    [containerRef]
+  );
+
+  // Finish a jump once the target item has been mounted
+  useLayoutEffect(() => {
+    const pending = pendingScrollRef.current;
+    const element = pending ? elementsRef.current.get(pending.index) : undefined;
+    if (!pending || !element) return;
+    pendingScrollRef.current = null;
+    element.scrollIntoView({ block: pending.block });
+    if (pending.offset) containerRef.current?.scrollBy({ top: pending.offset });
+  });
+
+  return {
+    listRef,
+    start,
+    end,
+    paddingTop: offsets[start],
+    paddingBottom: totalHeight - offsets[end],
+    measureElement,
+    scrollToIndex,
+    getScrollOffset,
+  };
+}
@@ -1,19 +1,334 @@
+export type ChunkSize = 'small' | 'medium' | 'large';
+
+export type AutoScrollMode = 'continuous' | 'step';
+
+export type ReadingMode = 'scroll' | 'rsvp';
+
+export type RunnerStyle = 'subway' | 'neon' | 'forest' | 'desert';
+
+/** Built-in runner game, the user's own videos, or nothing */
+export type BackgroundSource = 'game' | 'videos' | 'none';
+
+/** Crop videos to fill the screen, or fit them whole */
+export type VideoFit = 'cover' | 'contain';
+
+export type BuiltInTheme =
+  | 'dark'
+  | 'light'
+  | 'sepia'
+  | 'high-contrast'
+  | 'blue-overlay'
+  | 'yellow-overlay'
+  | 'peach-overlay';
+
+/** A translucent tint over the whole screen, like a colored reading overlay */
+export interface ThemeOverlay {
+  color: string;
+  /** From 0 to 1 */
+  opacity: number;
+}
+
+/** The colors a theme is made of; the app's design tokens derive from them */
+export interface ThemeColors {
+  /** Page behind the reader and panels */
+  background: string;
+  /** Reader card, panels and dialogs */
+  surface: string;
+  text: string;
+  accent: string;
+  overlay?: ThemeOverlay;
+}
+
+/** A theme made in the theme editor */
+export interface CustomTheme extends ThemeColors {
+  id: string;
+  name: string;
+}
+
+/** What a focus session's goal counts, if it has one */
+export type FocusGoalType = 'none' | 'chunks' | 'pages';
+
 export interface ReaderSettings {
-  backgroundEnabled: boolean;
+  backgroundSource: BackgroundSource;
   backgroundOpacity: number;
+  backgroundStyle: RunnerStyle;
+  backgroundVideoFit: VideoFit;
+  backgroundShuffle: boolean;
   fontSize: number;
   lineHeight: number;
   fontFamily: string;
-  theme: 'light' | 'dark' | 'sepia';
+  /** A BuiltInTheme, or the id of one of customThemes */
+  theme: string;
+  customThemes: CustomTheme[];
+  bionicEnabled: boolean;
+  bionicFixation: number;
+  bionicSaccade: number;
+  chunkSize: ChunkSize;
+  autoScrollWpm: number;
+  autoScrollMode: AutoScrollMode;
+  readingMode: ReadingMode;
+  rsvpWpm: number;
+  rsvpWordsPerFrame: number;
+  /** voiceURI of the read-aloud voice; empty for the browser default */
+  speechVoice: string;
+  speechRate: number;
+  speechPitch: number;
+  focusWorkMinutes: number;
+  focusBreakMinutes: number;
+  focusGoalType: FocusGoalType;
+  focusGoalAmount: number;
+  checkpointsEnabled: boolean;
+  /** Chunks read between comprehension checkpoints */
+  checkpointInterval: number;
 }
 
 export const DEFAULT_SETTINGS: ReaderSettings = {
-  backgroundEnabled: true,
+  backgroundSource: 'game',
   backgroundOpacity: 0.5,
+  backgroundStyle: 'subway',
+  backgroundVideoFit: 'cover',
+  backgroundShuffle: false,
   fontSize: 16,
   lineHeight: 1.7,
   fontFamily: "'Segoe UI', sans-serif",
   theme: 'dark',
+  customThemes: [],
+  bionicEnabled: true,
+  bionicFixation: 0.5,
+  bionicSaccade: 1,
+  chunkSize: 'medium',
+  autoScrollWpm: 250,
+  autoScrollMode: 'step',
+  readingMode: 'scroll',
+  rsvpWpm: 300,
+  rsvpWordsPerFrame: 1,
+  speechVoice: '',
+  speechRate: 1,
+  speechPitch: 1,
+  focusWorkMinutes: 25,
+  focusBreakMinutes: 5,
+  focusGoalType: 'none',
+  focusGoalAmount: 20,
+  checkpointsEnabled: false,
+  checkpointInterval: 20,
 };
 
-export type SupportedFormat = 'pdf' | 'docx' | 'doc' | 'epub' | 'mobi' | 'djvu' | 'azw3' | 'txt';
+export type SupportedFormat =
+  | 'pdf' | 'docx' | 'doc' | 'epub' | 'mobi' | 'djvu' | 'azw3' | 'txt'
+  | 'md' | 'html' | 'rtf' | 'odt' | 'fb2';
+
+/* Document model */
+
+export type InlineMark = 'bold' | 'italic' | 'code' | 'link';
+
+export interface InlineSpan {
+  text: string;
+  marks?: InlineMark[];
+  href?: string;
+}
+
+export type HeadingLevel = 1 | 2 | 3 | 4 | 5 | 6;
+
+interface BlockBase {
+  /** Source id (HTML id attribute, bookmark) used for internal links */
+  anchor?: string;
+}
+
+export interface HeadingBlock extends BlockBase {
+  type: 'heading';
+  level: HeadingLevel;
+  spans: InlineSpan[];
+}
+
+export interface ParagraphBlock extends BlockBase {
+  type: 'paragraph';
+  spans: InlineSpan[];
+}
+
+export interface ListBlock extends BlockBase {
+  type: 'list';
+  ordered: boolean;
+  items: InlineSpan[][];
+}
+
+export interface QuoteBlock extends BlockBase {
+  type: 'quote';
+  spans: InlineSpan[];
+}
+
+export interface CodeBlock extends BlockBase {
+  type: 'code';
+  text: string;
+}
+
+export interface ImageBlock extends BlockBase {
+  type: 'image';
+  src?: string;
+  alt: string;
+}
+
+/** Start of a new page (PDF, DjVu) or section file (EPUB spine item) */
+export interface PageBreakBlock extends BlockBase {
+  type: 'pageBreak';
+  page?: number;
+  section?: string;
+}
+
+export type DocumentBlock =
+  | HeadingBlock
+  | ParagraphBlock
+  | ListBlock
+  | QuoteBlock
+  | CodeBlock
+  | ImageBlock
+  | PageBreakBlock;
+
+/** Table of contents entry pointing at the block where a section starts */
+export interface TocEntry {
+  title: string;
+  /** Nesting depth, starting at 0 */
+  level: number;
+  blockIndex: number;
+}
+
+export interface ParsedDocument {
+  title: string;
+  author?: string;
+  blocks: DocumentBlock[];
+  toc: TocEntry[];
+  /** SHA-256 of the file's bytes, identifying the document across imports */
+  hash?: string;
+}
+
+/** Import progress: pages or chapters done out of the total */
+export interface ParseProgress {
+  done: number;
+  total: number;
+  unit: 'page' | 'chapter';
+}
+
+/** A document saved in the library; its parsed content is stored separately */
+export interface LibraryEntry {
+  id: string;
+  /** Content hash of the parsed file, when it could be computed */
+  hash?: string;
+  title: string;
+  author?: string;
+  format: SupportedFormat;
+  fileName: string;
+  /** Size of the original file in bytes */
+  fileSize: number;
+  /** Approximate size of the stored parsed content in bytes */
+  storedSize: number;
+  addedAt: number;
+  lastOpenedAt: number;
+  /** Reading progress from 0 to 1 */
+  progress: number;
+}
+
+/** A video from the user's background playlist */
+export interface PlaylistVideo {
+  id: string;
+  name: string;
+  /** MIME type of the file */
+  type: string;
+  size: number;
+  addedAt: number;
+  blob: Blob;
+}
+
+/** Settings in effect during a reading session, for comparing them */
+export type ReadingSessionSettings = Pick<
+  ReaderSettings,
+  'readingMode' | 'fontFamily' | 'fontSize' | 'chunkSize' | 'bionicEnabled' | 'backgroundSource' | 'theme'
+>;
+
+/** A stretch of reading one document with the same settings */
+export interface ReadingSession {
+  id: string;
+  documentHash?: string;
+  title: string;
+  startedAt: number;
+  endedAt: number;
+  /** Time with the reader visible and in use, in milliseconds */
+  activeMs: number;
+  words: number;
+  /** Distinct chunks visited in the scrolling reader */
+  chunks: number;
+  settings: ReadingSessionSettings;
+}
+
+/** Outcome of one comprehension checkpoint */
+export interface CheckpointResult {
+  id: string;
+  documentHash?: string;
+  title: string;
+  /** First block of the section the questions covered */
+  blockIndex: number;
+  questions: number;
+  correct: number;
+  /** The section was read again after the check */
+  reread: boolean;
+  answeredAt: number;
+}
+
+/** Where the reader was in a document, saved per content hash */
+export interface ReadingPosition {
+  /** Block of the active chunk; with charOffset, a layout-independent anchor */
+  blockIndex: number;
+  /** Character offset of the active chunk within its block */
+  charOffset: number;
+  /** How far the view was scrolled past the top of the active chunk, in pixels */
+  scrollOffset?: number;
+  /** Reader layout (fonts, spacing, chunk size) the scroll offset was measured in */
+  layoutKey: string;
+  /** Share of the document read, from 0 to 1 */
+  progress: number;
+  updatedAt: number;
+}
+
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink' | 'purple';
+
+/** A position in the document text: a block and a character offset in it */
+export interface TextPoint {
+  blockIndex: number;
+  /** Offset in the block's text, as produced by getBlockText */
+  offset: number;
+}
+
+/** Highlighted text with an optional note, saved per document content hash */
+export interface Highlight {
+  id: string;
+  documentHash: string;
+  start: TextPoint;
+  end: TextPoint;
+  /** The highlighted text, used to re-find the passage if offsets no longer match */
+  text: string;
+  color: HighlightColor;
+  note?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ChunkKind = 'paragraph' | 'heading' | 'listItem' | 'quote' | 'code' | 'image';
+
+export interface TextChunk {
+  id: number;
+  kind: ChunkKind;
+  blockIndex: number;
+  /** Character offset within the block's text; list items count on from earlier items */
+  charOffset: number;
+  text: string;
+  spans: InlineSpan[];
+  wordCount: number;
+  /** Last chunk of its block, followed by a paragraph pause */
+  isParagraphEnd: boolean;
+  /** Page the chunk starts on, for paged formats */
+  page?: number;
+  /** Heading level for heading chunks */
+  level?: HeadingLevel;
+  /** List marker ("•", "3.") for the first chunk of a list item */
+  marker?: string;
+  /** Image source for image chunks */
+  src?: string;
+}
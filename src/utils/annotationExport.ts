@@ -0,0 +1,93 @@
+/**
+ * Highlight export
+ * Markdown for reading and pasting into notes, JSON for other tools. Each
+ * highlight carries its chapter title and the text around it.
+ */
+
+import type { DocumentBlock, Highlight, TocEntry } from '../types';
+import { findTocEntryIndex } from './documentModel';
+import { getHighlightContext } from './highlights';
+
+interface ExportedHighlight {
+  chapter: string | null;
+  color: Highlight['color'];
+  text: string;
+  note: string | null;
+  contextBefore: string;
+  contextAfter: string;
+  start: Highlight['start'];
+  end: Highlight['end'];
+  createdAt: string;
+  updatedAt: string;
+}
+
+function describeHighlights(blocks: DocumentBlock[], toc: TocEntry[], highlights: Highlight[]): ExportedHighlight[] {
+  return highlights.map((highlight) => {
+    const tocIndex = findTocEntryIndex(toc, highlight.start.blockIndex);
+    const context = getHighlightContext(blocks, highlight);
+    return {
+      chapter: tocIndex >= 0 ? toc[tocIndex].title : null,
+      color: highlight.color,
+      text: highlight.text,
+      note: highlight.note ?? null,
+      contextBefore: context.before,
+      contextAfter: context.after,
+      start: highlight.start,
+      end: highlight.end,
+      createdAt: new Date(highlight.createdAt).toISOString(),
+      updatedAt: new Date(highlight.updatedAt).toISOString(),
+    };
+  });
+}
+
+/**
+ * Quote text as a Markdown blockquote, keeping paragraph breaks
+ */
+function blockquote(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => (line.trim() ? `> ${line}` : '>'))
+    .join('\n');
+}
+
+export function exportHighlightsMarkdown(
+  title: string,
+  blocks: DocumentBlock[],
+  toc: TocEntry[],
+  highlights: Highlight[]
+): string {
+  const lines = [`# ${title}`, '', `Highlights exported ${new Date().toLocaleDateString()}`];
+  let chapter: string | null | undefined;
+
+  for (const item of describeHighlights(blocks, toc, highlights)) {
+    if (item.chapter !== chapter) {
+      chapter = item.chapter;
+      lines.push('', `## ${chapter ?? 'Beginning'}`);
+    }
+    lines.push('', blockquote(item.text));
+    if (item.contextBefore || item.contextAfter) {
+      const flat = item.text.replace(/\s+/g, ' ');
+      lines.push('', `*Context:* ${item.contextBefore}**${flat}**${item.contextAfter}`);
+    }
+    if (item.note) lines.push('', `**Note:** ${item.note}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export function exportHighlightsJson(
+  title: string,
+  blocks: DocumentBlock[],
+  toc: TocEntry[],
+  highlights: Highlight[]
+): string {
+  return JSON.stringify(
+    {
+      title,
+      exportedAt: new Date().toISOString(),
+      highlights: describeHighlights(blocks, toc, highlights),
+    },
+    null,
+    2
+  );
+}
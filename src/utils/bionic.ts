@@ -0,0 +1,112 @@
+/**
+ * Bionic reading helpers
+ * Splits text into segments where the first part of each word is bolded,
+ * creating artificial fixation points for the eye
+ */
+
+export interface BionicOptions {
+  /** Share of each word to bold (0-1) */
+  fixation: number;
+  /** Bold every Nth word (1 = every word) */
+  saccade: number;
+}
+
+export interface BionicSegment {
+  text: string;
+  bold: boolean;
+}
+
+export interface BionicResult {
+  segments: BionicSegment[];
+  /** Number of words seen, used to continue saccade counting across calls */
+  wordCount: number;
+}
+
+// Punctuation that may wrap a word: quotes, brackets, trailing marks
+const LEADING_PUNCTUATION = /^[^\p{L}\p{N}]+/u;
+const TRAILING_PUNCTUATION = /[^\p{L}\p{N}]+$/u;
+const COMPOUND_SEPARATOR = /([-‐‑–—/])/;
+const HAS_LETTER = /\p{L}/u;
+const HAS_DIGIT = /\p{N}/u;
+
+/**
+ * Number of leading characters to bold for a word part of the given length
+ */
+function fixationLength(length: number, fixation: number): number {
+  if (length <= 3) return 1;
+  const bold = Math.round(length * fixation);
+  return Math.min(Math.max(bold, 1), length - 1);
+}
+
+/**
+ * Push a segment, merging with the previous one when the weight matches
+ */
+function pushSegment(segments: BionicSegment[], text: string, bold: boolean) {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.bold === bold) {
+    last.text += text;
+  } else {
+    segments.push({ text, bold });
+  }
+}
+
+/**
+ * Split one word (no surrounding punctuation) into bold/regular segments.
+ * Hyphenated and slash-joined compounds get a fixation point per part.
+ */
+function splitWordCore(core: string, fixation: number, segments: BionicSegment[]) {
+  for (const part of core.split(COMPOUND_SEPARATOR)) {
+    if (!part) continue;
+    if (COMPOUND_SEPARATOR.test(part) || !HAS_LETTER.test(part)) {
+      pushSegment(segments, part, false);
+      continue;
+    }
+    const chars = Array.from(part);
+    const boldLength = fixationLength(chars.length, fixation);
+    pushSegment(segments, chars.slice(0, boldLength).join(''), true);
+    pushSegment(segments, chars.slice(boldLength).join(''), false);
+  }
+}
+
+/**
+ * Convert a run of text into bionic segments.
+ * Whitespace is preserved exactly; numbers and words containing digits
+ * are left regular since partial bolding makes them harder to read.
+ */
+export function toBionicSegments(
+  text: string,
+  options: BionicOptions,
+  startWordIndex = 0
+): BionicResult {
+  const segments: BionicSegment[] = [];
+  const saccade = Math.max(1, Math.round(options.saccade));
+  let wordIndex = startWordIndex;
+
+  for (const token of text.split(/(\s+)/)) {
+    if (!token) continue;
+
+    if (/^\s+$/.test(token) || !HAS_LETTER.test(token)) {
+      pushSegment(segments, token, false);
+      continue;
+    }
+
+    const leading = token.match(LEADING_PUNCTUATION)?.[0] ?? '';
+    const rest = token.slice(leading.length);
+    const trailing = rest.match(TRAILING_PUNCTUATION)?.[0] ?? '';
+    const core = rest.slice(0, rest.length - trailing.length);
+
+    const isFixated = wordIndex % saccade === 0;
+    wordIndex++;
+
+    pushSegment(segments, leading, false);
+    if (!isFixated || HAS_DIGIT.test(core)) {
+      pushSegment(segments, core, false);
+    } else {
+      splitWordCore(core, options.fixation, segments);
+    }
+    pushSegment(segments, trailing, false);
+  }
+
+  return { segments, wordCount: wordIndex - startWordIndex };
+}
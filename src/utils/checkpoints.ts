@@ -0,0 +1,24 @@
+/**
+ * Comprehension checkpoint results
+ * Kept in IndexedDB next to the reading sessions, for the statistics view.
+ */
+
+import type { CheckpointResult } from '../types';
+import { openDatabase, promisifyRequest, STORES, transactionDone } from './database';
+
+/**
+ * All results, oldest first
+ */
+export async function listCheckpointResults(): Promise<CheckpointResult[]> {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.checkpoints).objectStore(STORES.checkpoints);
+  const results = await promisifyRequest(store.getAll() as IDBRequest<CheckpointResult[]>);
+  return results.sort((a, b) => a.answeredAt - b.answeredAt);
+}
+
+export async function saveCheckpointResult(result: CheckpointResult): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.checkpoints, 'readwrite');
+  transaction.objectStore(STORES.checkpoints).put(result);
+  await transactionDone(transaction);
+}
@@ -0,0 +1,327 @@
+import type { ChunkKind, ChunkSize, DocumentBlock, InlineSpan, TextChunk } from '../types';
+import { sliceSpans, spansToText } from './documentModel';
+
+/**
+ * Abbreviations that end with a period but do not end a sentence.
+ * Stored lowercase without the trailing period.
+ */
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'mx', 'dr', 'prof', 'sr', 'jr', 'st', 'mt', 'ft',
+  'rev', 'gen', 'col', 'lt', 'sgt', 'capt', 'gov', 'sen', 'rep', 'hon',
+  'vs', 'cf', 'approx', 'dept', 'e.g', 'i.e', 'ph.d', 'viz',
+]);
+
+/**
+ * Abbreviations that are also words, or that end sentences as often as
+ * not. They only count as abbreviations before a number or a lowercase
+ * word ("No. 5", "p. 12", "Acme Inc. said"), so "I said no. She left."
+ * still splits.
+ */
+const AMBIGUOUS_ABBREVIATIONS = new Set([
+  'v', 'al', 'est', 'fig', 'figs', 'eq', 'no', 'nos', 'vol', 'vols', 'ch', 'sec', 'pp', 'p', 'ed', 'eds',
+  'inc', 'ltd', 'co', 'corp', 'bros', 'ave', 'blvd', 'rd',
+  'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+  'u.s', 'u.k', 'a.m', 'p.m', 'ca', 'c',
+]);
+
+/**
+ * Capitalized words that start sentences far more often than names do,
+ * so a capital letter before one of them ("Plan B. Then") isn't taken
+ * for an initial
+ */
+const SENTENCE_OPENERS = new Set([
+  'a', 'an', 'the', 'i', 'it', 'he', 'she', 'we', 'they', 'you', 'this', 'that', 'these', 'those',
+  'there', 'then', 'but', 'and', 'or', 'so', 'if', 'when', 'while', 'in', 'on', 'at', 'as', 'after',
+  'before', 'now', 'yet', 'my', 'his', 'her', 'our', 'their', 'its', 'what', 'why', 'how', 'who',
+  'yes', 'no', 'not', 'all', 'some',
+]);
+
+interface ChunkLimits {
+  minSentences: number;
+  maxSentences: number;
+  maxWords: number;
+}
+
+const CHUNK_LIMITS: Record<ChunkSize, ChunkLimits> = {
+  small: { minSentences: 1, maxSentences: 1, maxWords: Infinity },
+  medium: { minSentences: 2, maxSentences: 3, maxWords: 60 },
+  large: { minSentences: 4, maxSentences: 6, maxWords: 150 },
+};
+
+const CLOSING_MARKS = /["'”’)\]»]/;
+const SENTENCE_START = /["'“‘([«¿¡\p{Lu}\p{N}]/u;
+
+/**
+ * Count words in a string
+ */
+export function countWords(text: string): number {
+  const matches = text.match(/\S+/g);
+  return matches ? matches.length : 0;
+}
+
+/**
+ * Whether the period at `index` belongs to an abbreviation, initial or
+ * decimal rather than ending the sentence
+ */
+function isNonTerminalPeriod(text: string, index: number): boolean {
+  // Decimal numbers and things like "v2.0"
+  if (/\d/.test(text[index + 1] ?? '')) return true;
+
+  // Word immediately before the period, including inner periods ("e.g")
+  const before = text.slice(0, index).match(/([\p{L}.]+)$/u)?.[1] ?? '';
+  if (!before) return false;
+
+  const word = before.toLowerCase().replace(/^\.+/, '');
+  if (ABBREVIATIONS.has(word)) return true;
+
+  const after = text.slice(index + 1).match(/^\s*(\S+)/)?.[1] ?? '';
+  if (AMBIGUOUS_ABBREVIATIONS.has(word)) return /^[\p{Ll}\p{N}]/u.test(after);
+
+  // Single-letter initials, followed by another initial ("J. R. R. Tolkien")
+  // or by a name ("J. Smith")
+  if (/^\p{Lu}$/u.test(before)) {
+    if (/^\p{Lu}\./u.test(after)) return true;
+    const name = after.match(/^\p{Lu}\p{Ll}*/u)?.[0];
+    return !!name && !SENTENCE_OPENERS.has(name.toLowerCase());
+  }
+
+  return false;
+}
+
+export interface SentenceRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Find sentence boundaries in a paragraph as [start, end) character ranges.
+ * Handles abbreviations ("Dr.", "e.g."), decimals, closing quotes and
+ * ellipses, which only end a sentence when followed by a capitalized word.
+ */
+export function splitSentenceRanges(text: string): SentenceRange[] {
+  const ranges: SentenceRange[] = [];
+  let start = text.search(/\S/);
+  if (start === -1) return ranges;
+  let i = start;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char !== '.' && char !== '!' && char !== '?' && char !== '…') {
+      i++;
+      continue;
+    }
+
+    // Consume runs of terminal punctuation ("?!", "...")
+    let end = i + 1;
+    while (end < text.length && /[.!?…]/.test(text[end])) end++;
+    const isEllipsis = /\.\.|…/.test(text.slice(i, end));
+
+    if (char === '.' && end - i === 1 && isNonTerminalPeriod(text, i)) {
+      i = end;
+      continue;
+    }
+
+    // Closing quotes and brackets stay with the sentence they close
+    while (end < text.length && CLOSING_MARKS.test(text[end])) end++;
+
+    // A boundary needs whitespace and then something that starts a sentence
+    let next = end;
+    while (next < text.length && /\s/.test(text[next])) next++;
+    const hasSpace = next > end;
+    const startsSentence = next < text.length && SENTENCE_START.test(text[next]);
+
+    const isBoundary =
+      next >= text.length ||
+      (hasSpace && startsSentence && (!isEllipsis || /\p{Lu}/u.test(text[next])));
+
+    if (isBoundary) {
+      ranges.push({ start, end });
+      start = next;
+    }
+
+    i = end;
+  }
+
+  const end = text.trimEnd().length;
+  if (end > start) ranges.push({ start, end });
+
+  return ranges;
+}
+
+/**
+ * Split a paragraph into sentences
+ */
+export function splitSentences(paragraph: string): string[] {
+  return splitSentenceRanges(paragraph).map(({ start, end }) => paragraph.slice(start, end).trim());
+}
+
+/**
+ * Group a paragraph's sentences into chunks for the given chunk size
+ */
+function groupSentences(text: string, limits: ChunkLimits): SentenceRange[] {
+  const groups: SentenceRange[] = [];
+  let current: SentenceRange | null = null;
+  let sentences = 0;
+  let words = 0;
+
+  for (const range of splitSentenceRanges(text)) {
+    const sentenceWords = countWords(text.slice(range.start, range.end));
+    const isFull =
+      sentences >= limits.maxSentences ||
+      (sentences >= limits.minSentences && words + sentenceWords > limits.maxWords);
+
+    if (current && isFull) {
+      groups.push(current);
+      current = null;
+    }
+
+    if (!current) {
+      current = { ...range };
+      sentences = 0;
+      words = 0;
+    }
+
+    current.end = range.end;
+    sentences++;
+    words += sentenceWords;
+  }
+
+  if (current) groups.push(current);
+  return groups;
+}
+
+/**
+ * Split document blocks into reading chunks.
+ * Paragraphs, quotes and list items are grouped by sentence; headings, code
+ * and images are single chunks. Chunks never span blocks.
+ */
+export function chunkDocument(blocks: DocumentBlock[], size: ChunkSize): TextChunk[] {
+  const limits = CHUNK_LIMITS[size];
+  const chunks: TextChunk[] = [];
+  let page: number | undefined;
+
+  const pushText = (
+    kind: ChunkKind,
+    blockIndex: number,
+    spans: InlineSpan[],
+    isBlockEnd: boolean,
+    baseOffset: number,
+    marker?: string
+  ) => {
+    const text = spansToText(spans);
+    const groups = groupSentences(text, limits);
+
+    groups.forEach((group, groupIndex) => {
+      const chunkSpans = sliceSpans(spans, group.start, group.end);
+      const chunkText = spansToText(chunkSpans);
+      chunks.push({
+        id: chunks.length,
+        kind,
+        blockIndex,
+        charOffset: baseOffset + group.start,
+        text: chunkText,
+        spans: chunkSpans,
+        wordCount: countWords(chunkText),
+        isParagraphEnd: isBlockEnd && groupIndex === groups.length - 1,
+        ...(page !== undefined ? { page } : {}),
+        ...(marker && groupIndex === 0 ? { marker } : {}),
+      });
+    });
+  };
+
+  blocks.forEach((block, blockIndex) => {
+    switch (block.type) {
+      case 'pageBreak':
+        if (block.page !== undefined) page = block.page;
+        break;
+      case 'paragraph':
+        pushText('paragraph', blockIndex, block.spans, true, 0);
+        break;
+      case 'quote':
+        pushText('quote', blockIndex, block.spans, true, 0);
+        break;
+      case 'list': {
+        let offset = 0;
+        block.items.forEach((item, itemIndex) => {
+          const marker = block.ordered ? `${itemIndex + 1}.` : '•';
+          pushText('listItem', blockIndex, item, itemIndex === block.items.length - 1, offset, marker);
+          offset += spansToText(item).length + 1;
+        });
+        break;
+      }
+      case 'heading': {
+        const text = spansToText(block.spans);
+        chunks.push({
+          id: chunks.length,
+          kind: 'heading',
+          blockIndex,
+          charOffset: 0,
+          text,
+          spans: block.spans,
+          wordCount: countWords(text),
+          isParagraphEnd: true,
+          level: block.level,
+          ...(page !== undefined ? { page } : {}),
+        });
+        break;
+      }
+      case 'code':
+        chunks.push({
+          id: chunks.length,
+          kind: 'code',
+          blockIndex,
+          charOffset: 0,
+          text: block.text,
+          spans: [{ text: block.text, marks: ['code'] }],
+          wordCount: countWords(block.text),
+          isParagraphEnd: true,
+          ...(page !== undefined ? { page } : {}),
+        });
+        break;
+      case 'image':
+        chunks.push({
+          id: chunks.length,
+          kind: 'image',
+          blockIndex,
+          charOffset: 0,
+          text: block.alt,
+          spans: block.alt ? [{ text: block.alt }] : [],
+          wordCount: 0,
+          isParagraphEnd: true,
+          ...(page !== undefined ? { page } : {}),
+          ...(block.src ? { src: block.src } : {}),
+        });
+        break;
+    }
+  });
+
+  return chunks;
+}
+
+/**
+ * Index of the chunk containing a block/character position, for restoring
+ * a reading position after the text has been re-chunked
+ */
+export function findChunkAt(chunks: TextChunk[], blockIndex: number, charOffset: number): number {
+  let low = 0;
+  let high = chunks.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    const chunk = chunks[mid];
+    if (chunk.blockIndex < blockIndex || (chunk.blockIndex === blockIndex && chunk.charOffset <= charOffset)) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Share of a document read with chunk (or frame) `index` current, from 0 at
+ * the first to 1 at the last
+ */
+export function getReadingProgress(index: number, count: number): number {
+  return count > 1 ? Math.min(Math.max(index / (count - 1), 0), 1) : 0;
+}
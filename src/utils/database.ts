@@ -0,0 +1,103 @@
+/**
+ * IndexedDB access shared by everything the app stores locally
+ * Each schema change bumps DB_VERSION and adds a step to `upgrade`.
+ */
+
+const DB_NAME = 'adhd-reader';
+const DB_VERSION = 6;
+
+export const STORES = {
+  /** Library entries (LibraryEntry), keyed by id */
+  documents: 'documents',
+  /** Parsed document content, keyed by the library entry id */
+  contents: 'contents',
+  /** Reading positions (ReadingPosition), keyed by document content hash */
+  positions: 'positions',
+  /** Highlights (Highlight), keyed by id and indexed by document hash */
+  highlights: 'highlights',
+  /** Background playlist videos (PlaylistVideo), keyed by id */
+  videos: 'videos',
+  /** Reading statistics (ReadingSession), keyed by id */
+  sessions: 'sessions',
+  /** Comprehension checkpoint results (CheckpointResult), keyed by id */
+  checkpoints: 'checkpoints',
+} as const;
+
+function upgrade(db: IDBDatabase, oldVersion: number) {
+  if (oldVersion < 1) {
+    db.createObjectStore(STORES.documents, { keyPath: 'id' });
+    db.createObjectStore(STORES.contents, { keyPath: 'id' });
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.positions);
+  }
+  if (oldVersion < 3) {
+    const highlights = db.createObjectStore(STORES.highlights, { keyPath: 'id' });
+    highlights.createIndex('documentHash', 'documentHash');
+  }
+  if (oldVersion < 4) {
+    db.createObjectStore(STORES.videos, { keyPath: 'id' });
+  }
+  if (oldVersion < 5) {
+    db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+  }
+  if (oldVersion < 6) {
+    db.createObjectStore(STORES.checkpoints, { keyPath: 'id' });
+  }
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and upgrade) the database once per session
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('Local storage for documents is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Failed to open the local database'));
+      request.onblocked = () => reject(new Error('The local database is open in another tab with an older version'));
+    });
+    // Let a later call try again after a failure
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Resolve with the result of an IndexedDB request
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Database request failed'));
+  });
+}
+
+/**
+ * Resolve once a transaction has committed
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error('Database transaction failed'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('Database transaction was aborted'));
+  });
+}
+
+/**
+ * Random id for new records
+ */
+export function createId(): string {
+  return typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
@@ -0,0 +1,541 @@
+/**
+ * DjVu hidden-text reader
+ * Walks the IFF chunk tree of single-page and bundled multi-page files and
+ * decodes each page's TXTa/TXTz text layer (BZZ-compressed for TXTz).
+ */
+
+export interface DjvuPageText {
+  /** 1-based page number */
+  page: number;
+  paragraphs: string[];
+}
+
+// Hidden-text zone types
+const ZONE_PARAGRAPH = 4;
+
+// Separators the text layer may use between zones: column (VT), region
+// (GS) and paragraph (US)
+const ZONE_SEPARATORS = new Set([0x0b, 0x1d, 0x1f]);
+
+// ZP-coder probability, threshold and state transition tables (DjVu spec)
+const ZP_P = Uint16Array.of(
+  0x8000, 0x8000, 0x8000, 0x6bbd, 0x6bbd, 0x5d45, 0x5d45, 0x51b9, 0x51b9, 0x4813, 0x4813, 0x3fd5,
+  0x3fd5, 0x38b1, 0x38b1, 0x3275, 0x3275, 0x2cfd, 0x2cfd, 0x2825, 0x2825, 0x23ab, 0x23ab, 0x1f87,
+  0x1f87, 0x1bbb, 0x1bbb, 0x1845, 0x1845, 0x1523, 0x1523, 0x1253, 0x1253, 0x0fcf, 0x0fcf, 0x0d95,
+  0x0d95, 0x0b9d, 0x0b9d, 0x09e3, 0x09e3, 0x0861, 0x0861, 0x0711, 0x0711, 0x05f1, 0x05f1, 0x04f9,
+  0x04f9, 0x0425, 0x0425, 0x0371, 0x0371, 0x02d9, 0x02d9, 0x0259, 0x0259, 0x01ed, 0x01ed, 0x0193,
+  0x0193, 0x0149, 0x0149, 0x010b, 0x010b, 0x00d5, 0x00d5, 0x00a5, 0x00a5, 0x007b, 0x007b, 0x0057,
+  0x0057, 0x003b, 0x003b, 0x0023, 0x0023, 0x0013, 0x0013, 0x0007, 0x0007, 0x0001, 0x0001, 0x5695,
+  0x24ee, 0x8000, 0x0d30, 0x481a, 0x0481, 0x3579, 0x017a, 0x24ef, 0x007b, 0x1978, 0x0028, 0x10ca,
+  0x000d, 0x0b5d, 0x0034, 0x078a, 0x00a0, 0x050f, 0x0117, 0x0358, 0x01ea, 0x0234, 0x0144, 0x0173,
+  0x0234, 0x00f5, 0x0353, 0x00a1, 0x05c5, 0x011a, 0x03cf, 0x01aa, 0x0285, 0x0286, 0x01ab, 0x03d3,
+  0x011a, 0x05c5, 0x00ba, 0x08ad, 0x007a, 0x0ccc, 0x01eb, 0x1302, 0x02e6, 0x1b81, 0x045e, 0x24ef,
+  0x0690, 0x2865, 0x09de, 0x3987, 0x0dc8, 0x2c99, 0x10ca, 0x3b5f, 0x0b5d, 0x5695, 0x078a, 0x8000,
+  0x050f, 0x24ee, 0x0358, 0x0d30, 0x0234, 0x0481, 0x0173, 0x017a, 0x00f5, 0x007b, 0x00a1, 0x0028,
+  0x011a, 0x000d, 0x01aa, 0x0034, 0x0286, 0x00a0, 0x03d3, 0x0117, 0x05c5, 0x01ea, 0x08ad, 0x0144,
+  0x0ccc, 0x0234, 0x1302, 0x0353, 0x1b81, 0x05c5, 0x24ef, 0x03cf, 0x2b74, 0x0285, 0x201d, 0x01ab,
+  0x1715, 0x011a, 0x0fb7, 0x00ba, 0x0a67, 0x01eb, 0x06e7, 0x02e6, 0x0496, 0x045e, 0x030d, 0x0690,
+  0x0206, 0x09de, 0x0155, 0x0dc8, 0x00e1, 0x2b74, 0x0094, 0x201d, 0x0188, 0x1715, 0x0252, 0x0fb7,
+  0x0383, 0x0a67, 0x0547, 0x06e7, 0x07e2, 0x0496, 0x0bc0, 0x030d, 0x1178, 0x0206, 0x19da, 0x0155,
+  0x24ef, 0x00e1, 0x320e, 0x0094, 0x432a, 0x0188, 0x447d, 0x0252, 0x5ece, 0x0383, 0x8000, 0x0547,
+  0x481a, 0x07e2, 0x3579, 0x0bc0, 0x24ef, 0x1178, 0x1978, 0x19da, 0x2865, 0x24ef, 0x3987, 0x320e,
+  0x2c99, 0x432a, 0x3b5f, 0x447d, 0x5695, 0x5ece, 0x8000, 0x8000, 0x5695, 0x481a, 0x481a,
+);
+
+const ZP_M = new Uint16Array(ZP_P.length);
+ZP_M.set([
+  0x0000, 0x0000, 0x0000, 0x10a5, 0x10a5, 0x1f28, 0x1f28, 0x2bd3, 0x2bd3, 0x36e3, 0x36e3, 0x408c,
+  0x408c, 0x48fd, 0x48fd, 0x505d, 0x505d, 0x56d0, 0x56d0, 0x5c71, 0x5c71, 0x615b, 0x615b, 0x65a5,
+  0x65a5, 0x6962, 0x6962, 0x6ca2, 0x6ca2, 0x6f74, 0x6f74, 0x71e6, 0x71e6, 0x7404, 0x7404, 0x75d6,
+  0x75d6, 0x7768, 0x7768, 0x78c2, 0x78c2, 0x79ea, 0x79ea, 0x7ae7, 0x7ae7, 0x7bbe, 0x7bbe, 0x7c75,
+  0x7c75, 0x7d0f, 0x7d0f, 0x7d91, 0x7d91, 0x7dfe, 0x7dfe, 0x7e5a, 0x7e5a, 0x7ea6, 0x7ea6, 0x7ee6,
+  0x7ee6, 0x7f1a, 0x7f1a, 0x7f45, 0x7f45, 0x7f6b, 0x7f6b, 0x7f8d, 0x7f8d, 0x7faa, 0x7faa, 0x7fc3,
+  0x7fc3, 0x7fd7, 0x7fd7, 0x7fe7, 0x7fe7, 0x7ff2, 0x7ff2, 0x7ffa, 0x7ffa, 0x7fff, 0x7fff,
+]);
+
+const ZP_UP = Uint8Array.of(
+  84, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13,
+  14, 15, 16, 17, 18, 19, 20, 21, 22, 23, 24, 25,
+  26, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 37,
+  38, 39, 40, 41, 42, 43, 44, 45, 46, 47, 48, 49,
+  50, 51, 52, 53, 54, 55, 56, 57, 58, 59, 60, 61,
+  62, 63, 64, 65, 66, 67, 68, 69, 70, 71, 72, 73,
+  74, 75, 76, 77, 78, 79, 80, 81, 82, 81, 82, 9,
+  86, 5, 88, 89, 90, 91, 92, 93, 94, 95, 96, 97,
+  82, 99, 76, 101, 70, 103, 66, 105, 106, 107, 66, 109,
+  60, 111, 56, 69, 114, 65, 116, 61, 118, 57, 120, 53,
+  122, 49, 124, 43, 72, 39, 60, 33, 56, 29, 52, 23,
+  48, 23, 42, 137, 38, 21, 140, 15, 142, 9, 144, 141,
+  146, 147, 148, 149, 150, 151, 152, 153, 154, 155, 70, 157,
+  66, 81, 62, 75, 58, 69, 54, 65, 50, 167, 44, 65,
+  40, 59, 34, 55, 30, 175, 24, 177, 178, 179, 180, 181,
+  182, 183, 184, 69, 186, 59, 188, 55, 190, 51, 192, 47,
+  194, 41, 196, 37, 198, 199, 72, 201, 62, 203, 58, 205,
+  54, 207, 50, 209, 46, 211, 40, 213, 36, 215, 30, 217,
+  26, 219, 20, 71, 14, 61, 14, 57, 8, 53, 228, 49,
+  230, 45, 232, 39, 234, 35, 138, 29, 24, 25, 240, 19,
+  22, 13, 16, 13, 10, 7, 244, 249, 10, 89, 230,
+);
+
+const ZP_DN = Uint8Array.of(
+  145, 4, 3, 1, 2, 3, 4, 5, 6, 7, 8, 9,
+  10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20, 21,
+  22, 23, 24, 25, 26, 27, 28, 29, 30, 31, 32, 33,
+  34, 35, 36, 37, 38, 39, 40, 41, 42, 43, 44, 45,
+  46, 47, 48, 49, 50, 51, 52, 53, 54, 55, 56, 57,
+  58, 59, 60, 61, 62, 63, 64, 65, 66, 67, 68, 69,
+  70, 71, 72, 73, 74, 75, 76, 77, 78, 79, 80, 85,
+  226, 6, 176, 143, 138, 141, 112, 135, 104, 133, 100, 129,
+  98, 127, 72, 125, 102, 123, 60, 121, 110, 119, 108, 117,
+  54, 115, 48, 113, 134, 59, 132, 55, 130, 51, 128, 47,
+  126, 41, 62, 37, 66, 31, 54, 25, 50, 131, 46, 17,
+  40, 15, 136, 7, 32, 139, 172, 9, 170, 85, 168, 248,
+  166, 247, 164, 197, 162, 95, 160, 173, 158, 165, 156, 161,
+  60, 159, 56, 71, 52, 163, 48, 59, 42, 171, 38, 169,
+  32, 53, 26, 47, 174, 193, 18, 191, 222, 189, 218, 187,
+  216, 185, 214, 61, 212, 53, 210, 49, 208, 45, 206, 39,
+  204, 195, 202, 31, 200, 243, 64, 239, 56, 237, 52, 235,
+  48, 233, 44, 231, 38, 229, 34, 227, 28, 225, 22, 223,
+  16, 221, 220, 63, 8, 55, 224, 51, 2, 47, 87, 43,
+  246, 37, 244, 33, 238, 27, 236, 21, 16, 15, 8, 241,
+  242, 7, 10, 245, 2, 1, 83, 250, 2, 143, 246,
+);
+
+// Number of leading one bits in each byte value
+const FFZ_TABLE = Uint8Array.from({ length: 256 }, (_, value) => {
+  let count = 0;
+  for (let bits = value; bits & 0x80; bits <<= 1) count++;
+  return count;
+});
+
+/**
+ * ZP adaptive binary arithmetic decoder
+ */
+class ZPDecoder {
+  private a = 0;
+  private c: number;
+  private f: number;
+  private buffer = 0;
+  private scount = 0;
+  private position = 0;
+  private readonly data: Uint8Array;
+
+  constructor(data: Uint8Array) {
+    this.data = data;
+    this.c = (this.nextByte() << 8) | this.nextByte();
+    this.f = Math.min(this.c, 0x7fff);
+    this.preload();
+  }
+
+  // Reading past the end yields 0xff, as the format expects
+  private nextByte(): number {
+    return this.position < this.data.length ? this.data[this.position++] : 0xff;
+  }
+
+  private preload() {
+    while (this.scount <= 24) {
+      this.buffer = (this.buffer << 8) | this.nextByte();
+      this.scount += 8;
+    }
+  }
+
+  private ffz(x: number): number {
+    return x >= 0xff00 ? FFZ_TABLE[x & 0xff] + 8 : FFZ_TABLE[(x >> 8) & 0xff];
+  }
+
+  private renormalize(lps: boolean, z: number) {
+    if (lps) {
+      const shift = this.ffz(this.a);
+      this.scount -= shift;
+      this.a = 0xffff & (this.a << shift);
+      this.c = 0xffff & ((this.c << shift) | ((this.buffer >> this.scount) & ((1 << shift) - 1)));
+    } else {
+      this.scount--;
+      this.a = 0xffff & (z << 1);
+      this.c = 0xffff & ((this.c << 1) | ((this.buffer >> this.scount) & 1));
+    }
+    if (this.scount < 16) this.preload();
+    this.f = Math.min(this.c, 0x7fff);
+  }
+
+  /** Decode a bit with an adaptive context */
+  decode(ctx: Uint8Array, index: number): number {
+    const state = ctx[index];
+    let bit = state & 1;
+    let z = this.a + ZP_P[state];
+    if (z <= this.f) {
+      this.a = z;
+      return bit;
+    }
+
+    const d = 0x6000 + ((this.a + z) >> 2);
+    if (z > d) z = d;
+
+    if (z > this.c) {
+      bit = 1 - bit;
+      z = 0x10000 - z;
+      this.a += z;
+      this.c += z;
+      ctx[index] = ZP_DN[state];
+      this.renormalize(true, z);
+    } else {
+      if (this.a >= ZP_M[state]) ctx[index] = ZP_UP[state];
+      this.renormalize(false, z);
+    }
+    return bit;
+  }
+
+  /** Decode a bit without a context (even odds) */
+  decodeRaw(): number {
+    let z = 0x8000 + (this.a >> 1);
+    if (z > this.c) {
+      z = 0x10000 - z;
+      this.a += z;
+      this.c += z;
+      this.renormalize(true, z);
+      return 1;
+    }
+    this.renormalize(false, z);
+    return 0;
+  }
+}
+
+const BZZ_MAX_BLOCK = 4096 * 1024;
+const BZZ_FREQMAX = 4;
+const BZZ_CTXIDS = 3;
+
+/**
+ * BZZ decompression (ZP-coded Burrows-Wheeler blocks)
+ */
+export function decodeBZZ(input: Uint8Array): Uint8Array {
+  const zp = new ZPDecoder(input);
+  const ctx = new Uint8Array(300);
+  const blocks: Uint8Array[] = [];
+  let total = 0;
+
+  const decodeBits = (bits: number, offset?: number): number => {
+    let n = 1;
+    const limit = 1 << bits;
+    while (n < limit) {
+      const bit = offset === undefined ? zp.decodeRaw() : zp.decode(ctx, offset - 1 + n);
+      n = (n << 1) | bit;
+    }
+    return n - limit;
+  };
+
+  for (;;) {
+    const size = decodeBits(24);
+    if (!size) break;
+    if (size > BZZ_MAX_BLOCK) throw new Error('BZZ block is too large');
+
+    // Estimation speed
+    let fshift = 0;
+    if (zp.decodeRaw()) {
+      fshift++;
+      if (zp.decodeRaw()) fshift++;
+    }
+
+    // Quasi move-to-front decoding
+    const data = new Uint8Array(size);
+    const mtf = Uint8Array.from({ length: 256 }, (_, i) => i);
+    const freq = new Uint32Array(BZZ_FREQMAX);
+    let fadd = 4;
+    let mtfno = 3;
+    let markerPos = -1;
+
+    for (let i = 0; i < size; i++) {
+      const ctxid = Math.min(BZZ_CTXIDS - 1, mtfno);
+
+      if (zp.decode(ctx, ctxid)) {
+        mtfno = 0;
+      } else if (zp.decode(ctx, BZZ_CTXIDS + ctxid)) {
+        mtfno = 1;
+      } else {
+        let offset = BZZ_CTXIDS * 2;
+        mtfno = -1;
+        // Ranks 2-3, 4-7, ... 128-255 each have a flag and a binary tree
+        for (let bits = 1; bits <= 7; bits++) {
+          if (zp.decode(ctx, offset)) {
+            mtfno = (1 << bits) + decodeBits(bits, offset + 1);
+            break;
+          }
+          offset += 1 + (1 << bits) - 1;
+        }
+        if (mtfno < 0) {
+          // End-of-block marker
+          mtfno = 256;
+          data[i] = 0;
+          markerPos = i;
+          continue;
+        }
+      }
+      data[i] = mtf[mtfno];
+
+      // Rotate the MTF list according to empirical frequencies
+      fadd += fadd >> fshift;
+      if (fadd > 0x10000000) {
+        fadd >>= 24;
+        for (let k = 0; k < BZZ_FREQMAX; k++) freq[k] >>= 24;
+      }
+      let fc = fadd;
+      if (mtfno < BZZ_FREQMAX) fc = (fc + freq[mtfno]) >>> 0;
+
+      let k = mtfno;
+      for (; k >= BZZ_FREQMAX; k--) mtf[k] = mtf[k - 1];
+      for (; k > 0 && fc >= freq[k - 1]; k--) {
+        mtf[k] = mtf[k - 1];
+        freq[k] = freq[k - 1];
+      }
+      mtf[k] = data[i];
+      freq[k] = fc;
+    }
+
+    if (markerPos < 1 || markerPos >= size) throw new Error('BZZ data is corrupted');
+
+    // Undo the Burrows-Wheeler transform
+    const positions = new Uint32Array(size);
+    const counts = new Uint32Array(256);
+    for (let i = 0; i < size; i++) {
+      if (i === markerPos) continue;
+      const c = data[i];
+      positions[i] = ((c << 24) | (counts[c] & 0xffffff)) >>> 0;
+      counts[c]++;
+    }
+
+    let last = 1;
+    for (let i = 0; i < 256; i++) {
+      const count = counts[i];
+      counts[i] = last;
+      last += count;
+    }
+
+    let j = 0;
+    for (last = size - 1; last > 0; ) {
+      const c = positions[j] >>> 24;
+      data[--last] = c;
+      j = counts[c] + (positions[j] & 0xffffff);
+    }
+    if (j !== markerPos) throw new Error('BZZ data is corrupted');
+
+    // The last byte of each block is the marker
+    blocks.push(data.subarray(0, size - 1));
+    total += size - 1;
+  }
+
+  const output = new Uint8Array(total);
+  let offset = 0;
+  for (const block of blocks) {
+    output.set(block, offset);
+    offset += block.length;
+  }
+  return output;
+}
+
+interface IffChunk {
+  id: string;
+  /** Offset of the chunk's data (after its 8-byte header) */
+  start: number;
+  size: number;
+}
+
+function readId(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + 4));
+}
+
+/**
+ * List the chunks between two offsets; chunks are padded to even lengths
+ */
+function readChunks(bytes: Uint8Array, start: number, end: number): IffChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: IffChunk[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    const id = readId(bytes, offset);
+    const size = view.getUint32(offset + 4);
+    const dataStart = offset + 8;
+    chunks.push({ id, start: dataStart, size: Math.min(size, end - dataStart) });
+    offset = dataStart + size + (size & 1);
+  }
+
+  return chunks;
+}
+
+/**
+ * Read the FORM chunk at an offset, returning its type and sub-chunks
+ */
+function readForm(bytes: Uint8Array, offset: number): { type: string; chunks: IffChunk[] } {
+  const [form] = readChunks(bytes, offset, Math.min(offset + 8 + 4, bytes.length));
+  if (!form || form.id !== 'FORM') throw new Error('Invalid DjVu component (missing FORM chunk)');
+
+  const size = new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset + 4);
+  const end = Math.min(form.start + size, bytes.length);
+  return { type: readId(bytes, form.start), chunks: readChunks(bytes, form.start + 4, end) };
+}
+
+/**
+ * Page component offsets of a bundled multi-page document, in page order
+ */
+function readDirectory(bytes: Uint8Array, chunk: IffChunk): number[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const flags = bytes[chunk.start];
+  if (!(flags & 0x80)) {
+    throw new Error(
+      'Indirect multi-file DjVu documents are not supported. Please open a bundled DjVu file.'
+    );
+  }
+
+  const count = view.getUint16(chunk.start + 1);
+  const offsets = Array.from({ length: count }, (_, i) => view.getUint32(chunk.start + 3 + i * 4));
+
+  // Component sizes (3 bytes each) are followed by one flag byte per component
+  const info = decodeBZZ(bytes.subarray(chunk.start + 3 + count * 4, chunk.start + chunk.size));
+  return offsets.filter((_, i) => (info[count * 3 + i] & 0x3f) === 1);
+}
+
+interface TextZone {
+  type: number;
+  textStart: number;
+  textLength: number;
+  children: TextZone[];
+}
+
+/**
+ * Parse a decoded text chunk into its UTF-8 text and zone tree
+ */
+function readTextLayer(data: Uint8Array): { text: Uint8Array; zone: TextZone | null } {
+  let position = 0;
+  const u8 = () => data[position++] ?? 0;
+  const u16 = () => (u8() << 8) | u8();
+  const u24 = () => (u8() << 16) | (u8() << 8) | u8();
+
+  const textLength = u24();
+  const text = data.subarray(3, 3 + textLength);
+  position = 3 + textLength;
+  u8(); // version
+
+  // Text offsets are relative to the previous sibling, or to the parent
+  const readZone = (parent: TextZone | null, previous: TextZone | null, depth: number): TextZone => {
+    if (depth > 16) throw new Error('DjVu text zones are too deeply nested');
+    const type = u8();
+    position += 8; // x, y, width, height
+    let textStart = u16() - 0x8000;
+    const length = u24();
+    if (previous) textStart += previous.textStart + previous.textLength;
+    else if (parent) textStart += parent.textStart;
+
+    const zone: TextZone = { type, textStart, textLength: length, children: [] };
+    const childCount = u24();
+    let child: TextZone | null = null;
+    for (let i = 0; i < childCount && position < data.length; i++) {
+      child = readZone(zone, child, depth + 1);
+      zone.children.push(child);
+    }
+    return zone;
+  };
+
+  const zone = position < data.length ? readZone(null, null, 0) : null;
+  return { text, zone };
+}
+
+/**
+ * Clean up a paragraph's raw text: rejoin hyphenated line breaks and
+ * collapse separators and whitespace
+ */
+function normalizeParagraph(text: string): string {
+  return text
+    .replace(/(\p{L})[-\u00ad][ \t]*\p{Cc}+\s*(\p{Ll})/gu, '$1$2')
+    .replace(/[\p{Cc}\s]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Split text without zones at its zone separators
+ */
+function splitAtZoneSeparators(text: string): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (!ZONE_SEPARATORS.has(text.charCodeAt(i))) continue;
+    parts.push(text.slice(start, i));
+    start = i + 1;
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+/**
+ * Split a page's text layer into paragraphs, following the zone hierarchy
+ */
+function extractParagraphs(data: Uint8Array): string[] {
+  const { text, zone } = readTextLayer(data);
+  const decoder = new TextDecoder('utf-8');
+  const raw: string[] = [];
+
+  const collect = (node: TextZone) => {
+    // Paragraphs and anything below them are read as a single paragraph
+    if (node.type >= ZONE_PARAGRAPH || node.children.length === 0) {
+      raw.push(decoder.decode(text.subarray(node.textStart, node.textStart + node.textLength)));
+      return;
+    }
+    for (const child of node.children) collect(child);
+  };
+
+  if (zone) {
+    collect(zone);
+  } else {
+    raw.push(...splitAtZoneSeparators(decoder.decode(text)));
+  }
+
+  return raw.map(normalizeParagraph).filter(Boolean);
+}
+
+/**
+ * Extract the text of a page component, or an empty list when it has none
+ */
+function readPageText(bytes: Uint8Array, chunks: IffChunk[]): string[] {
+  const chunk = chunks.find((c) => c.id === 'TXTz' || c.id === 'TXTa');
+  if (!chunk || chunk.size === 0) return [];
+
+  const data = bytes.subarray(chunk.start, chunk.start + chunk.size);
+  return extractParagraphs(chunk.id === 'TXTz' ? decodeBZZ(data) : data);
+}
+
+/**
+ * Extract the hidden text layer of a DjVu document, page by page
+ */
+export function parseDjvuText(
+  buffer: ArrayBuffer,
+  onPage?: (done: number, total: number) => void
+): DjvuPageText[] {
+  const bytes = new Uint8Array(buffer);
+  if (bytes.length < 16 || readId(bytes, 0) !== 'AT&T') {
+    throw new Error('Invalid DjVu file format');
+  }
+
+  const root = readForm(bytes, 4);
+  const pages: DjvuPageText[] = [];
+
+  if (root.type === 'DJVU') {
+    pages.push({ page: 1, paragraphs: readPageText(bytes, root.chunks) });
+    onPage?.(1, 1);
+  } else if (root.type === 'DJVM') {
+    const dirm = root.chunks.find((c) => c.id === 'DIRM');
+    if (!dirm) throw new Error('Multi-page DjVu file is missing its directory');
+
+    const offsets = readDirectory(bytes, dirm);
+    offsets.forEach((offset, index) => {
+      try {
+        const page = readForm(bytes, offset);
+        pages.push({ page: index + 1, paragraphs: readPageText(bytes, page.chunks) });
+      } catch (e) {
+        console.warn(`Failed to read DjVu page ${index + 1}:`, e);
+      }
+      onPage?.(index + 1, offsets.length);
+    });
+  } else {
+    throw new Error(`Unsupported DjVu document type: ${root.type}`);
+  }
+
+  return pages;
+}
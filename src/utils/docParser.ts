@@ -0,0 +1,304 @@
+/**
+ * Legacy Word (.doc, Word 97-2003) reader
+ * Reads the OLE2 Compound File container, then rebuilds the main document
+ * text from the FIB and piece table.
+ */
+
+const CFB_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+// Special sector numbers
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECTOR = 0xffffffff;
+const NO_STREAM = 0xffffffff;
+
+// Directory entry types
+const ENTRY_STREAM = 2;
+const ENTRY_ROOT = 5;
+
+const WORD_IDENT = 0xa5ec;
+// Word 97 and later (Word 6/95 files use lower values)
+const MIN_WORD97_NFIB = 0x006a;
+
+interface DirectoryEntry {
+  name: string;
+  type: number;
+  left: number;
+  right: number;
+  child: number;
+  start: number;
+  size: number;
+}
+
+/**
+ * OLE2 / Compound File Binary container
+ */
+class CompoundFile {
+  private readonly bytes: Uint8Array;
+  private readonly view: DataView;
+  private readonly sectorSize: number;
+  private readonly miniSectorSize: number;
+  private readonly miniStreamCutoff: number;
+  private readonly fat: number[];
+  private readonly miniFat: number[];
+  private readonly entries: DirectoryEntry[];
+  private miniStream: Uint8Array | null = null;
+
+  constructor(buffer: ArrayBuffer) {
+    this.bytes = new Uint8Array(buffer);
+    this.view = new DataView(buffer);
+
+    if (this.bytes.length < 512 || CFB_SIGNATURE.some((b, i) => this.bytes[i] !== b)) {
+      throw new Error('Not a Word 97-2003 document (missing OLE2 signature)');
+    }
+
+    this.sectorSize = 1 << this.view.getUint16(0x1e, true);
+    this.miniSectorSize = 1 << this.view.getUint16(0x20, true);
+    this.miniStreamCutoff = this.view.getUint32(0x38, true);
+
+    // The DIFAT lists the FAT sectors: 109 in the header, the rest chained
+    const fatSectors: number[] = [];
+    const fatCount = this.view.getUint32(0x2c, true);
+    for (let i = 0; i < 109 && fatSectors.length < fatCount; i++) {
+      fatSectors.push(this.view.getUint32(0x4c + i * 4, true));
+    }
+    const perSector = this.sectorSize / 4;
+    let difat = this.view.getUint32(0x44, true);
+    for (let guard = 0; difat < END_OF_CHAIN && fatSectors.length < fatCount && guard < 1 << 16; guard++) {
+      const offset = this.sectorOffset(difat);
+      for (let i = 0; i < perSector - 1 && fatSectors.length < fatCount; i++) {
+        fatSectors.push(this.view.getUint32(offset + i * 4, true));
+      }
+      difat = this.view.getUint32(offset + (perSector - 1) * 4, true);
+    }
+
+    this.fat = [];
+    for (const sector of fatSectors) {
+      const offset = this.sectorOffset(sector);
+      for (let i = 0; i < perSector; i++) this.fat.push(this.view.getUint32(offset + i * 4, true));
+    }
+
+    const miniFatStart = this.view.getUint32(0x3c, true);
+    const miniFatBytes = miniFatStart < END_OF_CHAIN ? this.readChain(miniFatStart) : new Uint8Array();
+    const miniFatView = new DataView(miniFatBytes.buffer, miniFatBytes.byteOffset, miniFatBytes.byteLength);
+    this.miniFat = Array.from({ length: miniFatBytes.length >> 2 }, (_, i) => miniFatView.getUint32(i * 4, true));
+
+    this.entries = this.readDirectory(this.readChain(this.view.getUint32(0x30, true)));
+  }
+
+  private sectorOffset(sector: number): number {
+    const offset = (sector + 1) * this.sectorSize;
+    if (offset + this.sectorSize > this.bytes.length) throw new Error('Corrupt compound file (sector out of range)');
+    return offset;
+  }
+
+  /** Concatenate a chain of regular sectors */
+  private readChain(start: number, size?: number): Uint8Array {
+    const sectors: number[] = [];
+    for (let sector = start; sector !== END_OF_CHAIN && sector !== FREE_SECTOR; sector = this.fat[sector]) {
+      if (sector >= this.fat.length || sectors.length > this.fat.length) {
+        throw new Error('Corrupt compound file (broken sector chain)');
+      }
+      sectors.push(sector);
+    }
+
+    const output = new Uint8Array(sectors.length * this.sectorSize);
+    sectors.forEach((sector, i) => {
+      const offset = this.sectorOffset(sector);
+      output.set(this.bytes.subarray(offset, offset + this.sectorSize), i * this.sectorSize);
+    });
+    return size === undefined ? output : output.subarray(0, size);
+  }
+
+  /** Concatenate a chain of mini sectors from the root entry's mini stream */
+  private readMiniChain(start: number, size: number): Uint8Array {
+    if (!this.miniStream) {
+      const root = this.entries.find((entry) => entry.type === ENTRY_ROOT);
+      this.miniStream = root ? this.readChain(root.start) : new Uint8Array();
+    }
+
+    const output = new Uint8Array(size);
+    let written = 0;
+    for (let sector = start; sector !== END_OF_CHAIN && written < size; sector = this.miniFat[sector]) {
+      if (sector >= this.miniFat.length) throw new Error('Corrupt compound file (broken mini sector chain)');
+      const offset = sector * this.miniSectorSize;
+      const part = this.miniStream.subarray(offset, offset + Math.min(this.miniSectorSize, size - written));
+      output.set(part, written);
+      written += part.length;
+    }
+    return output;
+  }
+
+  private readDirectory(data: Uint8Array): DirectoryEntry[] {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const entries: DirectoryEntry[] = [];
+
+    for (let offset = 0; offset + 128 <= data.length; offset += 128) {
+      const nameLength = Math.min(view.getUint16(offset + 0x40, true), 64);
+      let name = '';
+      for (let i = 0; i + 2 < nameLength; i += 2) name += String.fromCharCode(view.getUint16(offset + i, true));
+      entries.push({
+        name,
+        type: data[offset + 0x42],
+        left: view.getUint32(offset + 0x44, true),
+        right: view.getUint32(offset + 0x48, true),
+        child: view.getUint32(offset + 0x4c, true),
+        start: view.getUint32(offset + 0x74, true),
+        size: view.getUint32(offset + 0x78, true),
+      });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Read a stream stored directly under the root storage
+   */
+  getStream(name: string): Uint8Array | null {
+    const root = this.entries.find((entry) => entry.type === ENTRY_ROOT);
+    if (!root) return null;
+
+    // Children of a storage form a tree linked by left/right siblings
+    const pending = [root.child];
+    const visited = new Set<number>();
+    while (pending.length) {
+      const index = pending.pop()!;
+      if (index === NO_STREAM || visited.has(index) || !this.entries[index]) continue;
+      visited.add(index);
+
+      const entry = this.entries[index];
+      if (entry.type === ENTRY_STREAM && entry.name.toLowerCase() === name.toLowerCase()) {
+        return entry.size < this.miniStreamCutoff
+          ? this.readMiniChain(entry.start, entry.size)
+          : this.readChain(entry.start, entry.size);
+      }
+      pending.push(entry.left, entry.right);
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Remove field instructions (between the begin and separator marks) and
+ * keep field results; fields can nest
+ */
+function stripFieldCodes(text: string): string {
+  let output = '';
+  // One entry per open field: whether its instruction part is still being read
+  const fields: boolean[] = [];
+
+  for (const char of text) {
+    if (char === '\x13') {
+      fields.push(true);
+    } else if (char === '\x14') {
+      if (fields.length) fields[fields.length - 1] = false;
+    } else if (char === '\x15') {
+      fields.pop();
+    } else if (!fields.includes(true)) {
+      output += char;
+    }
+  }
+
+  return output;
+}
+
+// Replacements for Word's control characters; other controls are object
+// anchors (pictures, footnote and annotation references) and are dropped
+const CONTROL_CHARACTERS: Record<string, string> = {
+  '\t': ' ',
+  '\x07': ' · ', // table cell mark
+  '\x0b': '\n', // line break
+  '\x0c': '\r', // page or section break
+  '\x0d': '\r', // paragraph mark
+  '\x0e': '\r', // column break
+  '\x1e': '-', // non-breaking hyphen
+};
+
+/**
+ * Map Word's control characters to plain text: paragraphs become blank-line
+ * separated and table cells are joined
+ */
+function normalizeWordText(text: string): string {
+  let output = '';
+  // Table rows end with a cell mark followed by a row mark
+  for (const char of stripFieldCodes(text).split('\x07\x07').join('\r')) {
+    output += char < ' ' ? CONTROL_CHARACTERS[char] ?? '' : char;
+  }
+
+  return output
+    .split('\r')
+    .map((paragraph) => paragraph.replace(/ · $/, '').trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Extract the main document text of a Word 97-2003 file
+ */
+export function extractDocText(buffer: ArrayBuffer): string {
+  const cfb = new CompoundFile(buffer);
+  const word = cfb.getStream('WordDocument');
+  if (!word || word.length < 0x20) throw new Error('Not a Word document (missing WordDocument stream)');
+
+  const fib = new DataView(word.buffer, word.byteOffset, word.byteLength);
+  if (fib.getUint16(0, true) !== WORD_IDENT) throw new Error('Not a Word document (invalid FIB)');
+  if (fib.getUint16(2, true) < MIN_WORD97_NFIB) {
+    throw new Error('Word 6/95 documents are not supported. Please resave the file as .docx.');
+  }
+
+  const flags = fib.getUint16(0x0a, true);
+  if (flags & 0x0100) {
+    throw new Error('This document is password-protected and cannot be opened.');
+  }
+
+  // FIB: fixed base, then variable-length FibRgW, FibRgLw and FibRgFcLcb arrays
+  const rgWCount = fib.getUint16(0x20, true);
+  const rgLwOffset = 0x22 + rgWCount * 2 + 2;
+  const rgLwCount = fib.getUint16(0x22 + rgWCount * 2, true);
+  const ccpText = fib.getUint32(rgLwOffset + 3 * 4, true);
+  const fcLcbOffset = rgLwOffset + rgLwCount * 4 + 2;
+  const fcClx = fib.getUint32(fcLcbOffset + 33 * 8, true);
+  const lcbClx = fib.getUint32(fcLcbOffset + 33 * 8 + 4, true);
+
+  const table = cfb.getStream(flags & 0x0200 ? '1Table' : '0Table');
+  if (!table || lcbClx === 0 || fcClx + lcbClx > table.length) {
+    throw new Error('Word document is missing its piece table');
+  }
+
+  // CLX: formatting runs (0x01) followed by the piece table (0x02)
+  const clx = new DataView(table.buffer, table.byteOffset + fcClx, lcbClx);
+  let position = 0;
+  while (position < lcbClx && clx.getUint8(position) === 0x01) {
+    position += 3 + clx.getInt16(position + 1, true);
+  }
+  if (position >= lcbClx || clx.getUint8(position) !== 0x02) {
+    throw new Error('Word document has an invalid piece table');
+  }
+  const plcLength = clx.getUint32(position + 1, true);
+  const plc = position + 5;
+  const pieceCount = Math.floor((plcLength - 4) / 12);
+
+  // Each piece maps a range of character positions to 8-bit or UTF-16 text
+  const cp1252 = new TextDecoder('windows-1252');
+  const utf16 = new TextDecoder('utf-16le');
+  let text = '';
+  for (let i = 0; i < pieceCount; i++) {
+    const cpStart = clx.getUint32(plc + i * 4, true);
+    const cpEnd = Math.min(clx.getUint32(plc + (i + 1) * 4, true), ccpText);
+    if (cpStart >= ccpText) break;
+    if (cpEnd <= cpStart) continue;
+
+    const descriptor = plc + (pieceCount + 1) * 4 + i * 8;
+    const fc = clx.getUint32(descriptor + 2, true);
+    const length = cpEnd - cpStart;
+
+    if (fc & 0x40000000) {
+      const start = (fc & ~0x40000000) / 2;
+      text += cp1252.decode(word.subarray(start, start + length));
+    } else {
+      text += utf16.decode(word.subarray(fc, fc + length * 2));
+    }
+  }
+
+  return normalizeWordText(text);
+}
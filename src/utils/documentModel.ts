@@ -0,0 +1,203 @@
+import type { DocumentBlock, InlineMark, InlineSpan, TocEntry } from '../types';
+
+/**
+ * Join inline spans into plain text
+ */
+export function spansToText(spans: InlineSpan[]): string {
+  return spans.map((span) => span.text).join('');
+}
+
+function sameMarks(a: InlineSpan, b: InlineSpan): boolean {
+  const marksA = a.marks ?? [];
+  const marksB = b.marks ?? [];
+  return (
+    a.href === b.href &&
+    marksA.length === marksB.length &&
+    marksA.every((mark) => marksB.includes(mark))
+  );
+}
+
+/**
+ * Merge neighbouring spans with identical marks and drop empty ones
+ */
+export function mergeSpans(spans: InlineSpan[]): InlineSpan[] {
+  const merged: InlineSpan[] = [];
+  for (const span of spans) {
+    if (!span.text) continue;
+    const last = merged[merged.length - 1];
+    if (last && sameMarks(last, span)) {
+      last.text += span.text;
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Collapse runs of whitespace (keeping explicit line breaks) and trim the
+ * start and end of a span list
+ */
+export function normalizeSpans(spans: InlineSpan[]): InlineSpan[] {
+  const collapsed = mergeSpans(
+    spans.map((span) => ({ ...span, text: span.text.replace(/[ \t\r\f\v\u00a0]+/g, ' ') }))
+  );
+
+  // Collapse spaces across span boundaries and around line breaks
+  let previousEndsWithSpace = true;
+  for (const span of collapsed) {
+    let text = span.text.replace(/ *\n */g, '\n');
+    if (previousEndsWithSpace) text = text.replace(/^[ \n]+/, '');
+    span.text = text;
+    if (text) previousEndsWithSpace = /[ \n]$/.test(text);
+  }
+
+  for (let i = collapsed.length - 1; i >= 0; i--) {
+    collapsed[i].text = collapsed[i].text.replace(/[ \n]+$/, '');
+    if (collapsed[i].text) break;
+  }
+
+  return collapsed.filter((span) => span.text);
+}
+
+/**
+ * Extract the spans covering character range [start, end) of the joined text
+ */
+export function sliceSpans(spans: InlineSpan[], start: number, end: number): InlineSpan[] {
+  const sliced: InlineSpan[] = [];
+  let offset = 0;
+  for (const span of spans) {
+    const spanStart = offset;
+    const spanEnd = offset + span.text.length;
+    offset = spanEnd;
+    if (spanEnd <= start || spanStart >= end) continue;
+    const text = span.text.slice(Math.max(start - spanStart, 0), Math.min(end, spanEnd) - spanStart);
+    if (text) sliced.push({ ...span, text });
+  }
+  return sliced;
+}
+
+/**
+ * Build a single unmarked span list from a string
+ */
+export function textSpans(text: string, marks?: InlineMark[]): InlineSpan[] {
+  return text ? [marks?.length ? { text, marks } : { text }] : [];
+}
+
+const BULLET_LINE = /^\s*(?:[-*•▪◦‣–]|\d{1,3}[.)])\s+/;
+const ORDERED_LINE = /^\s*\d{1,3}[.)]\s+/;
+
+/**
+ * Convert cleaned plain text into blocks.
+ * Blank lines separate paragraphs; paragraphs whose lines all start with a
+ * bullet or number become lists.
+ */
+export function textToBlocks(text: string): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+
+  for (const paragraph of text.split(/\n{2,}/)) {
+    const trimmed = paragraph.trim();
+    if (!trimmed) continue;
+
+    const lines = trimmed.split('\n');
+    if (lines.length > 1 && lines.every((line) => BULLET_LINE.test(line))) {
+      blocks.push({
+        type: 'list',
+        ordered: lines.every((line) => ORDERED_LINE.test(line)),
+        items: lines.map((line) => textSpans(line.replace(BULLET_LINE, '').trim())),
+      });
+      continue;
+    }
+
+    blocks.push({ type: 'paragraph', spans: textSpans(trimmed) });
+  }
+
+  return blocks;
+}
+
+/**
+ * Flatten blocks back into plain text for code that still wants a string.
+ * Blocks are separated by blank lines, list items by single newlines.
+ */
+export function toPlainText(blocks: DocumentBlock[]): string {
+  const parts: string[] = [];
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'heading':
+      case 'paragraph':
+      case 'quote':
+        parts.push(spansToText(block.spans));
+        break;
+      case 'list':
+        parts.push(
+          block.items
+            .map((item, index) => `${block.ordered ? `${index + 1}.` : '•'} ${spansToText(item)}`)
+            .join('\n')
+        );
+        break;
+      case 'code':
+        parts.push(block.text);
+        break;
+      case 'image':
+        if (block.alt) parts.push(block.alt);
+        break;
+      case 'pageBreak':
+        break;
+    }
+  }
+
+  return parts.filter((part) => part.trim()).join('\n\n');
+}
+
+/**
+ * Build a table of contents from heading blocks, for formats without
+ * their own navigation data
+ */
+export function buildHeadingToc(blocks: DocumentBlock[]): TocEntry[] {
+  const entries: TocEntry[] = [];
+  blocks.forEach((block, blockIndex) => {
+    if (block.type === 'heading') {
+      entries.push({ title: spansToText(block.spans), level: block.level, blockIndex });
+    }
+  });
+  if (entries.length === 0) return entries;
+
+  const topLevel = Math.min(...entries.map((entry) => entry.level));
+  return entries.map((entry) => ({ ...entry, level: entry.level - topLevel }));
+}
+
+/**
+ * Index of the TOC entry whose section contains the given block,
+ * or -1 when the block comes before every entry
+ */
+export function findTocEntryIndex(toc: TocEntry[], blockIndex: number): number {
+  let found = -1;
+  toc.forEach((entry, index) => {
+    if (entry.blockIndex <= blockIndex && (found === -1 || entry.blockIndex >= toc[found].blockIndex)) {
+      found = index;
+    }
+  });
+  return found;
+}
+
+/**
+ * Text of a single block, the coordinate space for reading positions and
+ * highlights. List items are joined by newlines.
+ */
+export function getBlockText(block: DocumentBlock): string {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+    case 'quote':
+      return spansToText(block.spans);
+    case 'list':
+      return block.items.map(spansToText).join('\n');
+    case 'code':
+      return block.text;
+    case 'image':
+      return block.alt;
+    case 'pageBreak':
+      return '';
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * EPUB package reader
+ * Reads the container, package document (OPF) and navigation (EPUB 3 nav or
+ * EPUB 2 NCX) straight from the zip, without a DOM, so it runs in workers.
+ */
+
+import JSZip from 'jszip';
+import { findElement, findElements, localName, parseMarkup, textContent } from './markup';
+import type { MarkupElement } from './markup';
+
+export interface EpubNavPoint {
+  label: string;
+  /** Target path inside the package, with any #fragment */
+  href: string;
+  children: EpubNavPoint[];
+}
+
+export interface EpubBook {
+  title?: string;
+  author?: string;
+  /** Content document paths in reading order */
+  spine: string[];
+  toc: EpubNavPoint[];
+  loadChapter(path: string): Promise<string>;
+}
+
+/**
+ * Resolve an href against the directory of the file that contains it
+ * ("OEBPS/Text/ch1.xhtml" + "../Images/a.png" → "OEBPS/Images/a.png")
+ */
+function resolveEpubPath(base: string, href: string): string {
+  const hashIndex = href.indexOf('#');
+  const fragment = hashIndex === -1 ? '' : href.slice(hashIndex);
+  let path = hashIndex === -1 ? href : href.slice(0, hashIndex);
+  try {
+    path = decodeURIComponent(path);
+  } catch {
+    // Keep the raw path if it is not valid URI encoding
+  }
+  if (!path) return base + fragment;
+
+  const parts = path.startsWith('/') ? [] : base.split('/').slice(0, -1);
+  for (const segment of path.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment && segment !== '.') parts.push(segment);
+  }
+  return parts.join('/') + fragment;
+}
+
+function byLocalName(name: string) {
+  return (el: MarkupElement) => localName(el.tag) === name;
+}
+
+function childElements(node: MarkupElement, name: string): MarkupElement[] {
+  return node.children.filter(
+    (child): child is MarkupElement => typeof child !== 'string' && localName(child.tag) === name
+  );
+}
+
+/**
+ * EPUB 3 navigation document: the nav element with epub:type="toc"
+ */
+function readNavDocument(tree: MarkupElement, path: string): EpubNavPoint[] {
+  const navs = findElements(tree, (el) => el.tag === 'nav');
+  const nav = navs.find((el) => /\btoc\b/.test(el.attrs['epub:type'] ?? '')) ?? navs[0];
+  const list = nav ? findElement(nav, (el) => el.tag === 'ol' || el.tag === 'ul') : null;
+
+  const visit = (listElement: MarkupElement): EpubNavPoint[] =>
+    childElements(listElement, 'li').map((item) => {
+      const link = findElement(item, (el) => el.tag === 'a' || el.tag === 'span');
+      const sublist = item.children.find(
+        (child): child is MarkupElement => typeof child !== 'string' && (child.tag === 'ol' || child.tag === 'ul')
+      );
+      return {
+        label: link ? textContent(link).replace(/\s+/g, ' ').trim() : '',
+        href: link?.attrs.href ? resolveEpubPath(path, link.attrs.href) : '',
+        children: sublist ? visit(sublist) : [],
+      };
+    });
+
+  return list ? visit(list) : [];
+}
+
+/**
+ * EPUB 2 NCX: nested navPoint elements
+ */
+function readNcx(tree: MarkupElement, path: string): EpubNavPoint[] {
+  const map = findElement(tree, byLocalName('navmap'));
+
+  const visit = (parent: MarkupElement): EpubNavPoint[] =>
+    childElements(parent, 'navpoint').map((point) => {
+      const label = findElement(point, byLocalName('text'));
+      const content = findElement(point, byLocalName('content'));
+      return {
+        label: label ? textContent(label).replace(/\s+/g, ' ').trim() : '',
+        href: content?.attrs.src ? resolveEpubPath(path, content.attrs.src) : '',
+        children: visit(point),
+      };
+    });
+
+  return map ? visit(map) : [];
+}
+
+/**
+ * Open an EPUB and read its metadata, spine and table of contents.
+ * Chapters are loaded on demand.
+ */
+export async function openEpub(buffer: ArrayBuffer): Promise<EpubBook> {
+  const zip = await JSZip.loadAsync(buffer);
+  const readText = async (path: string) => {
+    const entry = zip.file(path);
+    if (!entry) throw new Error(`Missing file in EPUB: ${path}`);
+    return entry.async('string');
+  };
+
+  const container = parseMarkup(await readText('META-INF/container.xml'));
+  const opfPath = findElement(container, byLocalName('rootfile'))?.attrs['full-path'];
+  if (!opfPath) throw new Error('EPUB container does not name a package document');
+  const opf = parseMarkup(await readText(opfPath));
+
+  const manifest = new Map<string, { path: string; type: string; properties: string }>();
+  for (const item of findElements(opf, byLocalName('item'))) {
+    if (!item.attrs.id || !item.attrs.href) continue;
+    manifest.set(item.attrs.id, {
+      path: resolveEpubPath(opfPath, item.attrs.href),
+      type: item.attrs['media-type'] ?? '',
+      properties: item.attrs.properties ?? '',
+    });
+  }
+
+  const spineElement = findElement(opf, byLocalName('spine'));
+  const spine = spineElement
+    ? childElements(spineElement, 'itemref')
+        .map((ref) => manifest.get(ref.attrs.idref ?? '')?.path)
+        .filter((path): path is string => !!path)
+    : [];
+  if (!spine.length) throw new Error('EPUB has no readable chapters in its spine');
+
+  // Prefer the EPUB 3 nav document, fall back to the NCX
+  let toc: EpubNavPoint[] = [];
+  const navItem = [...manifest.values()].find((item) => /\bnav\b/.test(item.properties));
+  const ncxItem = manifest.get(spineElement?.attrs.toc ?? '') ??
+    [...manifest.values()].find((item) => item.type === 'application/x-dtbncx+xml');
+  try {
+    if (navItem) toc = readNavDocument(parseMarkup(await readText(navItem.path)), navItem.path);
+    if (!toc.length && ncxItem) toc = readNcx(parseMarkup(await readText(ncxItem.path)), ncxItem.path);
+  } catch (e) {
+    console.warn('Failed to read EPUB navigation:', e);
+  }
+
+  const metadata = findElement(opf, byLocalName('metadata'));
+  const titleElement = metadata ? findElement(metadata, (el) => el.tag === 'dc:title') : null;
+  const authorElement = metadata ? findElement(metadata, (el) => el.tag === 'dc:creator') : null;
+  const title = titleElement ? textContent(titleElement).replace(/\s+/g, ' ').trim() : '';
+  const author = authorElement ? textContent(authorElement).replace(/\s+/g, ' ').trim() : '';
+
+  return {
+    spine,
+    toc,
+    ...(title ? { title } : {}),
+    ...(author ? { author } : {}),
+    loadChapter: readText,
+  };
+}
+
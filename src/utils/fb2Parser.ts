@@ -0,0 +1,141 @@
+/**
+ * FictionBook 2 (.fb2) reader
+ * Maps FB2 sections, titles, poems and epigraphs onto HTML-like elements for
+ * the shared HTML converter, with embedded images as data URLs.
+ */
+
+import type { DocumentBlock } from '../types';
+import { findElement, findElements, htmlToBlocks, parseMarkup, textContent } from './markup';
+import type { MarkupElement, MarkupNode } from './markup';
+
+export interface Fb2Document {
+  title?: string;
+  author?: string;
+  blocks: DocumentBlock[];
+}
+
+function element(tag: string, children: MarkupNode[], attrs: Record<string, string> = {}): MarkupElement {
+  return { tag, attrs, children };
+}
+
+/** Link target, whatever namespace prefix the file uses for xlink */
+function hrefOf(node: MarkupElement): string | undefined {
+  const key = Object.keys(node.attrs).find((name) => name === 'href' || name.endsWith(':href'));
+  return key ? node.attrs[key] : undefined;
+}
+
+/**
+ * Decode the file using the encoding from its XML declaration
+ * (many FB2 books are windows-1251)
+ */
+function decodeFb2(buffer: ArrayBuffer): string {
+  const head = new TextDecoder('latin1').decode(new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 200)));
+  const encoding = /encoding\s*=\s*["']([\w-]+)["']/i.exec(head)?.[1] ?? 'utf-8';
+  try {
+    return new TextDecoder(encoding).decode(buffer);
+  } catch {
+    return new TextDecoder('utf-8').decode(buffer);
+  }
+}
+
+/**
+ * Parse an FB2 book into document blocks
+ */
+export function parseFb2(buffer: ArrayBuffer): Fb2Document {
+  const tree = parseMarkup(decodeFb2(buffer));
+  const book = findElement(tree, (el) => el.tag === 'fictionbook');
+  if (!book) throw new Error('Not a FictionBook file (missing FictionBook element)');
+
+  // Embedded images, referenced as "#id"
+  const binaries = new Map<string, string>();
+  for (const binary of findElements(book, (el) => el.tag === 'binary')) {
+    const id = binary.attrs.id;
+    const type = binary.attrs['content-type'] ?? 'image/jpeg';
+    if (id) binaries.set(id, `data:${type};base64,${textContent(binary).replace(/\s+/g, '')}`);
+  }
+
+  // Headings: the body title is level 1, each nested section one deeper
+  const heading = (node: MarkupElement, depth: number): MarkupElement => {
+    const lines = node.children
+      .filter((child): child is MarkupElement => typeof child !== 'string' && child.tag === 'p')
+      .map((line) => line.children.flatMap((child) => convert(child, depth)));
+    const children = lines.length
+      ? lines.flatMap((line, index) => (index > 0 ? [' ', ...line] : line))
+      : node.children.flatMap((child) => convert(child, depth));
+    return element(`h${Math.min(depth + 1, 6)}`, children);
+  };
+
+  const convert = (node: MarkupNode, depth: number): MarkupNode[] => {
+    if (typeof node === 'string') return [node];
+    const children = (nextDepth = depth) => node.children.flatMap((child) => convert(child, nextDepth));
+
+    switch (node.tag) {
+      case 'section':
+        return [element('div', children(depth + 1), node.attrs.id ? { id: node.attrs.id } : {})];
+      case 'title':
+        return [heading(node, depth)];
+      case 'subtitle':
+        return [element(`h${Math.min(depth + 2, 6)}`, children())];
+      case 'p':
+      case 'v':
+        return [element('p', children(), node.attrs.id ? { id: node.attrs.id } : {})];
+      case 'text-author':
+        return [element('p', [element('em', children())])];
+      case 'epigraph':
+      case 'cite':
+        return [element('blockquote', children())];
+      case 'poem':
+      case 'stanza':
+        return [element('div', children())];
+      case 'emphasis':
+        return [element('em', children())];
+      case 'strong':
+        return [element('strong', children())];
+      case 'code':
+        return [element('code', children())];
+      case 'a': {
+        const href = hrefOf(node);
+        return [element('a', children(), href ? { href } : {})];
+      }
+      case 'image': {
+        const id = hrefOf(node)?.replace(/^#/, '');
+        const src = id ? binaries.get(id) : undefined;
+        return [element('img', [], { ...(src ? { src } : {}), alt: node.attrs.alt ?? node.attrs.title ?? '' })];
+      }
+      case 'table':
+      case 'tr':
+      case 'td':
+      case 'th':
+        return [element(node.tag, children())];
+      case 'empty-line':
+      case 'annotation':
+        return [];
+      default:
+        return [element('span', children())];
+    }
+  };
+
+  // Note bodies (footnotes) are skipped; the main text is in the other bodies
+  const bodies = book.children.filter(
+    (child): child is MarkupElement => typeof child !== 'string' && child.tag === 'body' && child.attrs.name !== 'notes'
+  );
+  const root = element('#root', bodies.flatMap((body) => body.children.flatMap((child) => convert(child, 0))));
+  const blocks = htmlToBlocks(root);
+
+  const info = findElement(book, (el) => el.tag === 'title-info');
+  const titleElement = info ? findElement(info, (el) => el.tag === 'book-title') : null;
+  const authorElement = info ? findElement(info, (el) => el.tag === 'author') : null;
+  const author = authorElement
+    ? ['first-name', 'middle-name', 'last-name']
+        .map((part) => findElement(authorElement, (el) => el.tag === part))
+        .map((part) => (part ? textContent(part).trim() : ''))
+        .filter(Boolean)
+        .join(' ') || textContent(authorElement).trim()
+    : '';
+
+  return {
+    blocks,
+    ...(titleElement && textContent(titleElement).trim() ? { title: textContent(titleElement).trim() } : {}),
+    ...(author ? { author } : {}),
+  };
+}
@@ -1,7 +1,21 @@
 import * as pdfjsLib from 'pdfjs-dist';
 import mammoth from 'mammoth';
-import ePub from 'epubjs';
-import type { SupportedFormat } from '../types';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { RefProxy, TextItem } from 'pdfjs-dist/types/src/display/api';
+import type { DocumentBlock, ParsedDocument, ParseProgress, SupportedFormat, TocEntry } from '../types';
+import { buildHeadingToc, textSpans, textToBlocks, toPlainText } from './documentModel';
+import { findElement, htmlToBlocks, parseMarkup, textContent } from './markup';
+import { parseDjvuText } from './djvuParser';
+import { extractDocText } from './docParser';
+import { openEpub } from './epubParser';
+import type { EpubNavPoint } from './epubParser';
+import { parseFb2 } from './fb2Parser';
+import { markdownToBlocks } from './markdownParser';
+import { parseMobiBook } from './mobiParser';
+import { parseOdt } from './odtParser';
+import { analyzePdfLayout, layoutPdfPage } from './pdfLayout';
+import type { PdfPageContent } from './pdfLayout';
+import { parseRtf } from './rtfParser';
 
 // Set up PDF.js worker using the bundled worker from pdfjs-dist
 import PdfWorker from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
@@ -25,6 +39,14 @@ export function detectFormat(file: File): SupportedFormat | null {
     'azw': 'azw3',
     'txt': 'txt',
     'text': 'txt',
+    'md': 'md',
+    'markdown': 'md',
+    'html': 'html',
+    'htm': 'html',
+    'xhtml': 'html',
+    'rtf': 'rtf',
+    'odt': 'odt',
+    'fb2': 'fb2',
   };
 
   if (extension && formatMap[extension]) {
@@ -33,199 +55,343 @@ export function detectFormat(file: File): SupportedFormat | null {
 
   // Check MIME types
   if (mimeType.includes('pdf')) return 'pdf';
-  if (mimeType.includes('word') || mimeType.includes('msword')) return 'docx';
+  if (mimeType.includes('msword')) return 'doc';
+  if (mimeType.includes('word')) return 'docx';
   if (mimeType.includes('epub')) return 'epub';
+  if (mimeType.includes('markdown')) return 'md';
+  if (mimeType.includes('html')) return 'html';
+  if (mimeType.includes('rtf')) return 'rtf';
+  if (mimeType.includes('opendocument.text')) return 'odt';
+  if (mimeType.includes('fictionbook')) return 'fb2';
   if (mimeType.includes('text/plain')) return 'txt';
 
   return null;
 }
 
+interface ParseResult {
+  blocks: DocumentBlock[];
+  toc?: TocEntry[];
+  /** Title and author from the file's own metadata */
+  title?: string;
+  author?: string;
+}
+
+export interface ParseCallbacks {
+  onProgress?: (progress: ParseProgress) => void;
+  /**
+   * Blocks appended as pages or chapters are read, before parsing finishes.
+   * Together they add up to the final document's blocks.
+   */
+  onBlocks?: (blocks: DocumentBlock[]) => void;
+}
+
+// Pages sampled to find running headers and the body text size
+const PDF_LAYOUT_SAMPLE_PAGES = 16;
+
+interface PdfOutlineItem {
+  title: string;
+  dest: string | unknown[] | null;
+  items: PdfOutlineItem[];
+}
+
+/**
+ * Resolve a PDF outline destination to a 1-based page number
+ */
+async function resolvePdfDestinationPage(
+  pdf: PDFDocumentProxy,
+  dest: PdfOutlineItem['dest']
+): Promise<number | null> {
+  const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+  if (!Array.isArray(explicit) || explicit.length === 0) return null;
+
+  const target = explicit[0];
+  if (typeof target === 'number') return target + 1;
+  if (target && typeof target === 'object' && 'num' in target) {
+    return (await pdf.getPageIndex(target as RefProxy)) + 1;
+  }
+  return null;
+}
+
+/**
+ * Build a table of contents from the PDF outline (bookmarks)
+ */
+async function extractPdfToc(
+  pdf: PDFDocumentProxy,
+  pageBlocks: Map<number, number>
+): Promise<TocEntry[]> {
+  const outline = (await pdf.getOutline()) as PdfOutlineItem[] | null;
+  const toc: TocEntry[] = [];
+
+  const visit = async (items: PdfOutlineItem[], level: number) => {
+    for (const item of items) {
+      try {
+        const page = await resolvePdfDestinationPage(pdf, item.dest);
+        const blockIndex = page !== null ? pageBlocks.get(page) : undefined;
+        if (blockIndex !== undefined && item.title.trim()) {
+          toc.push({ title: item.title.trim(), level, blockIndex });
+        }
+      } catch (e) {
+        console.warn('Failed to resolve outline entry:', item.title, e);
+      }
+      if (item.items?.length) await visit(item.items, level + 1);
+    }
+  };
+
+  await visit(outline ?? [], 0);
+  return toc;
+}
+
 /**
- * Parse PDF files using PDF.js
+ * Parse PDF files using PDF.js, rebuilding lines, columns and paragraphs
+ * from the positioned text
  */
-async function parsePDF(file: File): Promise<string> {
+async function parsePDF(file: File, callbacks: ParseCallbacks): Promise<ParseResult> {
   const arrayBuffer = await file.arrayBuffer();
   const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
 
-  const textParts: string[] = [];
+  const readPage = async (pageNumber: number): Promise<PdfPageContent> => {
+    const page = await pdf.getPage(pageNumber);
+    const textContent = await page.getTextContent();
+    page.cleanup();
+    return {
+      items: textContent.items.filter((item): item is TextItem => 'str' in item),
+      view: page.view,
+    };
+  };
+
+  // Headers, footers and body size come from pages spread over the whole
+  // document, so each page can then be laid out (and shown) as soon as it is read
+  const sampleSize = Math.min(pdf.numPages, PDF_LAYOUT_SAMPLE_PAGES);
+  const sample = new Map<number, PdfPageContent>();
+  for (let k = 0; k < sampleSize; k++) {
+    const pageNumber = Math.floor(((k + 0.5) * pdf.numPages) / sampleSize) + 1;
+    if (!sample.has(pageNumber)) sample.set(pageNumber, await readPage(pageNumber));
+  }
+  const profile = analyzePdfLayout([...sample.values()]);
 
+  const blocks: DocumentBlock[] = [];
+  const pageBlocks = new Map<number, number>();
   for (let i = 1; i <= pdf.numPages; i++) {
-    const page = await pdf.getPage(i);
-    const textContent = await page.getTextContent();
-    const pageText = textContent.items
-      .map((item: any) => item.str)
-      .join(' ');
-    textParts.push(pageText);
+    const content = sample.get(i) ?? (await readPage(i));
+    sample.delete(i);
+
+    const pageContent: DocumentBlock[] = [{ type: 'pageBreak', page: i }, ...layoutPdfPage(content, profile)];
+    pageBlocks.set(i, blocks.length);
+    blocks.push(...pageContent);
+    callbacks.onBlocks?.(pageContent);
+    callbacks.onProgress?.({ done: i, total: pdf.numPages, unit: 'page' });
+  }
+
+  let toc: TocEntry[] = [];
+  try {
+    toc = await extractPdfToc(pdf, pageBlocks);
+  } catch (e) {
+    console.warn('Failed to read PDF outline:', e);
   }
 
-  return textParts.join('\n\n');
+  return { blocks, toc };
 }
 
 /**
- * Parse DOCX files using Mammoth
+ * Parse DOCX files using Mammoth, keeping headings, lists and emphasis
  */
-async function parseDOCX(file: File): Promise<string> {
+async function parseDOCX(file: File): Promise<DocumentBlock[]> {
   const arrayBuffer = await file.arrayBuffer();
-  const result = await mammoth.extractRawText({ arrayBuffer });
-  return result.value;
+  const result = await mammoth.convertToHtml({ arrayBuffer });
+  return htmlToBlocks(result.value);
 }
 
 /**
- * Parse EPUB files using epub.js
+ * Parse legacy Word 97-2003 (.doc) files
  */
-async function parseEPUB(file: File): Promise<string> {
+async function parseDOC(file: File): Promise<DocumentBlock[]> {
   const arrayBuffer = await file.arrayBuffer();
-  const book = ePub(arrayBuffer);
 
-  await book.ready;
+  // Some .doc files are really OOXML packages with the wrong extension
+  const signature = new Uint8Array(arrayBuffer, 0, Math.min(2, arrayBuffer.byteLength));
+  if (signature[0] === 0x50 && signature[1] === 0x4b) return parseDOCX(file);
+
+  return textToBlocks(cleanText(extractDocText(arrayBuffer)));
+}
+
+/**
+ * Normalize an EPUB resource path for comparison ("../Text/ch1.xhtml" → "text/ch1.xhtml")
+ */
+function normalizeEpubPath(href: string): string {
+  let path = href.split('#')[0];
+  try {
+    path = decodeURIComponent(path);
+  } catch {
+    // Keep the raw path if it is not valid URI encoding
+  }
+  return path.replace(/^(\.\.?\/)+/, '').replace(/^\//, '').toLowerCase();
+}
+
+/**
+ * Find the block an EPUB navigation href points at
+ */
+function findEpubTarget(
+  href: string,
+  sections: { path: string; blockIndex: number }[],
+  blocks: DocumentBlock[]
+): number | null {
+  const path = normalizeEpubPath(href);
+  const fragment = href.includes('#') ? href.slice(href.indexOf('#') + 1) : '';
+
+  const sectionIndex = sections.findIndex(
+    (section) => section.path === path || section.path.endsWith(`/${path}`) || path.endsWith(`/${section.path}`)
+  );
+  if (sectionIndex === -1) return null;
+
+  const start = sections[sectionIndex].blockIndex;
+  if (fragment) {
+    const end = sections[sectionIndex + 1]?.blockIndex ?? blocks.length;
+    for (let i = start; i < end; i++) {
+      if (blocks[i].anchor === fragment) return i;
+    }
+  }
+  return start;
+}
 
-  const spine = book.spine as any;
-  const textParts: string[] = [];
+/**
+ * Parse EPUB files
+ * Each spine item (chapter file) starts with a section break
+ */
+async function parseEPUB(file: File, callbacks: ParseCallbacks): Promise<ParseResult> {
+  const book = await openEpub(await file.arrayBuffer());
 
-  // Get all spine items (chapters)
-  const spineItems = spine.items || spine.spineItems || [];
+  const blocks: DocumentBlock[] = [];
+  const sections: { path: string; blockIndex: number }[] = [];
 
-  for (const item of spineItems) {
+  for (const [index, path] of book.spine.entries()) {
     try {
-      const doc = await book.load(item.href);
-      if (doc) {
-        // Extract text from the HTML document
-        const tempDiv = document.createElement('div');
-        if (typeof doc === 'string') {
-          tempDiv.innerHTML = doc;
-        } else if (doc instanceof Document) {
-          tempDiv.innerHTML = doc.body?.innerHTML || '';
-        }
-        const text = tempDiv.textContent || tempDiv.innerText || '';
-        if (text.trim()) {
-          textParts.push(text.trim());
-        }
+      const chapterBlocks = htmlToBlocks(await book.loadChapter(path));
+      if (chapterBlocks.length > 0) {
+        const chapter: DocumentBlock[] = [{ type: 'pageBreak', section: path }, ...chapterBlocks];
+        sections.push({ path: normalizeEpubPath(path), blockIndex: blocks.length });
+        blocks.push(...chapter);
+        callbacks.onBlocks?.(chapter);
       }
     } catch (e) {
-      console.warn('Failed to load spine item:', item.href, e);
+      console.warn('Failed to load spine item:', path, e);
     }
+    callbacks.onProgress?.({ done: index + 1, total: book.spine.length, unit: 'chapter' });
   }
 
-  book.destroy();
-  return textParts.join('\n\n');
+  // Table of contents from the navigation document (nav.xhtml or toc.ncx)
+  const toc: TocEntry[] = [];
+  const visit = (items: EpubNavPoint[], level: number) => {
+    for (const item of items) {
+      const blockIndex = item.href ? findEpubTarget(item.href, sections, blocks) : null;
+      if (blockIndex !== null && item.label) {
+        toc.push({ title: item.label, level, blockIndex });
+      }
+      if (item.children.length) visit(item.children, level + 1);
+    }
+  };
+  visit(book.toc, 0);
+
+  return { blocks, toc, title: book.title, author: book.author };
 }
 
 /**
  * Parse plain text files
  */
-async function parseTXT(file: File): Promise<string> {
-  return await file.text();
+async function parseTXT(file: File): Promise<DocumentBlock[]> {
+  return textToBlocks(cleanText(await file.text()));
 }
 
 /**
- * Parse MOBI files
- * MOBI is a proprietary format. We'll attempt basic extraction.
+ * Parse Markdown files
  */
-async function parseMOBI(file: File): Promise<string> {
+async function parseMarkdown(file: File): Promise<DocumentBlock[]> {
+  return markdownToBlocks(await file.text());
+}
+
+/**
+ * Parse saved web pages
+ * Reads the main article when the page marks one, otherwise the whole body
+ */
+async function parseHTML(file: File): Promise<ParseResult> {
   const arrayBuffer = await file.arrayBuffer();
-  const dataView = new DataView(arrayBuffer);
-
-  // Check for MOBI magic number
-  const magic = String.fromCharCode(
-    dataView.getUint8(60),
-    dataView.getUint8(61),
-    dataView.getUint8(62),
-    dataView.getUint8(63)
-  );
 
-  if (magic !== 'MOBI' && magic !== 'BOOK') {
-    // Try to extract text content anyway
-    const text = await extractTextFromBinary(arrayBuffer);
-    if (text.length > 100) {
-      return text;
-    }
-    throw new Error('Invalid MOBI file format. Please try converting to EPUB or TXT.');
+  // Honor a declared charset; saved pages are not always UTF-8
+  const head = new TextDecoder('latin1').decode(arrayBuffer.slice(0, 2048));
+  const charset = /<meta[^>]+charset\s*=\s*["']?([\w-]+)/i.exec(head)?.[1] ?? 'utf-8';
+  let html: string;
+  try {
+    html = new TextDecoder(charset).decode(arrayBuffer);
+  } catch {
+    html = new TextDecoder('utf-8').decode(arrayBuffer);
   }
 
-  // Basic MOBI parsing - extract readable text
-  const text = await extractTextFromBinary(arrayBuffer);
-  return text;
+  const tree = parseMarkup(html);
+  const main =
+    findElement(tree, (el) => el.tag === 'article') ??
+    findElement(tree, (el) => el.tag === 'main') ??
+    tree;
+  const titleElement = findElement(tree, (el) => el.tag === 'title');
+
+  return {
+    blocks: htmlToBlocks(main),
+    title: titleElement ? textContent(titleElement).replace(/\s+/g, ' ').trim() : undefined,
+  };
 }
 
 /**
- * Parse AZW3 (Kindle Format 8) files
- * AZW3 is similar to MOBI but with additional features
+ * Parse RTF files
  */
-async function parseAZW3(file: File): Promise<string> {
-  // AZW3 and MOBI share similar structure
-  return parseMOBI(file);
+async function parseRTF(file: File): Promise<ParseResult> {
+  // Latin-1 keeps one character per byte; the parser applies the code page
+  const source = new TextDecoder('latin1').decode(await file.arrayBuffer());
+  return parseRtf(source);
 }
 
 /**
- * Parse DJVU files
- * DJVU is a complex format primarily for scanned documents
+ * Parse MOBI, AZW and AZW3 (Kindle Format 8) files
+ * Decompresses the book's HTML and keeps its structure; DRM-protected files are rejected
  */
-async function parseDJVU(file: File): Promise<string> {
-  const arrayBuffer = await file.arrayBuffer();
-
-  // Check for DJVU magic number "AT&TFORM"
-  const header = new Uint8Array(arrayBuffer.slice(0, 8));
-  const magic = String.fromCharCode(...header);
+async function parseMOBI(file: File): Promise<ParseResult> {
+  const book = parseMobiBook(await file.arrayBuffer());
+
+  const blocks = htmlToBlocks(book.html, {
+    resolveImage: (src, attrs) => {
+      // MOBI uses 1-based recindex attributes, KF8 uses base-32 kindle:embed URLs
+      if (attrs.recindex) return book.getImage(parseInt(attrs.recindex, 10) - 1);
+      const embed = src.match(/^kindle:embed:([0-9A-V]+)/i);
+      if (embed) return book.getImage(parseInt(embed[1], 32) - 1);
+      return src.startsWith('data:') ? src : undefined;
+    },
+  });
 
-  if (!magic.startsWith('AT&T')) {
-    throw new Error('Invalid DJVU file format');
-  }
+  return { blocks, title: book.title, author: book.author };
+}
 
-  // DJVU parsing is complex - attempt to extract embedded text layer
-  const text = await extractTextFromBinary(arrayBuffer);
+/**
+ * Parse DJVU files
+ * Reads the hidden text layer of each page; scans without OCR have none
+ */
+async function parseDJVU(file: File, callbacks: ParseCallbacks): Promise<DocumentBlock[]> {
+  const pages = parseDjvuText(await file.arrayBuffer(), (done, total) => {
+    callbacks.onProgress?.({ done, total, unit: 'page' });
+  });
 
-  if (text.length < 50) {
+  if (!pages.some((page) => page.paragraphs.length > 0)) {
     throw new Error(
       'This DJVU file appears to be image-based without a text layer. ' +
       'Please use OCR software to convert it to a text format first.'
     );
   }
 
-  return text;
-}
-
-/**
- * Extract readable text from binary file
- * Used as fallback for proprietary formats
- */
-async function extractTextFromBinary(arrayBuffer: ArrayBuffer): Promise<string> {
-  const bytes = new Uint8Array(arrayBuffer);
-  const chunks: string[] = [];
-  let currentChunk = '';
-
-  for (let i = 0; i < bytes.length; i++) {
-    const byte = bytes[i];
-
-    // Check for readable ASCII characters and common extended chars
-    if (
-      (byte >= 32 && byte <= 126) || // Printable ASCII
-      byte === 9 || // Tab
-      byte === 10 || // Newline
-      byte === 13 // Carriage return
-    ) {
-      currentChunk += String.fromCharCode(byte);
-    } else if (currentChunk.length > 0) {
-      // End of text segment
-      if (currentChunk.trim().length > 20) {
-        // Only keep chunks with substantial text
-        chunks.push(currentChunk.trim());
-      }
-      currentChunk = '';
+  const blocks: DocumentBlock[] = [];
+  for (const { page, paragraphs } of pages) {
+    blocks.push({ type: 'pageBreak', page });
+    for (const text of paragraphs) {
+      blocks.push({ type: 'paragraph', spans: textSpans(text) });
     }
   }
 
-  if (currentChunk.trim().length > 20) {
-    chunks.push(currentChunk.trim());
-  }
-
-  // Filter out non-text chunks (binary data that happens to be printable)
-  const textChunks = chunks.filter(chunk => {
-    // Check if chunk contains mostly letters and spaces (text-like)
-    const letterRatio = (chunk.match(/[a-zA-Z\s]/g) || []).length / chunk.length;
-    return letterRatio > 0.7;
-  });
-
-  return textChunks.join('\n\n');
+  return blocks;
 }
 
 /**
@@ -248,43 +414,70 @@ function cleanText(text: string): string {
     .trim();
 }
 
+/**
+ * SHA-256 of the file as hex, or undefined where Web Crypto is unavailable
+ * (pages served over plain HTTP)
+ */
+async function hashFile(file: File): Promise<string | undefined> {
+  if (!globalThis.crypto?.subtle) return undefined;
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
 /**
  * Main file parser function
+ * Paged formats report progress as pages or chapters are read; PDF and EPUB
+ * also hand over their blocks as they go.
  */
-export async function parseFile(file: File): Promise<{ title: string; content: string }> {
+export async function parseFile(file: File, callbacks: ParseCallbacks = {}): Promise<ParsedDocument> {
   const format = detectFormat(file);
 
   if (!format) {
     throw new Error(
-      `Unsupported file format. Supported formats: PDF, DOCX, EPUB, MOBI, DJVU, AZW3, TXT`
+      `Unsupported file format. Supported formats: ${getSupportedFormatsText()}`
     );
   }
 
-  let content: string;
+  let result: ParseResult;
 
   try {
     switch (format) {
       case 'pdf':
-        content = await parsePDF(file);
+        result = await parsePDF(file, callbacks);
         break;
       case 'docx':
+        result = { blocks: await parseDOCX(file) };
+        break;
       case 'doc':
-        content = await parseDOCX(file);
+        result = { blocks: await parseDOC(file) };
         break;
       case 'epub':
-        content = await parseEPUB(file);
+        result = await parseEPUB(file, callbacks);
         break;
       case 'mobi':
-        content = await parseMOBI(file);
-        break;
       case 'azw3':
-        content = await parseAZW3(file);
+        result = await parseMOBI(file);
         break;
       case 'djvu':
-        content = await parseDJVU(file);
+        result = { blocks: await parseDJVU(file, callbacks) };
         break;
       case 'txt':
-        content = await parseTXT(file);
+        result = { blocks: await parseTXT(file) };
+        break;
+      case 'md':
+        result = { blocks: await parseMarkdown(file) };
+        break;
+      case 'html':
+        result = await parseHTML(file);
+        break;
+      case 'rtf':
+        result = await parseRTF(file);
+        break;
+      case 'odt':
+        result = await parseOdt(await file.arrayBuffer());
+        break;
+      case 'fb2':
+        result = parseFb2(await file.arrayBuffer());
         break;
       default:
         throw new Error(`Parser not implemented for format: ${format}`);
@@ -298,31 +491,36 @@ export async function parseFile(file: File): Promise<{ title: string; content: s
     );
   }
 
-  const cleanedContent = cleanText(content);
+  const { blocks } = result;
 
-  if (cleanedContent.length < 10) {
+  if (toPlainText(blocks).length < 10) {
     throw new Error(
       'Could not extract meaningful text from this file. ' +
       'The file may be image-based, encrypted, or corrupted.'
     );
   }
 
-  // Extract title from filename
-  const title = file.name.replace(/\.[^/.]+$/, '');
+  // Prefer embedded metadata, otherwise use the filename
+  const title = result.title || file.name.replace(/\.[^/.]+$/, '');
+
+  // Fall back to headings when the file has no navigation data
+  const toc = result.toc?.length ? result.toc : buildHeadingToc(blocks);
+
+  const hash = await hashFile(file);
 
-  return { title, content: cleanedContent };
+  return { title, author: result.author, blocks, toc, ...(hash ? { hash } : {}) };
 }
 
 /**
  * Get supported file extensions for file input accept attribute
  */
 export function getSupportedExtensions(): string {
-  return '.pdf,.docx,.doc,.epub,.mobi,.djvu,.azw3,.azw,.txt';
+  return '.pdf,.docx,.doc,.epub,.mobi,.djvu,.azw3,.azw,.txt,.md,.markdown,.html,.htm,.xhtml,.rtf,.odt,.fb2';
 }
 
 /**
  * Get human-readable list of supported formats
  */
 export function getSupportedFormatsText(): string {
-  return 'PDF, DOCX, EPUB, MOBI, DJVU, AZW3, TXT';
+  return 'PDF, DOCX, DOC, EPUB, MOBI, DJVU, AZW3, TXT, Markdown, HTML, RTF, ODT, FB2';
 }
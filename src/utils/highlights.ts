@@ -0,0 +1,146 @@
+/**
+ * Highlights
+ * Stored per document content hash and anchored to block/character offsets,
+ * with the highlighted text kept alongside so a highlight can be found
+ * again if a parser change shifts the offsets.
+ */
+
+import type { DocumentBlock, Highlight, TextChunk, TextPoint } from '../types';
+import { findChunkAt } from './chunking';
+import { openDatabase, promisifyRequest, STORES, transactionDone } from './database';
+import { getBlockText } from './documentModel';
+
+/** The part of a highlight that falls inside one chunk, in chunk text offsets */
+export interface ChunkHighlight {
+  id: string;
+  color: Highlight['color'];
+  start: number;
+  end: number;
+}
+
+export async function listHighlights(documentHash: string): Promise<Highlight[]> {
+  const db = await openDatabase();
+  const index = db.transaction(STORES.highlights).objectStore(STORES.highlights).index('documentHash');
+  return promisifyRequest(index.getAll(documentHash) as IDBRequest<Highlight[]>);
+}
+
+export async function putHighlight(highlight: Highlight): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.highlights, 'readwrite');
+  transaction.objectStore(STORES.highlights).put(highlight);
+  await transactionDone(transaction);
+}
+
+export async function deleteHighlight(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.highlights, 'readwrite');
+  transaction.objectStore(STORES.highlights).delete(id);
+  await transactionDone(transaction);
+}
+
+/**
+ * Order of two text points: negative if `a` comes first
+ */
+export function comparePoints(a: TextPoint, b: TextPoint): number {
+  return a.blockIndex - b.blockIndex || a.offset - b.offset;
+}
+
+/**
+ * Document text between two points; blocks are separated by blank lines
+ */
+export function getRangeText(blocks: DocumentBlock[], start: TextPoint, end: TextPoint): string {
+  const parts: string[] = [];
+  for (let index = start.blockIndex; index <= end.blockIndex && index < blocks.length; index++) {
+    const text = getBlockText(blocks[index]);
+    const from = index === start.blockIndex ? start.offset : 0;
+    const to = index === end.blockIndex ? end.offset : text.length;
+    const part = text.slice(from, to);
+    if (part.trim()) parts.push(part);
+  }
+  return parts.join('\n\n');
+}
+
+/**
+ * Text just before and after a highlight, cut at word boundaries and marked
+ * with an ellipsis where the block goes on
+ */
+export function getHighlightContext(
+  blocks: DocumentBlock[],
+  highlight: Pick<Highlight, 'start' | 'end'>,
+  length = 120
+): { before: string; after: string } {
+  const startText = blocks[highlight.start.blockIndex] ? getBlockText(blocks[highlight.start.blockIndex]) : '';
+  const endText = blocks[highlight.end.blockIndex] ? getBlockText(blocks[highlight.end.blockIndex]) : '';
+  let before = startText.slice(Math.max(highlight.start.offset - length, 0), highlight.start.offset);
+  let after = endText.slice(highlight.end.offset, highlight.end.offset + length);
+  if (highlight.start.offset > length) before = '…' + before.replace(/^\S*\s/, '');
+  if (highlight.end.offset + length < endText.length) after = after.replace(/\s\S*$/, '') + '…';
+  return { before: before.replace(/\s+/g, ' '), after: after.replace(/\s+/g, ' ') };
+}
+
+/**
+ * Check highlights against the document and re-anchor any whose offsets
+ * no longer cover their text. Highlights that can't be found are left out.
+ */
+export function resolveHighlights(blocks: DocumentBlock[], highlights: Highlight[]): Highlight[] {
+  const resolved: Highlight[] = [];
+
+  for (const highlight of highlights) {
+    if (getRangeText(blocks, highlight.start, highlight.end) === highlight.text) {
+      resolved.push(highlight);
+      continue;
+    }
+
+    // Single-block passages can be searched for, nearest the old block first
+    if (highlight.text.includes('\n\n')) continue;
+    const origin = highlight.start.blockIndex;
+    for (let distance = 0; distance < blocks.length; distance++) {
+      const candidates = distance === 0 ? [origin] : [origin - distance, origin + distance];
+      const found = candidates.find(
+        (index) => index >= 0 && index < blocks.length && getBlockText(blocks[index]).includes(highlight.text)
+      );
+      if (found === undefined) {
+        if (origin - distance < 0 && origin + distance >= blocks.length) break;
+        continue;
+      }
+      const offset = getBlockText(blocks[found]).indexOf(highlight.text);
+      resolved.push({
+        ...highlight,
+        start: { blockIndex: found, offset },
+        end: { blockIndex: found, offset: offset + highlight.text.length },
+      });
+      break;
+    }
+  }
+
+  return resolved.sort((a, b) => comparePoints(a.start, b.start));
+}
+
+/**
+ * Split highlights into per-chunk ranges for rendering
+ */
+export function mapHighlightsToChunks(chunks: TextChunk[], highlights: Highlight[]): Map<number, ChunkHighlight[]> {
+  const byChunk = new Map<number, ChunkHighlight[]>();
+  if (!chunks.length) return byChunk;
+
+  for (const highlight of highlights) {
+    const first = findChunkAt(chunks, highlight.start.blockIndex, highlight.start.offset);
+    const last = findChunkAt(chunks, highlight.end.blockIndex, highlight.end.offset);
+    for (let index = first; index <= last; index++) {
+      const chunk = chunks[index];
+      const chunkStart = { blockIndex: chunk.blockIndex, offset: chunk.charOffset };
+      const chunkEnd = { blockIndex: chunk.blockIndex, offset: chunk.charOffset + chunk.text.length };
+      if (comparePoints(highlight.end, chunkStart) <= 0 || comparePoints(highlight.start, chunkEnd) >= 0) {
+        continue;
+      }
+      const start = comparePoints(highlight.start, chunkStart) > 0 ? highlight.start.offset - chunk.charOffset : 0;
+      const end =
+        comparePoints(highlight.end, chunkEnd) < 0 ? highlight.end.offset - chunk.charOffset : chunk.text.length;
+      const ranges = byChunk.get(index) ?? [];
+      ranges.push({ id: highlight.id, color: highlight.color, start, end });
+      byChunk.set(index, ranges);
+    }
+  }
+
+  return byChunk;
+}
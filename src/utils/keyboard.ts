@@ -0,0 +1,9 @@
+/**
+ * Whether a key event comes from a control that should keep the key for
+ * itself: form fields keep every key, buttons only Space and Enter
+ */
+export function isEditableTarget(target: EventTarget | null, key: string): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.tagName === 'BUTTON') return key === ' ' || key === 'Enter';
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
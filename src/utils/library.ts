@@ -0,0 +1,132 @@
+/**
+ * Document library
+ * Keeps parsed documents in IndexedDB so they reopen instantly, without
+ * parsing the file again.
+ */
+
+import type { LibraryEntry, ParsedDocument, SupportedFormat } from '../types';
+import { createId, openDatabase, promisifyRequest, STORES, transactionDone } from './database';
+
+interface StoredContent {
+  id: string;
+  document: ParsedDocument;
+}
+
+export interface StorageUsage {
+  /** Bytes used by this site */
+  usage: number;
+  /** Bytes the browser allows this site to use */
+  quota: number;
+}
+
+/**
+ * All library entries, most recently opened first
+ */
+export async function listLibrary(): Promise<LibraryEntry[]> {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.documents).objectStore(STORES.documents);
+  const entries = await promisifyRequest(store.getAll() as IDBRequest<LibraryEntry[]>);
+  return entries.sort((a, b) => b.lastOpenedAt - a.lastOpenedAt);
+}
+
+/**
+ * Save a freshly parsed document. Importing the same file again (matched by
+ * content hash) replaces its content but keeps the entry, its name and
+ * reading progress.
+ */
+export async function addToLibrary(
+  file: File,
+  format: SupportedFormat,
+  document: ParsedDocument
+): Promise<LibraryEntry> {
+  const entries = await listLibrary();
+  // Same content under any name, else the same file name and size
+  const existing =
+    (document.hash ? entries.find((entry) => entry.hash === document.hash) : undefined) ??
+    entries.find((entry) => entry.fileName === file.name && entry.fileSize === file.size);
+  const now = Date.now();
+  const entry: LibraryEntry = {
+    id: existing?.id ?? createId(),
+    ...(document.hash ? { hash: document.hash } : {}),
+    title: existing?.title ?? document.title,
+    ...(document.author ? { author: document.author } : {}),
+    format,
+    fileName: file.name,
+    fileSize: file.size,
+    storedSize: new Blob([JSON.stringify(document)]).size,
+    addedAt: existing?.addedAt ?? now,
+    lastOpenedAt: now,
+    progress: existing?.progress ?? 0,
+  };
+
+  const db = await openDatabase();
+  const transaction = db.transaction([STORES.documents, STORES.contents], 'readwrite');
+  transaction.objectStore(STORES.documents).put(entry);
+  transaction.objectStore(STORES.contents).put({ id: entry.id, document } satisfies StoredContent);
+  await transactionDone(transaction);
+  return entry;
+}
+
+/**
+ * Load a stored document and mark it as just opened.
+ * Resolves to null if the entry or its content is gone.
+ */
+export async function openFromLibrary(id: string): Promise<{ entry: LibraryEntry; document: ParsedDocument } | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction([STORES.documents, STORES.contents], 'readwrite');
+  const documents = transaction.objectStore(STORES.documents);
+  const entry = await promisifyRequest(documents.get(id) as IDBRequest<LibraryEntry | undefined>);
+  const content = await promisifyRequest(
+    transaction.objectStore(STORES.contents).get(id) as IDBRequest<StoredContent | undefined>
+  );
+  if (!entry || !content) return null;
+
+  const opened = { ...entry, lastOpenedAt: Date.now() };
+  documents.put(opened);
+  await transactionDone(transaction);
+  // The library title wins so renames show in the reader
+  return { entry: opened, document: { ...content.document, title: opened.title } };
+}
+
+/**
+ * Change an entry's title or reading progress
+ */
+export async function updateLibraryEntry(
+  id: string,
+  changes: Partial<Pick<LibraryEntry, 'title' | 'progress'>>
+): Promise<LibraryEntry | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.documents, 'readwrite');
+  const store = transaction.objectStore(STORES.documents);
+  const entry = await promisifyRequest(store.get(id) as IDBRequest<LibraryEntry | undefined>);
+  if (!entry) return null;
+
+  const updated = { ...entry, ...changes };
+  store.put(updated);
+  await transactionDone(transaction);
+  return updated;
+}
+
+/**
+ * Delete an entry, its stored content and its reading position.
+ * Highlights are kept, so they return if the same file is imported again.
+ */
+export async function removeFromLibrary(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([STORES.documents, STORES.contents, STORES.positions], 'readwrite');
+  const documents = transaction.objectStore(STORES.documents);
+  const entry = await promisifyRequest(documents.get(id) as IDBRequest<LibraryEntry | undefined>);
+  if (entry?.hash) transaction.objectStore(STORES.positions).delete(entry.hash);
+  documents.delete(id);
+  transaction.objectStore(STORES.contents).delete(id);
+  await transactionDone(transaction);
+}
+
+/**
+ * Browser storage used and available for this site, where supported
+ */
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota !== undefined ? { usage, quota } : null;
+}
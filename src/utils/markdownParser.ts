@@ -0,0 +1,341 @@
+/**
+ * Markdown → document blocks
+ * Covers the CommonMark/GFM subset notes are usually written in: headings,
+ * lists, quotes, fenced and indented code, images, tables and inline emphasis.
+ */
+
+import type { DocumentBlock, HeadingLevel, InlineMark, InlineSpan } from '../types';
+import { normalizeSpans, spansToText } from './documentModel';
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])(?:[ \t]+(.*))?$/;
+const TABLE_DIVIDER = /^ *\|? *:?-+:? *(\| *:?-+:? *)*\|? *$/;
+const IMAGE_ONLY = /^ *!\[([^\]]*)\]\(<?([^)\s>]*)>?(?: +"[^"]*")?\) *$/;
+
+const INLINE_LINK = /^\[((?:[^[\]\\]|\\.|\[[^\]]*\])*)\]\(<?([^)\s>]*)>?(?: +"[^"]*")?\)/;
+const INLINE_IMAGE = /^!\[([^\]]*)\]\(<?([^)\s>]*)>?(?: +"[^"]*")?\)/;
+const AUTOLINK = /^<((?:https?|mailto):[^>\s]+)>/;
+const ESCAPABLE = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+
+function withMark(marks: InlineMark[], mark: InlineMark): InlineMark[] {
+  return marks.includes(mark) ? marks : [...marks, mark];
+}
+
+/**
+ * Parse inline Markdown into spans
+ */
+export function parseInlineMarkdown(text: string, marks: InlineMark[] = [], href?: string): InlineSpan[] {
+  const spans: InlineSpan[] = [];
+  let buffer = '';
+
+  const flushText = () => {
+    if (!buffer) return;
+    spans.push({ text: buffer, ...(marks.length ? { marks } : {}), ...(href ? { href } : {}) });
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    if (char === '\\' && i + 1 < text.length) {
+      // Backslash before a newline is a hard line break
+      if (text[i + 1] === '\n') buffer += '\n';
+      else if (ESCAPABLE.test(text[i + 1])) buffer += text[i + 1];
+      else buffer += char + text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const run = /^`+/.exec(rest)![0];
+      const close = text.indexOf(run, i + run.length);
+      if (close !== -1) {
+        flushText();
+        const code = text.slice(i + run.length, close).replace(/\n/g, ' ');
+        spans.push({ text: code.trim() ? code.replace(/^ (.*) $/, '$1') : code, marks: withMark(marks, 'code') });
+        i = close + run.length;
+        continue;
+      }
+      buffer += run;
+      i += run.length;
+      continue;
+    }
+
+    if (char === '!' && text[i + 1] === '[') {
+      const image = INLINE_IMAGE.exec(rest);
+      if (image) {
+        // Inline images read as their alt text
+        buffer += image[1];
+        i += image[0].length;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const link = INLINE_LINK.exec(rest);
+      if (link) {
+        flushText();
+        spans.push(...parseInlineMarkdown(link[1], withMark(marks, 'link'), link[2]));
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    if (char === '<') {
+      const autolink = AUTOLINK.exec(rest);
+      if (autolink) {
+        flushText();
+        spans.push({ text: autolink[1].replace(/^mailto:/, ''), marks: withMark(marks, 'link'), href: autolink[1] });
+        i += autolink[0].length;
+        continue;
+      }
+    }
+
+    if (char === '~' && rest.startsWith('~~')) {
+      // Strikethrough has no mark of its own; keep the text
+      const close = text.indexOf('~~', i + 2);
+      if (close !== -1) {
+        flushText();
+        spans.push(...parseInlineMarkdown(text.slice(i + 2, close), marks, href));
+        i = close + 2;
+        continue;
+      }
+    }
+
+    if (char === '*' || char === '_') {
+      const run = (char === '*' ? /^\*+/ : /^_+/).exec(rest)![0];
+      const length = Math.min(run.length, 3);
+      const delimiter = char.repeat(length);
+      const opens = /\S/.test(text[i + run.length] ?? '') &&
+        // Underscores inside words are literal
+        (char === '*' || !/[\p{L}\p{N}]/u.test(text[i - 1] ?? ''));
+
+      if (opens) {
+        let close = text.indexOf(delimiter, i + length);
+        while (close !== -1 && (/\s/.test(text[close - 1]) || text[close + length] === char)) {
+          close = text.indexOf(delimiter, close + 1);
+        }
+        if (close !== -1 && close > i + length) {
+          flushText();
+          let inner = marks;
+          if (length >= 2) inner = withMark(inner, 'bold');
+          if (length !== 2) inner = withMark(inner, 'italic');
+          spans.push(...parseInlineMarkdown(text.slice(i + length, close), inner, href));
+          i = close + length;
+          continue;
+        }
+      }
+      buffer += run;
+      i += run.length;
+      continue;
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flushText();
+  return spans;
+}
+
+/**
+ * Join a paragraph's lines, keeping hard line breaks (two trailing spaces)
+ */
+function joinLines(lines: string[]): string {
+  return lines
+    .map((line, index) => {
+      const trimmed = line.trim();
+      if (index === lines.length - 1) return trimmed;
+      return / {2,}$/.test(line) ? `${trimmed}\n` : `${trimmed} `;
+    })
+    .join('');
+}
+
+function tableRowSpans(line: string): InlineSpan[] {
+  const cells = line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map((cell) => normalizeSpans(parseInlineMarkdown(cell.trim())))
+    .filter((cell) => cell.length);
+
+  const spans: InlineSpan[] = [];
+  cells.forEach((cell, index) => {
+    if (index > 0) spans.push({ text: ' · ' });
+    spans.push(...cell);
+  });
+  return spans;
+}
+
+function isExternalImage(src: string): boolean {
+  return /^(https?:|data:)/i.test(src);
+}
+
+/**
+ * Convert Markdown source into document blocks
+ */
+export function markdownToBlocks(source: string): DocumentBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+  const blocks: DocumentBlock[] = [];
+  let paragraph: string[] = [];
+
+  // YAML front matter
+  let i = 0;
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, index) => index > 0 && /^(---|\.\.\.)\s*$/.test(line));
+    if (end !== -1) i = end + 1;
+  }
+
+  const flushParagraph = () => {
+    if (!paragraph.length) return;
+    const spans = normalizeSpans(parseInlineMarkdown(joinLines(paragraph)));
+    paragraph = [];
+    if (spansToText(spans).trim()) blocks.push({ type: 'paragraph', spans });
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      flushParagraph();
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      flushParagraph();
+      const marker = fence[1];
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trimStart().startsWith(marker)) code.push(lines[i++]);
+      i++;
+      const text = code.join('\n').replace(/\s+$/, '');
+      if (text) blocks.push({ type: 'code', text });
+      continue;
+    }
+
+    const heading = ATX_HEADING.exec(line);
+    if (heading) {
+      flushParagraph();
+      const spans = normalizeSpans(parseInlineMarkdown(heading[2] ?? ''));
+      if (spans.length) blocks.push({ type: 'heading', level: heading[1].length as HeadingLevel, spans });
+      i++;
+      continue;
+    }
+
+    const underline = SETEXT_UNDERLINE.exec(line);
+    if (underline && paragraph.length) {
+      const spans = normalizeSpans(parseInlineMarkdown(joinLines(paragraph)));
+      paragraph = [];
+      if (spans.length) blocks.push({ type: 'heading', level: underline[1][0] === '=' ? 1 : 2, spans });
+      i++;
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(line)) {
+      flushParagraph();
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trim() && (QUOTE.test(lines[i]) || quoted.length)) {
+        quoted.push(lines[i].replace(QUOTE, ''));
+        i++;
+      }
+      // Quoted content is Markdown too; paragraphs inside become quotes
+      for (const block of markdownToBlocks(quoted.join('\n'))) {
+        blocks.push(block.type === 'paragraph' ? { type: 'quote', spans: block.spans } : block);
+      }
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item && (item[3] || !paragraph.length) && !THEMATIC_BREAK.test(line)) {
+      flushParagraph();
+      const ordered = /\d/.test(item[2]);
+      const items: string[][] = [];
+
+      while (i < lines.length) {
+        const current = LIST_ITEM.exec(lines[i]);
+        if (current && /\d/.test(current[2]) === ordered) {
+          // Nested items are flattened into the list
+          items.push([current[3] ?? '']);
+          i++;
+        } else if (current) {
+          break;
+        } else if (lines[i].trim() && !FENCE.test(lines[i]) && !ATX_HEADING.test(lines[i])) {
+          // Indented or lazy continuation of the previous item
+          if (!/^ {2,}/.test(lines[i]) && !lines[i - 1]?.trim()) break;
+          items[items.length - 1].push(lines[i]);
+          i++;
+        } else if (!lines[i].trim()) {
+          // A blank line continues the list only if more of it follows
+          let next = i + 1;
+          while (next < lines.length && !lines[next].trim()) next++;
+          const following = lines[next];
+          const continues = following !== undefined &&
+            ((LIST_ITEM.test(following) && /\d/.test(LIST_ITEM.exec(following)![2]) === ordered) ||
+              /^ {2,}\S/.test(following));
+          if (!continues) break;
+          i = next;
+        } else {
+          break;
+        }
+      }
+
+      const spans = items
+        .map((itemLines) => normalizeSpans(parseInlineMarkdown(joinLines(itemLines))))
+        .filter((itemSpans) => itemSpans.length);
+      if (spans.length) blocks.push({ type: 'list', ordered, items: spans });
+      continue;
+    }
+
+    if (!paragraph.length && /^ {4,}\S/.test(line)) {
+      // Indented code block
+      const code: string[] = [];
+      while (i < lines.length && (/^ {4,}/.test(lines[i]) || !lines[i].trim())) {
+        code.push(lines[i].slice(4));
+        i++;
+      }
+      const text = code.join('\n').replace(/\s+$/, '');
+      if (text) blocks.push({ type: 'code', text });
+      continue;
+    }
+
+    const image = IMAGE_ONLY.exec(line);
+    if (image && !paragraph.length) {
+      blocks.push({ type: 'image', alt: image[1].trim(), ...(isExternalImage(image[2]) ? { src: image[2] } : {}) });
+      i++;
+      continue;
+    }
+
+    if (line.includes('|') && TABLE_DIVIDER.test(lines[i + 1] ?? '') && !paragraph.length) {
+      // Each table row reads as one line with cells separated
+      blocks.push({ type: 'paragraph', spans: tableRowSpans(line) });
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        const spans = tableRowSpans(lines[i]);
+        if (spans.length) blocks.push({ type: 'paragraph', spans });
+        i++;
+      }
+      continue;
+    }
+
+    paragraph.push(line);
+    i++;
+  }
+
+  flushParagraph();
+  return blocks;
+}
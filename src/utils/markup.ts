@@ -0,0 +1,401 @@
+/**
+ * Lightweight, DOM-free HTML/XML parsing
+ * Builds a tolerant element tree and converts HTML into document blocks.
+ * Avoids DOMParser so it can run anywhere, including Web Workers.
+ */
+
+import type { DocumentBlock, HeadingLevel, InlineMark, InlineSpan } from '../types';
+import { normalizeSpans, spansToText } from './documentModel';
+
+export interface MarkupElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: MarkupNode[];
+}
+
+export type MarkupNode = MarkupElement | string;
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta',
+  'param', 'source', 'track', 'wbr', 'image', 'mbp:pagebreak',
+]);
+
+// Contents are skipped without parsing
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style']);
+
+// Opening one of these closes an open <p>
+const CLOSES_PARAGRAPH = new Set([
+  'p', 'div', 'ul', 'ol', 'li', 'blockquote', 'pre', 'table', 'section', 'article',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'figure', 'header', 'footer', 'aside',
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0',
+  ndash: '–', mdash: '—', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“',
+  rdquo: '”', laquo: '«', raquo: '»', bull: '•', middot: '·', copy: '©',
+  reg: '®', trade: '™', deg: '°', times: '×', divide: '÷', shy: '',
+  ensp: ' ', emsp: ' ', thinsp: ' ', zwj: '', zwnj: '', euro: '€',
+  pound: '£', yen: '¥', cent: '¢', sect: '§', para: '¶', frac12: '½',
+  frac14: '¼', frac34: '¾', eacute: 'é', egrave: 'è', agrave: 'à',
+  aacute: 'á', ouml: 'ö', uuml: 'ü', auml: 'ä', szlig: 'ß', ccedil: 'ç',
+};
+
+/**
+ * Decode HTML/XML character references
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff
+        ? String.fromCodePoint(code)
+        : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+}
+
+/**
+ * Parse HTML or XML into an element tree rooted at a `#root` element.
+ * Unclosed and mismatched tags are tolerated the way browsers mostly do.
+ */
+export function parseMarkup(source: string): MarkupElement {
+  const root: MarkupElement = { tag: '#root', attrs: {}, children: [] };
+  const stack: MarkupElement[] = [root];
+  const current = () => stack[stack.length - 1];
+
+  const closeTag = (tag: string) => {
+    for (let i = stack.length - 1; i > 0; i--) {
+      if (stack[i].tag === tag) {
+        stack.length = i;
+        return;
+      }
+    }
+  };
+
+  let pos = 0;
+  while (pos < source.length) {
+    const lt = source.indexOf('<', pos);
+    if (lt === -1) {
+      current().children.push(decodeEntities(source.slice(pos)));
+      break;
+    }
+    if (lt > pos) current().children.push(decodeEntities(source.slice(pos, lt)));
+
+    if (source.startsWith('<!--', lt)) {
+      const end = source.indexOf('-->', lt + 4);
+      pos = end === -1 ? source.length : end + 3;
+      continue;
+    }
+    if (source.startsWith('<![CDATA[', lt)) {
+      const end = source.indexOf(']]>', lt + 9);
+      current().children.push(source.slice(lt + 9, end === -1 ? source.length : end));
+      pos = end === -1 ? source.length : end + 3;
+      continue;
+    }
+    if (source[lt + 1] === '!' || source[lt + 1] === '?') {
+      const end = source.indexOf('>', lt);
+      pos = end === -1 ? source.length : end + 1;
+      continue;
+    }
+
+    const tagMatch = /^<(\/?)([a-zA-Z][\w:.-]*)([^>]*?)(\/?)>/.exec(source.slice(lt, lt + 4096));
+    if (!tagMatch) {
+      // A stray "<" in text
+      current().children.push('<');
+      pos = lt + 1;
+      continue;
+    }
+
+    const [whole, closing, rawName, rawAttrs, selfClosing] = tagMatch;
+    const tag = rawName.toLowerCase();
+    pos = lt + whole.length;
+
+    if (closing) {
+      closeTag(tag);
+      continue;
+    }
+
+    if (CLOSES_PARAGRAPH.has(tag) && stack.some((element) => element.tag === 'p')) {
+      closeTag('p');
+    }
+    if (tag === 'li') {
+      // A new item closes the previous one in the same list
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].tag === 'ul' || stack[i].tag === 'ol') break;
+        if (stack[i].tag === 'li') {
+          stack.length = i;
+          break;
+        }
+      }
+    }
+
+    const element: MarkupElement = { tag, attrs: parseAttributes(rawAttrs), children: [] };
+    current().children.push(element);
+
+    if (selfClosing || VOID_ELEMENTS.has(tag)) continue;
+
+    if (RAW_TEXT_ELEMENTS.has(tag)) {
+      let end = source.indexOf('</', pos);
+      while (end !== -1 && source.slice(end + 2, end + 2 + tag.length).toLowerCase() !== tag) {
+        end = source.indexOf('</', end + 2);
+      }
+      const close = end === -1 ? -1 : source.indexOf('>', end);
+      pos = close === -1 ? source.length : close + 1;
+      continue;
+    }
+
+    stack.push(element);
+  }
+
+  return root;
+}
+
+/**
+ * Concatenated text content of a node
+ */
+export function textContent(node: MarkupNode): string {
+  if (typeof node === 'string') return node;
+  if (RAW_TEXT_ELEMENTS.has(node.tag)) return '';
+  return node.children.map(textContent).join('');
+}
+
+/**
+ * Depth-first search for the first element matching a predicate
+ */
+export function findElement(
+  node: MarkupElement,
+  predicate: (element: MarkupElement) => boolean
+): MarkupElement | null {
+  for (const child of node.children) {
+    if (typeof child === 'string') continue;
+    if (predicate(child)) return child;
+    const found = findElement(child, predicate);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * All elements matching a predicate, in document order
+ */
+export function findElements(
+  node: MarkupElement,
+  predicate: (element: MarkupElement) => boolean
+): MarkupElement[] {
+  const found: MarkupElement[] = [];
+  const walk = (element: MarkupElement) => {
+    for (const child of element.children) {
+      if (typeof child === 'string') continue;
+      if (predicate(child)) found.push(child);
+      walk(child);
+    }
+  };
+  walk(node);
+  return found;
+}
+
+/**
+ * Local tag name without a namespace prefix ("text:p" → "p")
+ */
+export function localName(tag: string): string {
+  const colon = tag.indexOf(':');
+  return colon === -1 ? tag : tag.slice(colon + 1);
+}
+
+/* HTML → document blocks */
+
+const INLINE_MARKS: Record<string, InlineMark> = {
+  b: 'bold', strong: 'bold',
+  i: 'italic', em: 'italic', cite: 'italic', dfn: 'italic', var: 'italic',
+  code: 'code', kbd: 'code', samp: 'code', tt: 'code',
+};
+
+const HEADINGS: Record<string, HeadingLevel> = { h1: 1, h2: 2, h3: 3, h4: 4, h5: 5, h6: 6 };
+
+const SKIPPED_ELEMENTS = new Set(['head', 'script', 'style', 'nav', 'noscript', 'svg', 'math']);
+
+const BLOCK_ELEMENTS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'body', 'html', 'header', 'footer',
+  'aside', 'figure', 'figcaption', 'center', 'address', 'dl', 'dt', 'dd',
+  'table', 'thead', 'tbody', 'tfoot', 'tr', 'td', 'th', 'caption', 'hr',
+  'ul', 'ol', 'li', 'blockquote', 'pre', 'img', 'image', 'mbp:pagebreak',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', '#root',
+]);
+
+export interface HtmlToBlocksOptions {
+  /** Resolve an image src; return undefined to keep only the alt text */
+  resolveImage?: (src: string, attrs: Record<string, string>) => string | undefined;
+}
+
+interface InlineContext {
+  marks: InlineMark[];
+  href?: string;
+}
+
+/**
+ * Convert HTML (a string or parsed tree) into document blocks, keeping
+ * headings, lists, quotes, code, images and inline emphasis
+ */
+export function htmlToBlocks(
+  html: string | MarkupElement,
+  options: HtmlToBlocksOptions = {}
+): DocumentBlock[] {
+  const root = typeof html === 'string' ? parseMarkup(html) : html;
+  const blocks: DocumentBlock[] = [];
+  let pending: InlineSpan[] = [];
+  let pendingAnchor: string | undefined;
+  let quoteDepth = 0;
+
+  const takeAnchor = () => {
+    const anchor = pendingAnchor;
+    pendingAnchor = undefined;
+    return anchor ? { anchor } : {};
+  };
+
+  const flush = () => {
+    const spans = normalizeSpans(pending);
+    pending = [];
+    if (!spansToText(spans).trim()) return;
+    blocks.push({ type: quoteDepth > 0 ? 'quote' : 'paragraph', spans, ...takeAnchor() });
+  };
+
+  const collectInline = (node: MarkupNode, context: InlineContext, into: InlineSpan[]) => {
+    if (typeof node === 'string') {
+      into.push({
+        text: node,
+        ...(context.marks.length ? { marks: context.marks } : {}),
+        ...(context.href ? { href: context.href } : {}),
+      });
+      return;
+    }
+    if (SKIPPED_ELEMENTS.has(node.tag)) return;
+    if (node.tag === 'br') {
+      into.push({ text: '\n' });
+      return;
+    }
+    if (node.attrs.id && !pendingAnchor) pendingAnchor = node.attrs.id;
+    if (node.tag === 'a' && node.attrs.name && !pendingAnchor) pendingAnchor = node.attrs.name;
+
+    let next = context;
+    const mark = INLINE_MARKS[node.tag];
+    if (mark && !context.marks.includes(mark)) {
+      next = { ...context, marks: [...context.marks, mark] };
+    }
+    if (node.tag === 'a' && node.attrs.href) {
+      next = { marks: [...next.marks, 'link'], href: node.attrs.href };
+    }
+    for (const child of node.children) collectInline(child, next, into);
+  };
+
+  const listItems = (list: MarkupElement): InlineSpan[][] => {
+    const items: InlineSpan[][] = [];
+    for (const child of list.children) {
+      if (typeof child === 'string' || child.tag !== 'li') continue;
+      const spans: InlineSpan[] = [];
+      const nested: InlineSpan[][] = [];
+      for (const part of child.children) {
+        if (typeof part !== 'string' && (part.tag === 'ul' || part.tag === 'ol')) {
+          nested.push(...listItems(part));
+        } else {
+          collectInline(part, { marks: [] }, spans);
+        }
+      }
+      const normalized = normalizeSpans(spans);
+      if (normalized.length) items.push(normalized);
+      items.push(...nested);
+    }
+    return items;
+  };
+
+  const walk = (node: MarkupNode) => {
+    if (typeof node === 'string' || !BLOCK_ELEMENTS.has(node.tag)) {
+      collectInline(node, { marks: [] }, pending);
+      return;
+    }
+    if (SKIPPED_ELEMENTS.has(node.tag)) return;
+
+    flush();
+    if (node.attrs.id && !pendingAnchor) pendingAnchor = node.attrs.id;
+
+    const level = HEADINGS[node.tag];
+    if (level) {
+      const spans: InlineSpan[] = [];
+      collectInline(node, { marks: [] }, spans);
+      const normalized = normalizeSpans(spans);
+      if (normalized.length) blocks.push({ type: 'heading', level, spans: normalized, ...takeAnchor() });
+      return;
+    }
+
+    switch (node.tag) {
+      case 'ul':
+      case 'ol': {
+        const items = listItems(node);
+        if (items.length) blocks.push({ type: 'list', ordered: node.tag === 'ol', items, ...takeAnchor() });
+        return;
+      }
+      case 'pre': {
+        const text = textContent(node).replace(/^\n/, '').replace(/\s+$/, '');
+        if (text) blocks.push({ type: 'code', text, ...takeAnchor() });
+        return;
+      }
+      case 'img':
+      case 'image': {
+        const rawSrc = node.attrs.src ?? node.attrs['xlink:href'] ?? node.attrs.href ?? '';
+        const src = options.resolveImage
+          ? options.resolveImage(rawSrc, node.attrs)
+          : rawSrc.startsWith('data:') ? rawSrc : undefined;
+        const alt = (node.attrs.alt ?? node.attrs.title ?? '').trim();
+        if (src || alt) blocks.push({ type: 'image', alt, ...(src ? { src } : {}), ...takeAnchor() });
+        return;
+      }
+      case 'mbp:pagebreak':
+        blocks.push({ type: 'pageBreak' });
+        return;
+      case 'hr':
+        return;
+      case 'tr': {
+        // Table rows read as one line with cells separated
+        const cells = node.children
+          .filter((cell): cell is MarkupElement => typeof cell !== 'string')
+          .map((cell) => {
+            const spans: InlineSpan[] = [];
+            collectInline(cell, { marks: [] }, spans);
+            return normalizeSpans(spans);
+          })
+          .filter((cell) => cell.length);
+        cells.forEach((cell, index) => {
+          if (index > 0) pending.push({ text: ' · ' });
+          pending.push(...cell);
+        });
+        flush();
+        return;
+      }
+      case 'blockquote':
+        quoteDepth++;
+        node.children.forEach(walk);
+        flush();
+        quoteDepth--;
+        return;
+    }
+
+    node.children.forEach(walk);
+    flush();
+  };
+
+  walk(root);
+  flush();
+  return blocks;
+}
@@ -0,0 +1,440 @@
+/**
+ * MOBI / AZW3 (KF8) reader
+ * Parses the PalmDB container, MOBI and EXTH headers, and decompresses the
+ * text records (PalmDOC LZ77 or HUFF/CDIC) back into the book's HTML.
+ */
+
+export interface MobiBook {
+  title?: string;
+  author?: string;
+  html: string;
+  isKF8: boolean;
+  /** Image resource as a data URL, by 0-based resource index */
+  getImage: (index: number) => string | undefined;
+}
+
+const NO_RECORD = 0xffffffff;
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_PALMDOC = 2;
+const COMPRESSION_HUFFCDIC = 17480;
+
+const EXTH_AUTHOR = 100;
+const EXTH_KF8_BOUNDARY = 121;
+const EXTH_UPDATED_TITLE = 503;
+
+interface MobiHeader {
+  compression: number;
+  textRecordCount: number;
+  encryption: number;
+  encoding: string;
+  version: number;
+  fullName?: string;
+  resourceStart: number;
+  huffRecord: number;
+  huffRecordCount: number;
+  trailingFlags: number;
+  fdstRecord: number;
+  exth: Map<number, Uint8Array[]>;
+}
+
+function readString(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+/**
+ * PalmDB container: a list of records addressed by index
+ */
+class PalmDatabase {
+  readonly type: string;
+  private readonly offsets: number[];
+  private readonly bytes: Uint8Array;
+
+  constructor(buffer: ArrayBuffer) {
+    this.bytes = new Uint8Array(buffer);
+    if (this.bytes.length < 78) throw new Error('File is too small to be a MOBI book');
+
+    const view = new DataView(buffer);
+    this.type = readString(this.bytes, 60, 8);
+    const count = view.getUint16(76);
+    this.offsets = Array.from({ length: count }, (_, i) => view.getUint32(78 + i * 8));
+  }
+
+  get recordCount(): number {
+    return this.offsets.length;
+  }
+
+  record(index: number): Uint8Array {
+    if (index < 0 || index >= this.offsets.length) {
+      throw new Error(`Record ${index} is out of range`);
+    }
+    const end = this.offsets[index + 1] ?? this.bytes.length;
+    return this.bytes.subarray(this.offsets[index], end);
+  }
+}
+
+function parseExth(record: Uint8Array, start: number): Map<number, Uint8Array[]> {
+  const exth = new Map<number, Uint8Array[]>();
+  if (readString(record, start, 4) !== 'EXTH') return exth;
+
+  const view = new DataView(record.buffer, record.byteOffset, record.byteLength);
+  const count = view.getUint32(start + 8);
+  let pos = start + 12;
+
+  for (let i = 0; i < count && pos + 8 <= record.length; i++) {
+    const type = view.getUint32(pos);
+    const length = view.getUint32(pos + 4);
+    if (length < 8) break;
+    const values = exth.get(type) ?? [];
+    values.push(record.subarray(pos + 8, pos + length));
+    exth.set(type, values);
+    pos += length;
+  }
+
+  return exth;
+}
+
+/**
+ * Read the PalmDOC header in record 0 and the MOBI/EXTH headers that follow it
+ */
+function parseHeader(record: Uint8Array): MobiHeader {
+  const view = new DataView(record.buffer, record.byteOffset, record.byteLength);
+  const header: MobiHeader = {
+    compression: view.getUint16(0),
+    textRecordCount: view.getUint16(8),
+    encryption: view.getUint16(12),
+    encoding: 'windows-1252',
+    version: 0,
+    resourceStart: NO_RECORD,
+    huffRecord: NO_RECORD,
+    huffRecordCount: 0,
+    trailingFlags: 0,
+    fdstRecord: NO_RECORD,
+    exth: new Map(),
+  };
+
+  // Plain PalmDOC (TEXtREAd) files stop here
+  if (record.length < 20 || readString(record, 16, 4) !== 'MOBI') return header;
+
+  const headerLength = view.getUint32(20);
+  const encoding = view.getUint32(28);
+  header.encoding = encoding === 65001 ? 'utf-8' : 'windows-1252';
+  header.version = view.getUint32(36);
+  header.resourceStart = view.getUint32(108);
+  header.huffRecord = view.getUint32(112);
+  header.huffRecordCount = view.getUint32(116);
+
+  const nameOffset = view.getUint32(84);
+  const nameLength = view.getUint32(88);
+  if (nameOffset + nameLength <= record.length) {
+    header.fullName = new TextDecoder(header.encoding).decode(
+      record.subarray(nameOffset, nameOffset + nameLength)
+    );
+  }
+
+  // Trailing entry flags only exist in longer headers
+  if (headerLength >= 0xe4 && record.length >= 244) {
+    header.trailingFlags = view.getUint16(242);
+  }
+  if (header.version >= 8 && record.length >= 196) {
+    header.fdstRecord = view.getUint32(192);
+  }
+
+  const hasExth = (view.getUint32(128) & 0x40) !== 0;
+  if (hasExth) header.exth = parseExth(record, 16 + headerLength);
+
+  return header;
+}
+
+/**
+ * PalmDOC LZ77 decompression
+ */
+export function decompressPalmDOC(input: Uint8Array): Uint8Array {
+  const output = new Uint8Array(Math.max(input.length * 8, 4096));
+  let out = 0;
+
+  for (let i = 0; i < input.length && out < output.length; i++) {
+    const byte = input[i];
+
+    if (byte === 0 || (byte >= 0x09 && byte <= 0x7f)) {
+      // Literal byte
+      output[out++] = byte;
+    } else if (byte <= 0x08) {
+      // Copy the next 1-8 bytes as-is
+      for (let j = 0; j < byte && i + 1 < input.length; j++) output[out++] = input[++i];
+    } else if (byte <= 0xbf) {
+      // Length/distance pair in two bytes: 10dddddd dddddlll
+      const pair = (byte << 8) | (input[++i] ?? 0);
+      const distance = (pair & 0x3fff) >> 3;
+      const length = (pair & 0x07) + 3;
+      for (let j = 0; j < length; j++) {
+        output[out] = output[out - distance];
+        out++;
+      }
+    } else {
+      // Space followed by a character
+      output[out++] = 0x20;
+      output[out++] = byte ^ 0x80;
+    }
+  }
+
+  return output.subarray(0, out);
+}
+
+/**
+ * Build a HUFF/CDIC decompressor from the dictionary records
+ */
+function createHuffCdicDecompressor(
+  db: PalmDatabase,
+  base: number,
+  header: MobiHeader
+): (input: Uint8Array) => Uint8Array {
+  const huff = db.record(base + header.huffRecord);
+  if (readString(huff, 0, 4) !== 'HUFF') throw new Error('Invalid HUFF record');
+  const huffView = new DataView(huff.buffer, huff.byteOffset, huff.byteLength);
+
+  // Table 1: indexed by the top byte of the code
+  const table1Offset = huffView.getUint32(8);
+  const table1 = Array.from({ length: 256 }, (_, i) => {
+    const value = huffView.getUint32(table1Offset + i * 4);
+    return { terminal: (value & 0x80) !== 0, codeLength: value & 0x1f, maxCode: value >>> 8 };
+  });
+
+  // Table 2: [minCode, maxCode] indexed by code length (1-32)
+  const table2Offset = huffView.getUint32(12);
+  const minCodes = [0];
+  const maxCodes = [0];
+  for (let i = 0; i < 32; i++) {
+    minCodes.push(huffView.getUint32(table2Offset + i * 8));
+    maxCodes.push(huffView.getUint32(table2Offset + i * 8 + 4));
+  }
+
+  // Dictionary phrases from the CDIC records
+  const dictionary: { data: Uint8Array; decompressed: boolean }[] = [];
+  for (let r = 1; r < header.huffRecordCount; r++) {
+    const cdic = db.record(base + header.huffRecord + r);
+    if (readString(cdic, 0, 4) !== 'CDIC') throw new Error('Invalid CDIC record');
+    const view = new DataView(cdic.buffer, cdic.byteOffset, cdic.byteLength);
+    const headerLength = view.getUint32(4);
+    const total = view.getUint32(8);
+    const bits = view.getUint32(12);
+    const count = Math.min(1 << bits, total - dictionary.length);
+
+    for (let i = 0; i < count; i++) {
+      const offset = headerLength + view.getUint16(headerLength + i * 2);
+      const info = view.getUint16(offset);
+      const length = info & 0x7fff;
+      dictionary.push({
+        data: cdic.subarray(offset + 2, offset + 2 + length),
+        decompressed: (info & 0x8000) !== 0,
+      });
+    }
+  }
+
+  // Read 32 bits starting at an arbitrary bit position
+  const read32 = (input: Uint8Array, bit: number): number => {
+    const byte = bit >>> 3;
+    const shift = bit & 7;
+    const word =
+      ((input[byte] ?? 0) * 0x1000000 +
+        ((input[byte + 1] ?? 0) << 16) +
+        ((input[byte + 2] ?? 0) << 8) +
+        (input[byte + 3] ?? 0)) >>> 0;
+    if (shift === 0) return word;
+    return ((word << shift) | ((input[byte + 4] ?? 0) >>> (8 - shift))) >>> 0;
+  };
+
+  const decompress = (input: Uint8Array, depth = 0): Uint8Array => {
+    if (depth > 32) throw new Error('HUFF/CDIC dictionary is too deeply nested');
+    const parts: Uint8Array[] = [];
+    let size = 0;
+    const bitLength = input.length * 8;
+
+    for (let bit = 0; bit < bitLength; ) {
+      const code = read32(input, bit);
+      let { codeLength, maxCode } = table1[code >>> 24];
+      if (!table1[code >>> 24].terminal) {
+        while (codeLength < 32 && code >>> (32 - codeLength) < minCodes[codeLength]) codeLength++;
+        maxCode = maxCodes[codeLength];
+      }
+      if (codeLength === 0) throw new Error('Corrupt HUFF/CDIC data');
+      bit += codeLength;
+      if (bit > bitLength) break;
+
+      const entry = dictionary[maxCode - (code >>> (32 - codeLength))];
+      if (!entry) throw new Error('Corrupt HUFF/CDIC data');
+      if (!entry.decompressed) {
+        // Phrases can themselves be compressed; cache the expansion
+        entry.data = decompress(entry.data, depth + 1);
+        entry.decompressed = true;
+      }
+      parts.push(entry.data);
+      size += entry.data.length;
+    }
+
+    const output = new Uint8Array(size);
+    let offset = 0;
+    for (const part of parts) {
+      output.set(part, offset);
+      offset += part.length;
+    }
+    return output;
+  };
+
+  return (input) => decompress(input);
+}
+
+/**
+ * Size of a backward-encoded variable-length integer at the end of a record
+ */
+function readTrailingSize(record: Uint8Array, end: number): number {
+  let value = 0;
+  for (let i = Math.max(end - 4, 0); i < end; i++) {
+    const byte = record[i];
+    if (byte & 0x80) value = 0;
+    value = (value << 7) | (byte & 0x7f);
+  }
+  return value;
+}
+
+/**
+ * Strip the extra data entries some writers append to each text record
+ */
+function stripTrailingEntries(record: Uint8Array, flags: number): Uint8Array {
+  let end = record.length;
+  for (let bits = flags >>> 1; bits > 0; bits >>>= 1) {
+    if (bits & 1) end -= readTrailingSize(record, end);
+  }
+  if (flags & 1) end -= (record[end - 1] & 0x3) + 1;
+  return record.subarray(0, Math.max(end, 0));
+}
+
+function sniffImageType(data: Uint8Array): string | null {
+  if (data[0] === 0xff && data[1] === 0xd8) return 'image/jpeg';
+  if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) return 'image/png';
+  if (readString(data, 0, 4) === 'GIF8') return 'image/gif';
+  if (readString(data, 0, 2) === 'BM') return 'image/bmp';
+  return null;
+}
+
+function toDataUrl(data: Uint8Array, mime: string): string {
+  let binary = '';
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+  }
+  return `data:${mime};base64,${btoa(binary)}`;
+}
+
+/**
+ * Parse a MOBI, AZW or AZW3 file into its HTML text and metadata.
+ * Combined MOBI/KF8 files use the MOBI section, whose text is stored in
+ * reading order; the KF8 section is only read when that one has no text.
+ */
+export function parseMobiBook(buffer: ArrayBuffer): MobiBook {
+  const db = new PalmDatabase(buffer);
+  if (db.type !== 'BOOKMOBI' && db.type !== 'TEXtREAd') {
+    throw new Error('Not a MOBI book (missing BOOKMOBI signature)');
+  }
+
+  let base = 0;
+  let header = parseHeader(db.record(0));
+  const exth = header.exth;
+
+  // Combined files carry a KF8 section after a boundary record
+  const boundary = exth.get(EXTH_KF8_BOUNDARY)?.[0];
+  if (header.version < 8 && header.textRecordCount === 0 && boundary && boundary.length >= 4) {
+    const index = new DataView(boundary.buffer, boundary.byteOffset, 4).getUint32(0);
+    if (index !== NO_RECORD && index + 1 < db.recordCount) {
+      try {
+        const kf8Header = parseHeader(db.record(index + 1));
+        if (kf8Header.version >= 8) {
+          base = index + 1;
+          header = kf8Header;
+        }
+      } catch (e) {
+        console.warn('Failed to read KF8 section, falling back to MOBI:', e);
+      }
+    }
+  }
+
+  if (header.encryption !== 0) {
+    throw new Error(
+      'This book is DRM-protected and cannot be opened. ' +
+      'Only DRM-free MOBI/AZW3 files are supported.'
+    );
+  }
+
+  let decompress: (input: Uint8Array) => Uint8Array;
+  switch (header.compression) {
+    case COMPRESSION_NONE:
+      decompress = (input) => input;
+      break;
+    case COMPRESSION_PALMDOC:
+      decompress = decompressPalmDOC;
+      break;
+    case COMPRESSION_HUFFCDIC:
+      decompress = createHuffCdicDecompressor(db, base, header);
+      break;
+    default:
+      throw new Error(`Unsupported MOBI compression type: ${header.compression}`);
+  }
+
+  // Decompress and join all text records
+  const parts: Uint8Array[] = [];
+  let size = 0;
+  for (let i = 1; i <= header.textRecordCount && base + i < db.recordCount; i++) {
+    const part = decompress(stripTrailingEntries(db.record(base + i), header.trailingFlags));
+    parts.push(part);
+    size += part.length;
+  }
+  let text = new Uint8Array(size);
+  let offset = 0;
+  for (const part of parts) {
+    text.set(part, offset);
+    offset += part.length;
+  }
+
+  // KF8 stores HTML, CSS and SVG as separate flows; the first one is the HTML
+  const isKF8 = header.version >= 8;
+  if (isKF8 && header.fdstRecord !== NO_RECORD) {
+    try {
+      const fdst = db.record(base + header.fdstRecord);
+      if (readString(fdst, 0, 4) === 'FDST') {
+        const view = new DataView(fdst.buffer, fdst.byteOffset, fdst.byteLength);
+        if (view.getUint32(8) > 0) {
+          text = text.subarray(view.getUint32(12), view.getUint32(16));
+        }
+      }
+    } catch (e) {
+      console.warn('Failed to read KF8 flow table:', e);
+    }
+  }
+
+  const decoder = new TextDecoder(header.encoding);
+  const readExth = (type: number) => {
+    const value = exth.get(type)?.[0] ?? header.exth.get(type)?.[0];
+    return value ? decoder.decode(value).trim() || undefined : undefined;
+  };
+
+  const getImage = (index: number): string | undefined => {
+    if (header.resourceStart === NO_RECORD) return undefined;
+    try {
+      const data = db.record(base + header.resourceStart + index);
+      const mime = sniffImageType(data);
+      return mime ? toDataUrl(data, mime) : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+
+  return {
+    title: readExth(EXTH_UPDATED_TITLE) ?? header.fullName?.trim() ?? undefined,
+    author: readExth(EXTH_AUTHOR),
+    // KF8 text is read in stored order: skeletons and fragments are not
+    // reassembled, so a book that stores fragments out of order reads out
+    // of order
+    html: decoder.decode(text),
+    isKF8,
+    getImage,
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * OpenDocument Text (.odt) reader
+ * Maps content.xml onto HTML-like elements so the shared HTML converter can
+ * keep headings, lists, tables, emphasis and images.
+ */
+
+import JSZip from 'jszip';
+import type { DocumentBlock } from '../types';
+import { findElement, findElements, htmlToBlocks, parseMarkup, textContent } from './markup';
+import type { MarkupElement, MarkupNode } from './markup';
+
+export interface OdtDocument {
+  title?: string;
+  blocks: DocumentBlock[];
+}
+
+interface OdtStyle {
+  bold: boolean;
+  italic: boolean;
+  heading?: number;
+  parent?: string;
+}
+
+// Elements with no readable body content
+const DROPPED_ELEMENTS = new Set([
+  'text:note', 'text:sequence-decls', 'text:tracked-changes', 'text:soft-page-break',
+  'text:table-of-content', 'text:alphabetical-index', 'text:bookmark-ref',
+  'office:annotation', 'office:annotation-end', 'office:forms', 'table:table-columns',
+  'table:table-column', 'svg:title', 'svg:desc',
+]);
+
+// Elements whose children are paragraphs, lists or tables
+const BLOCK_CONTAINERS = new Set([
+  'office:text', 'text:section', 'text:index-body', 'draw:text-box',
+  'table:table-header-rows', 'table:table-rows', 'table:table-row-group',
+]);
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif',
+  svg: 'image/svg+xml', webp: 'image/webp', bmp: 'image/bmp',
+};
+
+function element(tag: string, children: MarkupNode[], attrs: Record<string, string> = {}): MarkupElement {
+  return { tag, attrs, children };
+}
+
+function headingFromStyleName(name: string): number | undefined {
+  const decoded = name.replace(/_20_/g, ' ');
+  const match = /^heading\s*(\d)/i.exec(decoded);
+  if (match) return parseInt(match[1], 10);
+  return /^title$/i.test(decoded) ? 1 : undefined;
+}
+
+/**
+ * Collect paragraph and text styles from a styles container
+ */
+function readStyles(container: MarkupElement | null, styles: Map<string, OdtStyle>) {
+  if (!container) return;
+  for (const style of findElements(container, (el) => el.tag === 'style:style')) {
+    const name = style.attrs['style:name'];
+    if (!name) continue;
+    const text = findElement(style, (el) => el.tag === 'style:text-properties');
+    const outline = parseInt(style.attrs['style:default-outline-level'] ?? '', 10);
+    styles.set(name, {
+      bold: text?.attrs['fo:font-weight'] === 'bold' || Number(text?.attrs['fo:font-weight']) >= 600,
+      italic: text?.attrs['fo:font-style'] === 'italic',
+      heading: Number.isFinite(outline) && outline > 0 ? outline : headingFromStyleName(name),
+      parent: style.attrs['style:parent-style-name'],
+    });
+  }
+}
+
+/**
+ * Parse an ODT package into document blocks
+ */
+export async function parseOdt(buffer: ArrayBuffer): Promise<OdtDocument> {
+  const zip = await JSZip.loadAsync(buffer);
+  const contentFile = zip.file('content.xml');
+  if (!contentFile) throw new Error('Not an OpenDocument text file (missing content.xml)');
+
+  const content = parseMarkup(await contentFile.async('string'));
+  const body = findElement(content, (el) => el.tag === 'office:text');
+  if (!body) throw new Error('OpenDocument file has no text body');
+
+  const styles = new Map<string, OdtStyle>();
+  const stylesFile = zip.file('styles.xml');
+  if (stylesFile) readStyles(parseMarkup(await stylesFile.async('string')), styles);
+  readStyles(findElement(content, (el) => el.tag === 'office:automatic-styles'), styles);
+
+  // Inherited style properties (automatic styles usually extend named ones)
+  const resolveStyle = (name: string | undefined, depth = 0): OdtStyle | undefined => {
+    const style = name ? styles.get(name) : undefined;
+    if (!style || depth > 8) return style;
+    const parent = resolveStyle(style.parent, depth + 1);
+    if (!parent) {
+      // The parent may be a built-in style that styles.xml doesn't define
+      return style.parent ? { ...style, heading: style.heading ?? headingFromStyleName(style.parent) } : style;
+    }
+    return { bold: style.bold || parent.bold, italic: style.italic || parent.italic, heading: style.heading ?? parent.heading };
+  };
+
+  // Numbered vs bulleted list styles
+  const orderedLists = new Set(
+    findElements(content, (el) => el.tag === 'text:list-style')
+      .filter((style) => style.children.some((level) => typeof level !== 'string' && level.tag === 'text:list-level-style-number'))
+      .map((style) => style.attrs['style:name'])
+  );
+
+  // Embedded pictures become data URLs up front; the converter is synchronous
+  const images = new Map<string, string>();
+  for (const image of findElements(body, (el) => el.tag === 'draw:image')) {
+    const href = image.attrs['xlink:href'];
+    const file = href ? zip.file(href) : null;
+    const type = IMAGE_TYPES[href?.split('.').pop()?.toLowerCase() ?? ''];
+    if (file && type && !images.has(href)) {
+      images.set(href, `data:${type};base64,${await file.async('base64')}`);
+    }
+  }
+
+  const image = (node: MarkupElement, alt: string): MarkupElement => {
+    const src = images.get(node.attrs['xlink:href'] ?? '');
+    return element('img', [], { ...(src ? { src } : {}), alt });
+  };
+
+  let listOrdered = false;
+  const convert = (node: MarkupNode): MarkupNode[] => {
+    if (typeof node === 'string') return [node];
+    if (DROPPED_ELEMENTS.has(node.tag)) return [];
+    const children = () => node.children.flatMap(convert);
+
+    switch (node.tag) {
+      case 'text:h': {
+        const level = parseInt(node.attrs['text:outline-level'] ?? '1', 10) || 1;
+        return [element(`h${Math.min(Math.max(level, 1), 6)}`, children())];
+      }
+      case 'text:p': {
+        const heading = resolveStyle(node.attrs['text:style-name'])?.heading;
+        return [element(heading ? `h${Math.min(heading, 6)}` : 'p', children())];
+      }
+      case 'text:list': {
+        const styleName = node.attrs['text:style-name'];
+        const outer = listOrdered;
+        // Nested lists without their own style follow the outer list
+        if (styleName) listOrdered = orderedLists.has(styleName);
+        const list = element(listOrdered ? 'ol' : 'ul', children());
+        listOrdered = outer;
+        return [list];
+      }
+      case 'text:list-item':
+      case 'text:list-header':
+        return [element('li', children())];
+      case 'text:span': {
+        const style = resolveStyle(node.attrs['text:style-name']);
+        let result: MarkupNode[] = children();
+        if (style?.italic) result = [element('em', result)];
+        if (style?.bold) result = [element('strong', result)];
+        return result;
+      }
+      case 'text:a':
+        return [element('a', children(), node.attrs['xlink:href'] ? { href: node.attrs['xlink:href'] } : {})];
+      case 'text:s':
+        return [' '.repeat(Math.max(parseInt(node.attrs['text:c'] ?? '1', 10) || 1, 1))];
+      case 'text:tab':
+        return [' '];
+      case 'text:line-break':
+        return [element('br', [])];
+      case 'table:table':
+        return [element('table', children())];
+      case 'table:table-row':
+        return [element('tr', children())];
+      case 'table:table-cell':
+      case 'table:covered-table-cell':
+        return [element('td', children())];
+      case 'draw:frame': {
+        // Frames carry the picture's title or description
+        const description = findElement(node, (el) => el.tag === 'svg:title' || el.tag === 'svg:desc');
+        const alt = description ? textContent(description).trim() : '';
+        return node.children.flatMap((child) =>
+          typeof child !== 'string' && child.tag === 'draw:image' ? [image(child, alt)] : convert(child)
+        );
+      }
+      case 'draw:image':
+        return [image(node, '')];
+      default:
+        // Block containers keep their content as blocks, anything else is inline
+        return [element(BLOCK_CONTAINERS.has(node.tag) ? 'div' : 'span', children())];
+    }
+  };
+
+  const blocks = htmlToBlocks(element('#root', convert(body)));
+
+  let title: string | undefined;
+  const metaFile = zip.file('meta.xml');
+  if (metaFile) {
+    const titleElement = findElement(parseMarkup(await metaFile.async('string')), (el) => el.tag === 'dc:title');
+    title = titleElement ? textContent(titleElement).trim() || undefined : undefined;
+  }
+
+  return { blocks, title };
+}
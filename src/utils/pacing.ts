@@ -0,0 +1,36 @@
+import type { TextChunk } from '../types';
+
+export const MIN_WPM = 100;
+export const MAX_WPM = 800;
+export const WPM_STEP = 25;
+
+// Shortest time a chunk stays active, so tiny chunks don't flash past
+const MIN_CHUNK_MS = 900;
+// Extra pause after the last chunk of a paragraph, in words at the current pace
+const PARAGRAPH_PAUSE_WORDS = 4;
+
+export interface ChunkTiming {
+  /** Time spent reading the chunk itself */
+  readMs: number;
+  /** Pause after the chunk (paragraph breaks) */
+  pauseMs: number;
+}
+
+/**
+ * Clamp a words-per-minute value to the supported range
+ */
+export function clampWpm(wpm: number): number {
+  return Math.min(Math.max(Math.round(wpm), MIN_WPM), MAX_WPM);
+}
+
+/**
+ * How long a chunk should stay active at the given reading speed.
+ * Longer chunks wait longer; paragraph ends add a short breather.
+ */
+export function getChunkTiming(chunk: TextChunk, wpm: number): ChunkTiming {
+  const msPerWord = 60000 / clampWpm(wpm);
+  return {
+    readMs: Math.max(chunk.wordCount * msPerWord, MIN_CHUNK_MS),
+    pauseMs: chunk.isParagraphEnd ? PARAGRAPH_PAUSE_WORDS * msPerWord : 0,
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Parse documents in a dedicated worker so large files don't freeze the UI.
+ * Each import gets its own worker, terminated when it finishes or is cancelled.
+ */
+
+import type { ParsedDocument } from '../types';
+import type { ParseWorkerMessage } from '../workers/parseWorker';
+import { parseFile } from './fileParsers';
+import type { ParseCallbacks } from './fileParsers';
+
+export interface ParseOptions extends ParseCallbacks {
+  /** Aborting rejects the promise and stops the worker */
+  signal?: AbortSignal;
+}
+
+export function parseFileInWorker(
+  file: File,
+  { onProgress, onBlocks, signal }: ParseOptions = {}
+): Promise<ParsedDocument> {
+  // Environments without workers parse on the main thread
+  if (typeof Worker === 'undefined') return parseFile(file, { onProgress, onBlocks });
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Import cancelled'));
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/parseWorker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(new Error('Import cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (event: MessageEvent<ParseWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+      if (message.type === 'blocks') {
+        onBlocks?.(message.blocks);
+        return;
+      }
+      finish();
+      if (message.type === 'done') resolve(message.document);
+      else reject(new Error(message.message));
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'The document parser stopped unexpectedly'));
+    };
+
+    worker.postMessage(file);
+  });
+}
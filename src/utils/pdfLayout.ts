@@ -0,0 +1,466 @@
+/**
+ * PDF text layout reconstruction
+ * Rebuilds lines, columns and paragraphs from positioned PDF.js text items,
+ * joins words hyphenated across line ends and drops running headers,
+ * footers and page numbers.
+ */
+
+import type { DocumentBlock, HeadingLevel } from '../types';
+import { textSpans } from './documentModel';
+
+/** The parts of a PDF.js TextItem the layout needs */
+export interface PdfTextRun {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+  hasEOL: boolean;
+}
+
+export interface PdfPageContent {
+  items: PdfTextRun[];
+  /** Page box in PDF units: [x0, y0, x1, y1] */
+  view: number[];
+}
+
+/** Document-wide layout facts shared by every page */
+export interface PdfLayoutProfile {
+  /** Header and footer text, lowercased with digits as "#" */
+  runningLines: Set<string>;
+  /** Font size of the body text */
+  bodySize: number;
+}
+
+interface Fragment {
+  text: string;
+  x0: number;
+  x1: number;
+  /** Baseline; PDF y grows upwards */
+  y: number;
+  size: number;
+  eol: boolean;
+  order: number;
+}
+
+interface Line {
+  text: string;
+  x0: number;
+  x1: number;
+  y: number;
+  size: number;
+}
+
+interface PageLayout {
+  /** Independent text flows (columns and full-width bands) in reading order */
+  flows: Line[][];
+  bottom: number;
+  height: number;
+}
+
+interface Paragraph {
+  kind: 'heading' | 'paragraph' | 'item';
+  text: string;
+  size: number;
+  /** Left edge of the first line */
+  x0: number;
+  ordered?: boolean;
+}
+
+const BULLET = /^(?:[•◦▪▫●○■□‣⁃]\s*|[-–*]\s+|\(?(\d{1,3})[.)]\s+)/;
+const PAGE_NUMBER = /^(?:page\s*)?[-–—]?\s*(?:\d{1,4}|[ivx]{1,5})\s*[-–—]?(?:\s*(?:of|\/)\s*\d{1,4})?$/i;
+const SENTENCE_END = /[.!?:;"”’)]$/;
+
+function median(values: number[]): number {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Turn text items into positioned fragments. Rotated text (margin stamps,
+ * vertical labels) is dropped unless it is most of the page.
+ */
+function toFragments(items: PdfTextRun[]): Fragment[] {
+  const upright: Fragment[] = [];
+  const rotated: Fragment[] = [];
+
+  items.forEach((item, order) => {
+    const [a, b, c, d, e, f] = item.transform;
+    const target = Math.abs(b) > Math.abs(a) ? rotated : upright;
+    if (!item.str.trim()) {
+      // Whitespace items only carry the line break
+      const last = target[target.length - 1];
+      if (item.hasEOL && last) last.eol = true;
+      return;
+    }
+    const size = Math.hypot(c, d) || item.height || Math.hypot(a, b) || 1;
+    const width = item.width > 0 ? item.width : item.str.length * size * 0.5;
+    target.push({ text: item.str, x0: e, x1: e + width, y: f, size, eol: item.hasEOL, order });
+  });
+
+  const chars = (fragments: Fragment[]) => fragments.reduce((sum, fragment) => sum + fragment.text.length, 0);
+  return chars(rotated) > chars(upright) ? [...upright, ...rotated] : upright;
+}
+
+/**
+ * Group fragments into visual rows by baseline, top to bottom
+ */
+function toRows(fragments: Fragment[]): Fragment[][] {
+  const sorted = [...fragments].sort((a, b) => b.y - a.y || a.x0 - b.x0);
+  const rows: Fragment[][] = [];
+  for (const fragment of sorted) {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row[0].y - fragment.y) <= 0.5 * Math.min(row[0].size, fragment.size)) row.push(fragment);
+    else rows.push([fragment]);
+  }
+  return rows.map((row) => row.sort((a, b) => a.x0 - b.x0));
+}
+
+/**
+ * Find a vertical strip near the middle of the text that (almost) no
+ * fragment crosses, with enough text on both sides to be columns
+ */
+function findGutter(fragments: Fragment[]): { start: number; end: number } | null {
+  if (fragments.length < 8) return null;
+  const minX = Math.min(...fragments.map((fragment) => fragment.x0));
+  const maxX = Math.max(...fragments.map((fragment) => fragment.x1));
+  const bodySize = median(fragments.map((fragment) => fragment.size));
+  const span = maxX - minX;
+  if (span < bodySize * 20) return null;
+
+  // Coverage per 1-unit bin
+  const coverage = new Uint16Array(Math.ceil(span) + 1);
+  for (const fragment of fragments) {
+    const end = Math.min(Math.ceil(fragment.x1 - minX), coverage.length);
+    for (let bin = Math.max(Math.floor(fragment.x0 - minX), 0); bin < end; bin++) coverage[bin]++;
+  }
+  const typical = median(Array.from(coverage).filter((count) => count > 0));
+  // Full-width titles and captions may cross the gutter
+  const threshold = Math.floor(typical * 0.2);
+
+  let best: { start: number; end: number } | null = null;
+  let runStart = -1;
+  const from = Math.floor(span * 0.15);
+  const to = Math.ceil(span * 0.85);
+  for (let bin = from; bin <= to; bin++) {
+    const open = bin < to && coverage[bin] <= threshold;
+    if (open && runStart < 0) runStart = bin;
+    if (!open && runStart >= 0) {
+      if (!best || bin - runStart > best.end - best.start) best = { start: runStart, end: bin };
+      runStart = -1;
+    }
+  }
+  if (!best || best.end - best.start < Math.max(bodySize * 0.8, 4)) return null;
+
+  const gutter = { start: minX + best.start, end: minX + best.end };
+  const middle = (gutter.start + gutter.end) / 2;
+  const left = fragments.filter((fragment) => fragment.x1 <= middle);
+  const right = fragments.filter((fragment) => fragment.x0 >= middle);
+
+  // Both sides need real text running alongside each other
+  const chars = (side: Fragment[]) => side.reduce((sum, fragment) => sum + fragment.text.length, 0);
+  const total = chars(fragments);
+  if (chars(left) < total * 0.2 || chars(right) < total * 0.2) return null;
+  const range = (side: Fragment[]) => [Math.min(...side.map((f) => f.y)), Math.max(...side.map((f) => f.y))];
+  const [leftBottom, leftTop] = range(left);
+  const [rightBottom, rightTop] = range(right);
+  const overlap = Math.min(leftTop, rightTop) - Math.max(leftBottom, rightBottom);
+  if (overlap < Math.min(leftTop - leftBottom, rightTop - rightBottom) * 0.5) return null;
+
+  return gutter;
+}
+
+/**
+ * Split fragments into flows in reading order: full-width bands stay whole,
+ * columns between them are read left to right (recursing for 3+ columns)
+ */
+function splitFlows(fragments: Fragment[], depth = 0): Fragment[][] {
+  const gutter = depth < 3 ? findGutter(fragments) : null;
+  if (!gutter) return fragments.length ? [fragments] : [];
+  const middle = (gutter.start + gutter.end) / 2;
+
+  const flows: Fragment[][] = [];
+  let left: Fragment[] = [];
+  let right: Fragment[] = [];
+  let spanning: Fragment[] = [];
+
+  const flushColumns = () => {
+    flows.push(...splitFlows(left, depth + 1), ...splitFlows(right, depth + 1));
+    left = [];
+    right = [];
+  };
+
+  for (const row of toRows(fragments)) {
+    const leftPart = row.filter((fragment) => (fragment.x0 + fragment.x1) / 2 < middle);
+    const rightPart = row.filter((fragment) => (fragment.x0 + fragment.x1) / 2 >= middle);
+    const crosses = row.some((fragment) => fragment.x0 < gutter.start && fragment.x1 > gutter.end) ||
+      // A heading split into items around the gutter still reads as one line
+      (leftPart.length > 0 && rightPart.length > 0 &&
+        rightPart[0].x0 - leftPart[leftPart.length - 1].x1 < 0.6 * rightPart[0].size);
+
+    if (crosses) {
+      flushColumns();
+      spanning.push(...row);
+    } else {
+      if (spanning.length) flows.push(spanning);
+      spanning = [];
+      left.push(...leftPart);
+      right.push(...rightPart);
+    }
+  }
+  flushColumns();
+  if (spanning.length) flows.push(spanning);
+  return flows;
+}
+
+/**
+ * Join a line's fragments, adding spaces where the gap between them is wider
+ * than letter spacing
+ */
+function composeLine(fragments: Fragment[]): Line {
+  const sorted = [...fragments].sort((a, b) => a.x0 - b.x0);
+  let text = '';
+  let previous: Fragment | null = null;
+  for (const fragment of sorted) {
+    if (previous) {
+      const gap = fragment.x0 - previous.x1;
+      const spaced = /\s$/.test(text) || /^\s/.test(fragment.text);
+      if (!spaced && gap > 0.15 * Math.min(previous.size, fragment.size)) text += ' ';
+    }
+    text += fragment.text;
+    previous = fragment;
+  }
+
+  // Line metrics follow the fragment with the most text
+  const main = sorted.reduce((best, fragment) => (fragment.text.length > best.text.length ? fragment : best));
+  return {
+    text: text.replace(/\s+/g, ' ').trim(),
+    x0: sorted[0].x0,
+    x1: Math.max(...sorted.map((fragment) => fragment.x1)),
+    y: main.y,
+    size: main.size,
+  };
+}
+
+/**
+ * Rebuild a flow's lines. Content order and hasEOL give the line breaks;
+ * pieces of one visual line drawn at different times are merged back.
+ */
+function buildLines(fragments: Fragment[]): Line[] {
+  const groups: Fragment[][] = [];
+  let current: Fragment[] = [];
+  for (const fragment of [...fragments].sort((a, b) => a.order - b.order)) {
+    const previous = current[current.length - 1];
+    const breaks = previous && (
+      previous.eol ||
+      Math.abs(fragment.y - previous.y) > 0.5 * Math.max(fragment.size, previous.size) ||
+      fragment.x0 < previous.x0 - previous.size
+    );
+    if (breaks) {
+      groups.push(current);
+      current = [];
+    }
+    current.push(fragment);
+  }
+  if (current.length) groups.push(current);
+
+  const lines = groups
+    .map((group) => ({ group, y: composeLine(group).y }))
+    .sort((a, b) => b.y - a.y);
+
+  const merged: Fragment[][] = [];
+  let lastY = Infinity;
+  for (const { group, y } of lines) {
+    const previous = merged[merged.length - 1];
+    const size = Math.min(group[0].size, previous?.[0].size ?? Infinity);
+    const overlaps = previous?.some((a) => group.some((b) => a.x0 < b.x1 && b.x0 < a.x1));
+    if (previous && Math.abs(lastY - y) < 0.3 * size && !overlaps) {
+      previous.push(...group);
+    } else {
+      merged.push([...group]);
+      lastY = y;
+    }
+  }
+
+  return merged.map(composeLine).filter((line) => line.text);
+}
+
+function runningLineKey(text: string): string {
+  return text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Lines that could be a header or footer: the top or bottom two lines of
+ * the page, when they sit near its edge
+ */
+function edgeLines(page: PageLayout): Line[] {
+  const lines = page.flows.flat().sort((a, b) => b.y - a.y);
+  const relative = (line: Line) => (line.y - page.bottom) / page.height;
+  return [
+    ...lines.slice(0, 2).filter((line) => relative(line) > 0.85),
+    ...lines.slice(-2).filter((line) => relative(line) < 0.15),
+  ];
+}
+
+/**
+ * Drop running headers, footers and bare page numbers from a page
+ */
+function removeRunningLines(page: PageLayout, runningLines: Set<string>) {
+  const running = new Set(
+    edgeLines(page).filter((line) => PAGE_NUMBER.test(line.text) || runningLines.has(runningLineKey(line.text)))
+  );
+  page.flows = page.flows.map((lines) => lines.filter((line) => !running.has(line)));
+}
+
+/**
+ * Append the next line to a paragraph, joining words split by a hyphen
+ */
+function joinLine(text: string, next: string): string {
+  if (/\p{L}[-\u00ad\u2010]$/u.test(text) && /^\p{Ll}/u.test(next)) return text.slice(0, -1) + next;
+  if (text.endsWith('\u00ad')) return text.slice(0, -1) + next;
+  return `${text} ${next}`;
+}
+
+function headingLevel(size: number, bodySize: number): HeadingLevel {
+  const ratio = size / bodySize;
+  if (ratio >= 1.8) return 1;
+  return ratio >= 1.45 ? 2 : 3;
+}
+
+/**
+ * Group a page's lines into headings, paragraphs and list items
+ */
+function buildParagraphs(flows: Line[][], bodySize: number): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+
+  for (const lines of flows) {
+    if (!lines.length) continue;
+    const left = Math.min(...lines.map((line) => line.x0));
+    const right = Math.max(...lines.map((line) => line.x1));
+    const width = right - left;
+
+    // Typical baseline distance between lines of the same size
+    const gaps: number[] = [];
+    for (let i = 1; i < lines.length; i++) {
+      const gap = lines[i - 1].y - lines[i].y;
+      if (gap > 0 && gap < lines[i].size * 4 && Math.abs(lines[i - 1].size - lines[i].size) < lines[i].size * 0.1) {
+        gaps.push(gap);
+      }
+    }
+    const lineGap = median(gaps) || bodySize * 1.2;
+
+    let current: Paragraph | null = null;
+    lines.forEach((line, i) => {
+      const previous = lines[i - 1];
+      const heading = line.size >= bodySize * 1.2 && line.text.length <= 200 && /\p{L}/u.test(line.text);
+      const bullet = heading ? null : BULLET.exec(line.text);
+
+      let starts = !current || !!bullet;
+      if (current && previous && !starts) {
+        const gap = previous.y - line.y;
+        const expectedGap = heading ? line.size * 1.25 : lineGap;
+        starts = heading !== (current.kind === 'heading') ||
+          Math.abs(line.size - current.size) > current.size * 0.15 ||
+          gap < 0 ||
+          gap > expectedGap * 1.45 ||
+          // List items continue only on hanging-indented lines
+          (current.kind === 'item' && line.x0 <= current.x0 + line.size * 0.3) ||
+          // First-line indent
+          (current.kind === 'paragraph' && line.x0 > left + line.size * 0.8 &&
+            line.x0 - left < width * 0.3 && previous.x0 < left + line.size * 0.5) ||
+          // Previous line stopped short at the end of a sentence
+          (!heading && previous.x1 < right - width * 0.15 && SENTENCE_END.test(previous.text));
+      }
+
+      if (!starts && current) {
+        current.text = joinLine(current.text, line.text);
+        return;
+      }
+
+      // A sentence running on from the previous column
+      const last = paragraphs[paragraphs.length - 1];
+      if (i === 0 && last?.kind === 'paragraph' && !heading && !bullet &&
+          !SENTENCE_END.test(last.text) && /^\p{Ll}/u.test(line.text)) {
+        last.text = joinLine(last.text, line.text);
+        current = last;
+        return;
+      }
+
+      current = {
+        kind: heading ? 'heading' : bullet ? 'item' : 'paragraph',
+        text: bullet ? line.text.slice(bullet[0].length).trim() || line.text : line.text,
+        size: line.size,
+        x0: line.x0,
+        ...(bullet ? { ordered: bullet[1] !== undefined } : {}),
+      };
+      paragraphs.push(current);
+    });
+  }
+
+  return paragraphs;
+}
+
+function toBlocks(paragraphs: Paragraph[], bodySize: number): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  for (const paragraph of paragraphs) {
+    if (paragraph.kind === 'item') {
+      const last = blocks[blocks.length - 1];
+      const ordered = paragraph.ordered ?? false;
+      if (last?.type === 'list' && last.ordered === ordered) last.items.push(textSpans(paragraph.text));
+      else blocks.push({ type: 'list', ordered, items: [textSpans(paragraph.text)] });
+    } else if (paragraph.kind === 'heading') {
+      blocks.push({ type: 'heading', level: headingLevel(paragraph.size, bodySize), spans: textSpans(paragraph.text) });
+    } else {
+      blocks.push({ type: 'paragraph', spans: textSpans(paragraph.text) });
+    }
+  }
+  return blocks;
+}
+
+function pageLayout(page: PdfPageContent): PageLayout {
+  const [, y0 = 0, , y1 = 792] = page.view;
+  return {
+    flows: splitFlows(toFragments(page.items)).map(buildLines),
+    bottom: Math.min(y0, y1),
+    height: Math.abs(y1 - y0) || 792,
+  };
+}
+
+/**
+ * Measure document-wide layout on a sample of pages: text repeated
+ * (ignoring numbers) at the top or bottom of many of them, and the size most
+ * characters are set in
+ */
+export function analyzePdfLayout(sample: PdfPageContent[]): PdfLayoutProfile {
+  const layouts = sample.map(pageLayout);
+
+  const counts = new Map<string, number>();
+  for (const layout of layouts) {
+    for (const key of new Set(edgeLines(layout).map((line) => runningLineKey(line.text)))) {
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+  const minRepeats = Math.max(3, Math.ceil(layouts.length * 0.3));
+  const runningLines = new Set([...counts].filter(([, count]) => count >= minRepeats).map(([key]) => key));
+
+  const sizes = new Map<number, number>();
+  for (const layout of layouts) {
+    removeRunningLines(layout, runningLines);
+    for (const line of layout.flows.flat()) {
+      const size = Math.round(line.size * 2) / 2;
+      sizes.set(size, (sizes.get(size) ?? 0) + line.text.length);
+    }
+  }
+  const bodySize = [...sizes.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 10;
+
+  return { runningLines, bodySize };
+}
+
+/**
+ * Reconstruct one page's blocks from its positioned text items
+ */
+export function layoutPdfPage(page: PdfPageContent, profile: PdfLayoutProfile): DocumentBlock[] {
+  const layout = pageLayout(page);
+  removeRunningLines(layout, profile.runningLines);
+  return toBlocks(buildParagraphs(layout.flows, profile.bodySize), profile.bodySize);
+}
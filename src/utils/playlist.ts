@@ -0,0 +1,54 @@
+/**
+ * Background video playlist
+ * The user's own clips, stored in IndexedDB as blobs so they play offline
+ * and survive reloads.
+ */
+
+import type { PlaylistVideo } from '../types';
+import { createId, openDatabase, promisifyRequest, STORES, transactionDone } from './database';
+
+/**
+ * All playlist videos, in the order they were added
+ */
+export async function listPlaylist(): Promise<PlaylistVideo[]> {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.videos).objectStore(STORES.videos);
+  const videos = await promisifyRequest(store.getAll() as IDBRequest<PlaylistVideo[]>);
+  return videos.sort((a, b) => a.addedAt - b.addedAt);
+}
+
+/**
+ * Store video files at the end of the playlist. Files that aren't videos
+ * are skipped.
+ */
+export async function addToPlaylist(files: File[]): Promise<PlaylistVideo[]> {
+  const now = Date.now();
+  const videos = files
+    .filter((file) => file.type.startsWith('video/'))
+    .map(
+      (file, index): PlaylistVideo => ({
+        id: createId(),
+        name: file.name,
+        type: file.type,
+        size: file.size,
+        // Keep the picked order
+        addedAt: now + index,
+        blob: file,
+      })
+    );
+  if (videos.length === 0) return [];
+
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.videos, 'readwrite');
+  const store = transaction.objectStore(STORES.videos);
+  for (const video of videos) store.put(video);
+  await transactionDone(transaction);
+  return videos;
+}
+
+export async function removeFromPlaylist(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.videos, 'readwrite');
+  transaction.objectStore(STORES.videos).delete(id);
+  await transactionDone(transaction);
+}
@@ -0,0 +1,216 @@
+/**
+ * Comprehension checkpoint quizzes
+ * Questions are made locally from the chunks just read: a sentence with a
+ * key word left out, and a sentence to pick out from ones that weren't in
+ * the section.
+ */
+
+import type { ChunkKind, TextChunk } from '../types';
+import { splitSentences } from './chunking';
+
+export type QuizQuestionKind = 'blank' | 'sentence';
+
+export interface QuizQuestion {
+  kind: QuizQuestionKind;
+  prompt: string;
+  /** Sentence with a gap where the answer goes, for blanks */
+  text?: string;
+  options: string[];
+  /** Index of the right option */
+  answer: number;
+}
+
+const OPTION_COUNT = 4;
+const MIN_SENTENCE_WORDS = 6;
+const MAX_SENTENCE_WORDS = 40;
+const MIN_KEYWORD_LENGTH = 5;
+export const BLANK = '_____';
+
+/** Headings, code and images don't make fair questions */
+const QUIZ_KINDS = new Set<ChunkKind>(['paragraph', 'listItem', 'quote']);
+
+// Long but common words that say nothing about the text
+const STOP_WORDS = new Set([
+  'about', 'above', 'across', 'after', 'again', 'against', 'almost', 'along', 'already', 'although', 'always',
+  'among', 'another', 'around', 'because', 'become', 'becomes', 'before', 'behind', 'being', 'below', 'between',
+  'beyond', 'cannot', 'could', 'different', 'during', 'either', 'enough', 'especially', 'every',
+  'everything', 'first', 'found', 'given', 'going', 'great', 'having', 'herself', 'himself', 'however', 'itself',
+  'later', 'least', 'little', 'makes', 'making', 'maybe', 'might', 'myself', 'never', 'nothing', 'often', 'other',
+  'others', 'otherwise', 'perhaps', 'quite', 'rather', 'really', 'right', 'second', 'seems', 'shall', 'should',
+  'since', 'something', 'sometimes', 'still', 'taken', 'their', 'theirs', 'themselves', 'there',
+  'therefore', 'these', 'thing', 'things', 'think', 'those', 'though', 'three', 'through', 'together', 'towards',
+  'under', 'until', 'usually', 'various', 'where', 'whether', 'which', 'while', 'whose',
+  'within', 'without', 'would', 'yourself',
+]);
+
+const WORD_PATTERN = /\p{L}+(?:['’-]\p{L}+)*/gu;
+
+interface Sentence {
+  text: string;
+  /** Key words of the sentence, with their positions */
+  words: RegExpMatchArray[];
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Whole sentences of a reasonable length. Chunks of the same block are
+ * joined first, since a sentence can run across chunks.
+ */
+function findQuizSentences(chunks: TextChunk[]): string[] {
+  const blocks: string[] = [];
+  let lastBlock = -1;
+  for (const chunk of chunks) {
+    if (!QUIZ_KINDS.has(chunk.kind)) continue;
+    if (chunk.blockIndex === lastBlock) {
+      blocks[blocks.length - 1] += ` ${chunk.text}`;
+    } else {
+      blocks.push(chunk.text);
+    }
+    lastBlock = chunk.blockIndex;
+  }
+
+  const sentences: string[] = [];
+  for (const block of blocks) {
+    for (const sentence of splitSentences(block.replace(/\s+/g, ' '))) {
+      const words = sentence.split(' ').length;
+      if (words >= MIN_SENTENCE_WORDS && words <= MAX_SENTENCE_WORDS) sentences.push(sentence);
+    }
+  }
+  return sentences;
+}
+
+function isKeyWord(word: string): boolean {
+  return word.length >= MIN_KEYWORD_LENGTH && !STOP_WORDS.has(word.toLowerCase());
+}
+
+function isCapitalized(word: string): boolean {
+  return word[0] !== word[0].toLowerCase();
+}
+
+/**
+ * Replace one word of a sentence, at the position it was matched
+ */
+function replaceWord(sentence: string, word: RegExpMatchArray, replacement: string): string {
+  const index = word.index ?? 0;
+  return sentence.slice(0, index) + replacement + sentence.slice(index + word[0].length);
+}
+
+/**
+ * Words that could stand in for `answer` in `sentence`: key words from the
+ * text with the same capitalization, closest in length first
+ */
+function pickDistractorWords(
+  answer: string,
+  vocabulary: string[],
+  sentence: string,
+  count: number,
+  random: () => number
+): string[] {
+  // Words of the sentence itself would give the answer away
+  const seen = new Set((sentence.match(WORD_PATTERN) ?? []).map((word) => word.toLowerCase()));
+  seen.add(answer.toLowerCase());
+  const candidates: string[] = [];
+  for (const word of shuffle(vocabulary, random)) {
+    const key = word.toLowerCase();
+    if (seen.has(key) || isCapitalized(word) !== isCapitalized(answer)) continue;
+    seen.add(key);
+    candidates.push(word);
+  }
+  return candidates
+    .sort((a, b) => Math.abs(a.length - answer.length) - Math.abs(b.length - answer.length))
+    .slice(0, count);
+}
+
+function toQuestion(
+  kind: QuizQuestionKind,
+  prompt: string,
+  answer: string,
+  distractors: string[],
+  random: () => number,
+  text?: string
+): QuizQuestion {
+  const options = shuffle([answer, ...distractors], random);
+  return { kind, prompt, ...(text ? { text } : {}), options, answer: options.indexOf(answer) };
+}
+
+/**
+ * A few questions on `section`. Other chunks of the document (`elsewhere`)
+ * provide wrong answers. Returns no questions when the section has too
+ * little running text to ask about.
+ */
+export function createQuiz(section: TextChunk[], elsewhere: TextChunk[], random = Math.random): QuizQuestion[] {
+  const sentences: Sentence[] = findQuizSentences(section).map((text) => ({
+    text,
+    words: [...text.matchAll(WORD_PATTERN)].filter((word) => isKeyWord(word[0])),
+  }));
+  if (sentences.length === 0) return [];
+
+  const otherSentences = findQuizSentences(elsewhere);
+  const sectionWords = sentences.flatMap((sentence) => sentence.words.map((word) => word[0]));
+  const vocabulary = [
+    ...sectionWords,
+    ...otherSentences.flatMap((sentence) => (sentence.match(WORD_PATTERN) ?? []).filter(isKeyWord)),
+  ];
+  const frequency = new Map<string, number>();
+  for (const word of sectionWords) {
+    const key = word.toLowerCase();
+    frequency.set(key, (frequency.get(key) ?? 0) + 1);
+  }
+
+  const questions: QuizQuestion[] = [];
+  const order = shuffle(sentences, random);
+
+  // Fill in the blank: the word the section comes back to most often, and
+  // names over plain words, are the ones worth remembering
+  const blankSentence = order.find((sentence) => sentence.words.length > 0);
+  if (blankSentence) {
+    const score = (word: RegExpMatchArray) =>
+      (frequency.get(word[0].toLowerCase()) ?? 0) * 2 +
+      (isCapitalized(word[0]) && word.index !== 0 ? 2 : 0) +
+      word[0].length / 10;
+    const word = blankSentence.words.reduce((best, candidate) => (score(candidate) > score(best) ? candidate : best));
+    const distractors = pickDistractorWords(word[0], vocabulary, blankSentence.text, OPTION_COUNT - 1, random);
+    if (distractors.length > 0) {
+      questions.push(
+        toQuestion(
+          'blank',
+          'Which word completes this sentence?',
+          word[0],
+          distractors,
+          random,
+          replaceWord(blankSentence.text, word, BLANK)
+        )
+      );
+    }
+  }
+
+  // Which sentence appeared: wrong options come from elsewhere in the
+  // document, or are the right sentence with a word swapped
+  const appeared = order.find((sentence) => sentence !== blankSentence) ?? order[0];
+  const sectionTexts = new Set(sentences.map((sentence) => sentence.text));
+  const distractors = shuffle(
+    otherSentences.filter((text) => !sectionTexts.has(text)),
+    random
+  ).slice(0, OPTION_COUNT - 2);
+  for (const word of shuffle(appeared.words, random)) {
+    if (distractors.length >= OPTION_COUNT - 1) break;
+    const [swap] = pickDistractorWords(word[0], vocabulary, appeared.text, 1, random);
+    const altered = swap ? replaceWord(appeared.text, word, swap) : null;
+    if (altered && !sectionTexts.has(altered) && !distractors.includes(altered)) distractors.push(altered);
+  }
+  if (distractors.length > 0) {
+    questions.push(
+      toQuestion('sentence', 'Which of these sentences was in what you just read?', appeared.text, distractors, random)
+    );
+  }
+
+  return questions;
+}
@@ -0,0 +1,25 @@
+/**
+ * Reading positions
+ * Saved per document content hash, so a document resumes where it was left
+ * whether it is reopened from the library or imported again.
+ */
+
+import type { ReadingPosition } from '../types';
+import { openDatabase, promisifyRequest, STORES, transactionDone } from './database';
+
+/**
+ * The saved position for a document, or null if it has not been read
+ */
+export async function loadReadingPosition(hash: string): Promise<ReadingPosition | null> {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.positions).objectStore(STORES.positions);
+  const position = await promisifyRequest(store.get(hash) as IDBRequest<ReadingPosition | undefined>);
+  return position ?? null;
+}
+
+export async function saveReadingPosition(hash: string, position: ReadingPosition): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.positions, 'readwrite');
+  transaction.objectStore(STORES.positions).put(position, hash);
+  await transactionDone(transaction);
+}
@@ -0,0 +1,231 @@
+/**
+ * Reading statistics
+ * Reading sessions are stored locally in IndexedDB and summarized here by
+ * day, week, document and setting. Nothing leaves the browser.
+ */
+
+import type { ReadingSession, ReadingSessionSettings } from '../types';
+import { openDatabase, promisifyRequest, STORES, transactionDone } from './database';
+
+export interface StatsTotals {
+  activeMs: number;
+  words: number;
+  chunks: number;
+  sessions: number;
+}
+
+export interface PeriodStats extends StatsTotals {
+  /** Local date the period starts on, as YYYY-MM-DD */
+  key: string;
+  label: string;
+}
+
+export interface DocumentStats extends StatsTotals {
+  key: string;
+  title: string;
+  lastReadAt: number;
+}
+
+export interface SettingStats extends StatsTotals {
+  value: string;
+}
+
+export interface Streaks {
+  /** Days in a row up to today, or up to yesterday if not read yet today */
+  current: number;
+  longest: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * All sessions, oldest first
+ */
+export async function listReadingSessions(): Promise<ReadingSession[]> {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.sessions).objectStore(STORES.sessions);
+  const sessions = await promisifyRequest(store.getAll() as IDBRequest<ReadingSession[]>);
+  return sessions.sort((a, b) => a.startedAt - b.startedAt);
+}
+
+/**
+ * Save a session, replacing an earlier save of the same one
+ */
+export async function saveReadingSession(session: ReadingSession): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.sessions, 'readwrite');
+  transaction.objectStore(STORES.sessions).put(session);
+  await transactionDone(transaction);
+}
+
+/**
+ * Words per minute of active reading, or 0 without enough time to tell
+ */
+export function getWpm({ words, activeMs }: Pick<StatsTotals, 'words' | 'activeMs'>): number {
+  return activeMs >= 1000 ? Math.round(words / (activeMs / 60000)) : 0;
+}
+
+/**
+ * Average time per chunk; RSVP sessions have no chunks and don't count
+ */
+export function getMsPerChunk(sessions: ReadingSession[]): number {
+  const chunked = sessions.filter((session) => session.chunks > 0);
+  const totals = sumSessions(chunked);
+  return totals.chunks > 0 ? totals.activeMs / totals.chunks : 0;
+}
+
+function emptyTotals(): StatsTotals {
+  return { activeMs: 0, words: 0, chunks: 0, sessions: 0 };
+}
+
+function addSession(totals: StatsTotals, session: ReadingSession) {
+  totals.activeMs += session.activeMs;
+  totals.words += session.words;
+  totals.chunks += session.chunks;
+  totals.sessions++;
+}
+
+export function sumSessions(sessions: ReadingSession[]): StatsTotals {
+  const totals = emptyTotals();
+  for (const session of sessions) addSession(totals, session);
+  return totals;
+}
+
+/**
+ * Local calendar date of a timestamp, as YYYY-MM-DD
+ */
+export function toDayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function startOfDay(timestamp: number): Date {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date;
+}
+
+/**
+ * Monday of the week a timestamp falls in
+ */
+function startOfWeek(timestamp: number): Date {
+  const date = startOfDay(timestamp);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date;
+}
+
+function groupByPeriod(
+  sessions: ReadingSession[],
+  starts: Date[],
+  periodStart: (timestamp: number) => Date,
+  label: (date: Date) => string
+): PeriodStats[] {
+  const periods = new Map<string, PeriodStats>(
+    starts.map((date) => {
+      const key = toDayKey(date.getTime());
+      return [key, { key, label: label(date), ...emptyTotals() }];
+    })
+  );
+  for (const session of sessions) {
+    const period = periods.get(toDayKey(periodStart(session.startedAt).getTime()));
+    if (period) addSession(period, session);
+  }
+  return [...periods.values()];
+}
+
+/**
+ * Totals for each of the last `count` days, oldest first
+ */
+export function statsByDay(sessions: ReadingSession[], count: number, now = Date.now()): PeriodStats[] {
+  const today = startOfDay(now);
+  const days = Array.from({ length: count }, (_, index) => {
+    const date = new Date(today);
+    date.setDate(today.getDate() - (count - 1 - index));
+    return date;
+  });
+  return groupByPeriod(sessions, days, startOfDay, (date) =>
+    date.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric' })
+  );
+}
+
+/**
+ * Totals for each of the last `count` weeks (Monday to Sunday), oldest first
+ */
+export function statsByWeek(sessions: ReadingSession[], count: number, now = Date.now()): PeriodStats[] {
+  const thisWeek = startOfWeek(now);
+  const weeks = Array.from({ length: count }, (_, index) => {
+    const date = new Date(thisWeek);
+    date.setDate(thisWeek.getDate() - 7 * (count - 1 - index));
+    return date;
+  });
+  return groupByPeriod(sessions, weeks, startOfWeek, (date) =>
+    date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+  );
+}
+
+/**
+ * Totals per document, most recently read first. Documents are matched by
+ * content hash, or by title when there is none.
+ */
+export function statsByDocument(sessions: ReadingSession[]): DocumentStats[] {
+  const documents = new Map<string, DocumentStats>();
+  for (const session of sessions) {
+    const key = session.documentHash ?? `title:${session.title}`;
+    const stats = documents.get(key) ?? { key, title: session.title, lastReadAt: 0, ...emptyTotals() };
+    addSession(stats, session);
+    if (session.endedAt >= stats.lastReadAt) {
+      stats.lastReadAt = session.endedAt;
+      // Show the latest name, after renames
+      stats.title = session.title;
+    }
+    documents.set(key, stats);
+  }
+  return [...documents.values()].sort((a, b) => b.lastReadAt - a.lastReadAt);
+}
+
+/**
+ * Totals for each value a setting had while reading, most time first
+ */
+export function statsBySetting(
+  sessions: ReadingSession[],
+  setting: keyof ReadingSessionSettings
+): SettingStats[] {
+  const values = new Map<string, SettingStats>();
+  for (const session of sessions) {
+    const value = String(session.settings[setting]);
+    const stats = values.get(value) ?? { value, ...emptyTotals() };
+    addSession(stats, session);
+    values.set(value, stats);
+  }
+  return [...values.values()].sort((a, b) => b.activeMs - a.activeMs);
+}
+
+/**
+ * Runs of consecutive days with any reading
+ */
+export function getStreaks(sessions: ReadingSession[], now = Date.now()): Streaks {
+  const days = [...new Set(sessions.map((session) => startOfDay(session.startedAt).getTime()))].sort(
+    (a, b) => a - b
+  );
+
+  let longest = 0;
+  let run = 0;
+  for (const [index, day] of days.entries()) {
+    // Rounded, since days around clock changes aren't exactly 24 hours
+    run = index > 0 && Math.round((day - days[index - 1]) / DAY_MS) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  const read = new Set(days);
+  const cursor = startOfDay(now);
+  if (!read.has(cursor.getTime())) cursor.setDate(cursor.getDate() - 1);
+  let current = 0;
+  while (read.has(cursor.getTime())) {
+    current++;
+    cursor.setDate(cursor.getDate() - 1);
+  }
+
+  return { current, longest };
+}
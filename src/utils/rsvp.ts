@@ -0,0 +1,149 @@
+import type { TextChunk } from '../types';
+import { splitSentences } from './chunking';
+
+/**
+ * One RSVP frame: a word or short phrase shown at the fixed focus point
+ */
+export interface RsvpFrame {
+  text: string;
+  /** Index of the optimal recognition point character in `text` */
+  orp: number;
+  wordCount: number;
+  sentenceIndex: number;
+  /** Id of the reading chunk the frame comes from */
+  chunkId: number;
+  /** Multiplier applied to the base per-word duration */
+  delayFactor: number;
+}
+
+// Pause multipliers for punctuation and structure
+const CLAUSE_DELAY = 1.6;
+const SENTENCE_DELAY = 2.2;
+const PARAGRAPH_DELAY = 3;
+const LONG_WORD_DELAY = 1.3;
+const LONG_WORD_LENGTH = 9;
+
+/**
+ * Optimal recognition point: slightly left of center, ignoring leading
+ * punctuation. Phrases use a point about a third of the way in.
+ */
+export function getOrpIndex(text: string): number {
+  const leading = text.match(/^[^\p{L}\p{N}]*/u)?.[0].length ?? 0;
+  const core = text.slice(leading).replace(/[^\p{L}\p{N}]+$/u, '');
+  const length = core.length;
+
+  if (length === 0) return 0;
+  if (/\s/.test(core)) {
+    let index = leading + Math.floor(length * 0.35);
+    while (index > leading && /\s/.test(text[index])) index--;
+    return index;
+  }
+  if (length <= 1) return leading;
+  if (length <= 5) return leading + 1;
+  if (length <= 9) return leading + 2;
+  if (length <= 13) return leading + 3;
+  return leading + 4;
+}
+
+/**
+ * How much longer than usual a frame should stay on screen
+ */
+function getDelayFactor(text: string, isSentenceEnd: boolean, isParagraphEnd: boolean): number {
+  if (isParagraphEnd) return PARAGRAPH_DELAY;
+  if (isSentenceEnd || /[.!?…]["'”’)\]]*$/.test(text)) return SENTENCE_DELAY;
+  if (/[,;:—–]["'”’)\]]*$/.test(text)) return CLAUSE_DELAY;
+  const longest = Math.max(...text.split(/\s+/).map((word) => word.length));
+  return longest >= LONG_WORD_LENGTH ? LONG_WORD_DELAY : 1;
+}
+
+/**
+ * Break reading chunks into RSVP frames of up to `wordsPerFrame` words.
+ * Frames never span sentences, and phrases also break after clause punctuation.
+ */
+export function buildRsvpFrames(chunks: TextChunk[], wordsPerFrame: number): RsvpFrame[] {
+  const frames: RsvpFrame[] = [];
+  const size = Math.max(1, Math.round(wordsPerFrame));
+  let sentenceIndex = 0;
+
+  for (const chunk of chunks) {
+    const sentences = splitSentences(chunk.text).filter(Boolean);
+
+    sentences.forEach((sentence, index) => {
+      const words = sentence.split(/\s+/).filter(Boolean);
+      const isLastSentence = index === sentences.length - 1;
+      let phrase: string[] = [];
+
+      const flush = (isSentenceEnd: boolean) => {
+        if (phrase.length === 0) return;
+        const text = phrase.join(' ');
+        frames.push({
+          text,
+          orp: getOrpIndex(text),
+          wordCount: phrase.length,
+          sentenceIndex,
+          chunkId: chunk.id,
+          delayFactor: getDelayFactor(text, isSentenceEnd, isSentenceEnd && isLastSentence && chunk.isParagraphEnd),
+        });
+        phrase = [];
+      };
+
+      words.forEach((word, wordIndex) => {
+        phrase.push(word);
+        const isSentenceEnd = wordIndex === words.length - 1;
+        if (isSentenceEnd || phrase.length >= size || /[,;:]$/.test(word)) {
+          flush(isSentenceEnd);
+        }
+      });
+
+      sentenceIndex++;
+    });
+  }
+
+  return frames;
+}
+
+/**
+ * Display time for a frame at the given words-per-minute
+ */
+export function getFrameDuration(frame: RsvpFrame, wpm: number): number {
+  return (60000 / wpm) * frame.wordCount * frame.delayFactor;
+}
+
+/**
+ * Index of the first frame of the sentence containing `index`
+ */
+function findSentenceStart(frames: RsvpFrame[], index: number): number {
+  let start = index;
+  while (start > 0 && frames[start - 1].sentenceIndex === frames[index].sentenceIndex) start--;
+  return start;
+}
+
+/**
+ * Where "rewind" should go: the start of the current sentence, or the
+ * previous sentence when already at a sentence start
+ */
+export function findSentenceRewindIndex(frames: RsvpFrame[], index: number): number {
+  if (frames.length === 0) return 0;
+  const start = findSentenceStart(frames, index);
+  if (start < index || start === 0) return start;
+  return findSentenceStart(frames, start - 1);
+}
+
+/**
+ * Index of the first frame of the next sentence
+ */
+export function findNextSentenceIndex(frames: RsvpFrame[], index: number): number {
+  const current = frames[index]?.sentenceIndex;
+  let next = index;
+  while (next < frames.length - 1 && frames[next].sentenceIndex === current) next++;
+  return next;
+}
+
+/**
+ * Index of the first frame of a reading chunk, or of the next chunk with
+ * frames when that one has none
+ */
+export function findChunkFrameIndex(frames: RsvpFrame[], chunkId: number): number {
+  const index = frames.findIndex((frame) => frame.chunkId >= chunkId);
+  return index === -1 ? Math.max(frames.length - 1, 0) : index;
+}
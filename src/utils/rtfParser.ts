@@ -0,0 +1,352 @@
+/**
+ * RTF → document blocks
+ * A single-pass reader for the RTF group/control-word syntax that keeps
+ * paragraphs, heading styles, list items, bold/italic and field results.
+ */
+
+import type { DocumentBlock, HeadingLevel, InlineMark, InlineSpan } from '../types';
+import { normalizeSpans, spansToText } from './documentModel';
+
+export interface RtfDocument {
+  title?: string;
+  blocks: DocumentBlock[];
+}
+
+// Destinations whose content is not part of the body text
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'shp', 'shppict', 'nonshppict',
+  'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr', 'footerf',
+  'footnote', 'annotation', 'fldinst', 'listtable', 'listoverridetable', 'revtbl', 'rsidtbl',
+  'pntext', 'listtext', 'pntxta', 'pntxtb', 'xmlnstbl', 'themedata', 'colorschememapping',
+  'latentstyles', 'datastore', 'generator', 'bkmkstart', 'bkmkend', 'filetbl', 'template',
+]);
+
+const SYMBOLS: Record<string, string> = {
+  emdash: '—', endash: '–', bullet: '•', lquote: '‘', rquote: '’',
+  ldblquote: '“', rdblquote: '”', tab: ' ', emspace: ' ', enspace: ' ', qmspace: ' ',
+};
+
+interface GroupState {
+  destination: string | null;
+  bold: boolean;
+  italic: boolean;
+  unicodeSkip: number;
+}
+
+interface StyleInfo {
+  name: string;
+  heading?: HeadingLevel;
+}
+
+function headingFromName(name: string): HeadingLevel | undefined {
+  const match = /^heading\s*(\d)/i.exec(name.trim());
+  if (match) return Math.min(Math.max(parseInt(match[1], 10), 1), 6) as HeadingLevel;
+  return /^title$/i.test(name.trim()) ? 1 : undefined;
+}
+
+/**
+ * Parse an RTF document. The source should be decoded as Latin-1 so each
+ * character maps to one byte.
+ */
+export function parseRtf(source: string): RtfDocument {
+  if (!source.startsWith('{\\rtf')) throw new Error('Not an RTF document (missing {\\rtf header)');
+
+  const blocks: DocumentBlock[] = [];
+  const styles = new Map<number, StyleInfo>();
+  let decoder = new TextDecoder('windows-1252');
+  let title = '';
+
+  let state: GroupState = { destination: null, bold: false, italic: false, unicodeSkip: 1 };
+  const stack: GroupState[] = [];
+
+  // Current paragraph
+  let spans: InlineSpan[] = [];
+  let styleIndex = 0;
+  let outlineLevel: number | undefined;
+  let isListItem = false;
+  let listMarker = '';
+  let listItems: { ordered: boolean; spans: InlineSpan[] }[] = [];
+
+  // Style sheet entry being read
+  let styleEntry: { index: number; name: string } | null = null;
+  let stylesheetDepth = -1;
+
+  let pendingBytes: number[] = [];
+  let skipChars = 0;
+
+  const appendText = (text: string) => {
+    if (!text) return;
+    if (state.destination === 'title') {
+      title += text;
+      return;
+    }
+    if (state.destination === 'stylesheet') {
+      if (styleEntry) styleEntry.name += text;
+      return;
+    }
+    if (state.destination === 'pntext' || state.destination === 'listtext') {
+      listMarker += text;
+      return;
+    }
+    if (state.destination) return;
+
+    const marks: InlineMark[] = [];
+    if (state.bold) marks.push('bold');
+    if (state.italic) marks.push('italic');
+    const last = spans[spans.length - 1];
+    if (last && (last.marks ?? []).join() === marks.join()) last.text += text;
+    else spans.push({ text, ...(marks.length ? { marks } : {}) });
+  };
+
+  const flushBytes = () => {
+    if (!pendingBytes.length) return;
+    const text = decoder.decode(new Uint8Array(pendingBytes));
+    pendingBytes = [];
+    appendText(text);
+  };
+
+  const flushList = () => {
+    if (!listItems.length) return;
+    blocks.push({ type: 'list', ordered: listItems[0].ordered, items: listItems.map((item) => item.spans) });
+    listItems = [];
+  };
+
+  const endParagraph = () => {
+    flushBytes();
+    // Table rows end with a cell mark
+    const last = spans[spans.length - 1];
+    if (last) last.text = last.text.replace(/ · \s*$/, '');
+    const normalized = normalizeSpans(spans);
+    spans = [];
+    const marker = listMarker.trim();
+    listMarker = '';
+    if (!spansToText(normalized).trim()) return;
+
+    if (isListItem || marker) {
+      const ordered = /^[(]?[0-9ivxlcdm]+[.)]/i.test(marker) || /^[a-z][.)]$/i.test(marker);
+      if (listItems.length && listItems[0].ordered !== ordered) flushList();
+      listItems.push({ ordered, spans: normalized });
+      return;
+    }
+
+    flushList();
+    const level = styles.get(styleIndex)?.heading ??
+      (outlineLevel !== undefined && outlineLevel < 9 ? (Math.min(outlineLevel + 1, 6) as HeadingLevel) : undefined);
+    blocks.push(level ? { type: 'heading', level, spans: normalized } : { type: 'paragraph', spans: normalized });
+  };
+
+  const handleControlWord = (word: string, param: number | null) => {
+    // Style sheet: remember each style's number and name
+    if (state.destination === 'stylesheet') {
+      if (styleEntry && (word === 's' || word === 'cs' || word === 'ds' || word === 'ts')) {
+        styleEntry.index = word === 's' ? param ?? 0 : -1;
+      }
+      return;
+    }
+
+    switch (word) {
+      case 'ansicpg':
+        if (param !== null) {
+          try {
+            decoder = new TextDecoder(`windows-${param}`);
+          } catch {
+            // Unknown code page; keep the default
+          }
+        }
+        return;
+      case 'uc':
+        state.unicodeSkip = param ?? 1;
+        return;
+      case 'u':
+        if (param !== null) {
+          flushBytes();
+          appendText(String.fromCharCode(param < 0 ? param + 0x10000 : param));
+          skipChars = state.unicodeSkip;
+        }
+        return;
+      case 'par':
+      case 'sect':
+      case 'page':
+      case 'row':
+        endParagraph();
+        return;
+      case 'line':
+        flushBytes();
+        appendText('\n');
+        return;
+      case 'cell':
+        flushBytes();
+        appendText(' · ');
+        return;
+      case 'pard':
+        styleIndex = 0;
+        outlineLevel = undefined;
+        isListItem = false;
+        return;
+      case 's':
+        styleIndex = param ?? 0;
+        return;
+      case 'outlinelevel':
+        outlineLevel = param ?? undefined;
+        return;
+      case 'ls':
+      case 'ilvl':
+      case 'pnlvlblt':
+      case 'pnlvlbody':
+        isListItem = true;
+        return;
+      case 'b':
+        state.bold = param !== 0;
+        return;
+      case 'i':
+        state.italic = param !== 0;
+        return;
+      case 'plain':
+        state.bold = false;
+        state.italic = false;
+        return;
+    }
+
+    const symbol = SYMBOLS[word];
+    if (symbol) {
+      flushBytes();
+      appendText(symbol);
+    }
+  };
+
+  let ignorableNext = false;
+  let groupStart = false;
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '{' || char === '}') {
+      flushBytes();
+      const isStyleGroup = state.destination === 'stylesheet' && stack.length === stylesheetDepth + 1;
+      if (char === '{') {
+        stack.push(state);
+        state = { ...state };
+        groupStart = true;
+        // Each style definition is a group directly inside the style sheet
+        if (state.destination === 'stylesheet' && stack.length === stylesheetDepth + 1) {
+          styleEntry = { index: 0, name: '' };
+        }
+      } else {
+        if (isStyleGroup && styleEntry) {
+          const name = styleEntry.name.replace(/;\s*$/, '').trim();
+          if (styleEntry.index >= 0) styles.set(styleEntry.index, { name, heading: headingFromName(name) });
+          styleEntry = null;
+        }
+        state = stack.pop() ?? state;
+        groupStart = false;
+      }
+      ignorableNext = false;
+      skipChars = 0;
+      i++;
+      continue;
+    }
+
+    if (char === '\\') {
+      const next = source[i + 1];
+
+      if (next !== undefined && /[a-zA-Z]/.test(next)) {
+        const match = /^\\([a-zA-Z]{1,32})(-?\d{1,10})? ?/.exec(source.slice(i, i + 48))!;
+        const word = match[1];
+        const param = match[2] !== undefined ? parseInt(match[2], 10) : null;
+        i += match[0].length;
+
+        if (word === 'bin' && param) {
+          // Raw binary data
+          i += param;
+          continue;
+        }
+
+        if (groupStart) {
+          groupStart = false;
+          if (word === 'title' && state.destination === 'info') {
+            state.destination = 'title';
+            continue;
+          }
+          if ((SKIPPED_DESTINATIONS.has(word) || ignorableNext) && !state.destination) {
+            flushBytes();
+            state.destination = word;
+            if (word === 'stylesheet') stylesheetDepth = stack.length;
+            ignorableNext = false;
+            continue;
+          }
+        }
+        ignorableNext = false;
+
+        if (state.destination && state.destination !== 'stylesheet' && word !== 'u') continue;
+        if (word !== 'u') flushBytes();
+        handleControlWord(word, param);
+        continue;
+      }
+
+      // Control symbols
+      i += 2;
+      switch (next) {
+        case '*':
+          ignorableNext = true;
+          continue;
+        case "'": {
+          const byte = parseInt(source.slice(i, i + 2), 16);
+          i += 2;
+          if (skipChars > 0) {
+            skipChars--;
+          } else if (!Number.isNaN(byte)) {
+            pendingBytes.push(byte);
+          }
+          continue;
+        }
+        case '\\':
+        case '{':
+        case '}':
+          flushBytes();
+          if (skipChars > 0) skipChars--;
+          else appendText(next);
+          continue;
+        case '~':
+          flushBytes();
+          appendText(' ');
+          continue;
+        case '_':
+          flushBytes();
+          appendText('-');
+          continue;
+        case '\n':
+        case '\r':
+          endParagraph();
+          continue;
+        default:
+          // Optional hyphen (\-) and other symbols carry no text
+          continue;
+      }
+    }
+
+    groupStart = false;
+    i++;
+
+    if (char === '\n' || char === '\r') continue;
+    if (skipChars > 0) {
+      skipChars--;
+      continue;
+    }
+
+    // Raw 8-bit characters are code page bytes like \'hh escapes
+    const code = char.charCodeAt(0);
+    if (code >= 0x80) {
+      pendingBytes.push(code & 0xff);
+      continue;
+    }
+    flushBytes();
+    appendText(char);
+  }
+
+  endParagraph();
+  flushList();
+
+  const cleanTitle = title.replace(/\s+/g, ' ').trim();
+  return { blocks, ...(cleanTitle ? { title: cleanTitle } : {}) };
+}
@@ -0,0 +1,599 @@
+import type { RunnerStyle } from '../types';
+
+/**
+ * Colors and scenery for one look of the background runner
+ */
+export interface RunnerPalette {
+  label: string;
+  skyTop: string;
+  skyBottom: string;
+  sun?: string;
+  scenery: string;
+  sceneryShape: 'buildings' | 'hills' | 'mountains' | 'dunes';
+  ground: string;
+  track: string;
+  rail: string;
+  tie: string;
+  barrier: string;
+  barrierStripe: string;
+  train: string;
+  trainShade: string;
+  window: string;
+  coin: string;
+  runner: string;
+  skin: string;
+}
+
+export const RUNNER_STYLES: Record<RunnerStyle, RunnerPalette> = {
+  subway: {
+    label: 'Subway',
+    skyTop: '#6ec6ff',
+    skyBottom: '#d8f1ff',
+    scenery: '#8a9bb0',
+    sceneryShape: 'buildings',
+    ground: '#7b7f86',
+    track: '#5b5047',
+    rail: '#c9ced6',
+    tie: '#3e342c',
+    barrier: '#f4f4f4',
+    barrierStripe: '#e53935',
+    train: '#d84343',
+    trainShade: '#a83030',
+    window: '#bfe6ff',
+    coin: '#ffd23f',
+    runner: '#2f6fed',
+    skin: '#f2c29b',
+  },
+  neon: {
+    label: 'Neon',
+    skyTop: '#0b0221',
+    skyBottom: '#3d0f5c',
+    sun: '#ff6ec7',
+    scenery: '#5a1a8c',
+    sceneryShape: 'mountains',
+    ground: '#12052a',
+    track: '#1a0840',
+    rail: '#00f0ff',
+    tie: '#ff2e97',
+    barrier: '#00f0ff',
+    barrierStripe: '#12052a',
+    train: '#7a1fff',
+    trainShade: '#4f12a8',
+    window: '#00f0ff',
+    coin: '#fff03d',
+    runner: '#00ff88',
+    skin: '#ffe0f0',
+  },
+  forest: {
+    label: 'Forest',
+    skyTop: '#9ed8c9',
+    skyBottom: '#e6f4d8',
+    scenery: '#4f8a5b',
+    sceneryShape: 'hills',
+    ground: '#3f6e3a',
+    track: '#8b6a45',
+    rail: '#6b4f33',
+    tie: '#5a4128',
+    barrier: '#7a5230',
+    barrierStripe: '#a4733f',
+    train: '#5d4a3a',
+    trainShade: '#46372b',
+    window: '#c8e6a0',
+    coin: '#ffd23f',
+    runner: '#e76f51',
+    skin: '#f2c29b',
+  },
+  desert: {
+    label: 'Desert',
+    skyTop: '#ff9a5a',
+    skyBottom: '#ffe2a8',
+    sun: '#fff3c4',
+    scenery: '#d9925b',
+    sceneryShape: 'dunes',
+    ground: '#e3b778',
+    track: '#c99a5c',
+    rail: '#8d6a44',
+    tie: '#9c7446',
+    barrier: '#b5653a',
+    barrierStripe: '#f1d2a0',
+    train: '#2a7f8f',
+    trainShade: '#1e5f6b',
+    window: '#ffe9c2',
+    coin: '#fff3b0',
+    runner: '#6a4c93',
+    skin: '#e0a985',
+  },
+};
+
+type ObstacleKind = 'barrier' | 'train' | 'coin';
+
+interface Obstacle {
+  kind: ObstacleKind;
+  /** -1, 0 or 1 from left to right */
+  lane: number;
+  /** Distance along the track where the obstacle starts */
+  z: number;
+  length: number;
+}
+
+export interface RunnerState {
+  random: () => number;
+  time: number;
+  /** How far the camera has travelled along the track */
+  distance: number;
+  speed: number;
+  obstacles: Obstacle[];
+  /** Track position of the next row of obstacles to generate */
+  nextRow: number;
+  /** Current sideways position, moving towards targetLane */
+  lane: number;
+  targetLane: number;
+  /** Seconds into the current jump, or -1 when running on the ground */
+  jump: number;
+}
+
+const LANES = [-1, 0, 1];
+const LANE_WIDTH = 1.3;
+const CAMERA_HEIGHT = 1.8;
+const PLAYER_DEPTH = 3;
+const NEAR_DEPTH = 0.8;
+const VIEW_DISTANCE = 70;
+const TIE_SPACING = 1.2;
+
+const START_SPEED = 9;
+const MAX_SPEED = 16;
+const ACCELERATION = 0.1;
+const LANE_CHANGE_SPEED = 5;
+const JUMP_DURATION = 0.65;
+const JUMP_HEIGHT = 1;
+
+const TRAIN_HEIGHT = 1.6;
+const BARRIER_HEIGHT = 0.55;
+
+/**
+ * Small seeded generator (mulberry32), so each run lays out its own course
+ */
+function createRandom(seed: number): () => number {
+  let value = seed >>> 0;
+  return () => {
+    value = (value + 0x6d2b79f5) >>> 0;
+    let t = value;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Stable pseudo-random value in [0, 1) for a scenery index
+ */
+function hash(index: number): number {
+  const value = Math.sin(index * 12.9898) * 43758.5453;
+  return value - Math.floor(value);
+}
+
+function shuffledLanes(random: () => number): number[] {
+  const lanes = [...LANES];
+  for (let i = lanes.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [lanes[i], lanes[j]] = [lanes[j], lanes[i]];
+  }
+  return lanes;
+}
+
+function addCoins(state: RunnerState, lane: number, z: number, count: number) {
+  for (let i = 0; i < count; i++) {
+    state.obstacles.push({ kind: 'coin', lane, z: z + i * 1.5, length: 0 });
+  }
+}
+
+/**
+ * Generate the next row of obstacles. Trains never fill every lane, so
+ * there is always a way through; barriers can be jumped.
+ */
+function spawnRow(state: RunnerState) {
+  const { random } = state;
+  const z = state.nextRow;
+  const lanes = shuffledLanes(random);
+  const roll = random();
+  let rowLength = 1;
+
+  if (roll < 0.45) {
+    const count = random() < 0.5 ? 1 : 2;
+    for (const lane of lanes.slice(0, count)) {
+      const length = 8 + Math.floor(random() * 10);
+      const offset = random() * 3;
+      state.obstacles.push({ kind: 'train', lane, z: z + offset, length });
+      rowLength = Math.max(rowLength, offset + length);
+    }
+    if (random() < 0.6) addCoins(state, lanes[count], z, 6);
+  } else if (roll < 0.8) {
+    const count = 1 + Math.floor(random() * 3);
+    for (const lane of lanes.slice(0, count)) {
+      state.obstacles.push({ kind: 'barrier', lane, z, length: 0.25 });
+    }
+    if (count < 3 && random() < 0.5) addCoins(state, lanes[count], z - 3, 5);
+  } else {
+    addCoins(state, lanes[0], z, 8);
+    rowLength = 12;
+  }
+
+  state.nextRow = z + rowLength + 10 + random() * 12;
+}
+
+export function createRunner(seed: number): RunnerState {
+  const state: RunnerState = {
+    random: createRandom(seed),
+    time: 0,
+    distance: 0,
+    speed: START_SPEED,
+    obstacles: [],
+    nextRow: PLAYER_DEPTH + 20,
+    lane: 0,
+    targetLane: 0,
+    jump: -1,
+  };
+  while (state.nextRow < VIEW_DISTANCE) spawnRow(state);
+  return state;
+}
+
+/**
+ * Advance the run by `dt` seconds, in place. The runner steers itself:
+ * it changes lanes around trains, jumps barriers and wanders between
+ * free lanes now and then.
+ */
+export function stepRunner(state: RunnerState, dt: number) {
+  state.time += dt;
+  state.speed = Math.min(state.speed + ACCELERATION * dt, MAX_SPEED);
+  state.distance += state.speed * dt;
+  while (state.nextRow < state.distance + VIEW_DISTANCE) spawnRow(state);
+
+  const playerZ = state.distance + PLAYER_DEPTH;
+  state.obstacles = state.obstacles.filter(
+    (obstacle) =>
+      obstacle.z + obstacle.length > state.distance + NEAR_DEPTH &&
+      // Coins in the runner's lane are picked up
+      !(obstacle.kind === 'coin' && obstacle.z < playerZ && Math.abs(obstacle.lane - state.lane) < 0.5)
+  );
+
+  const isBlocked = (lane: number, seconds: number) =>
+    state.obstacles.some(
+      (obstacle) =>
+        obstacle.kind === 'train' &&
+        obstacle.lane === lane &&
+        obstacle.z < playerZ + state.speed * seconds &&
+        obstacle.z + obstacle.length > playerZ - 0.5
+    );
+  // A lane is worth moving to if it's clear well ahead and the lanes
+  // crossed on the way are clear for as long as the move takes
+  const current = Math.round(state.lane);
+  const canReach = (lane: number) =>
+    !isBlocked(lane, 1.5) &&
+    LANES.every((other) => (other - current) * (other - lane) >= 0 || !isBlocked(other, 0.4));
+
+  if (isBlocked(state.targetLane, 1.5)) {
+    const free = LANES.filter(canReach).sort((a, b) => Math.abs(a - state.lane) - Math.abs(b - state.lane));
+    if (free.length > 0) state.targetLane = free[0];
+  } else if (state.lane === state.targetLane && state.random() < dt * 0.3) {
+    const lane = LANES[Math.floor(state.random() * LANES.length)];
+    if (canReach(lane)) state.targetLane = lane;
+  }
+
+  const delta = state.targetLane - state.lane;
+  state.lane += Math.sign(delta) * Math.min(Math.abs(delta), LANE_CHANGE_SPEED * dt);
+
+  if (state.jump >= 0) {
+    state.jump += dt;
+    if (state.jump >= JUMP_DURATION) state.jump = -1;
+  } else {
+    const lane = Math.round(state.lane);
+    const jumpAt = playerZ + state.speed * 0.3;
+    const barrierAhead = state.obstacles.some(
+      (obstacle) =>
+        obstacle.kind === 'barrier' && obstacle.lane === lane && obstacle.z > playerZ && obstacle.z < jumpAt
+    );
+    if (barrierAhead) state.jump = 0;
+  }
+}
+
+interface View {
+  width: number;
+  height: number;
+  horizon: number;
+  focal: number;
+  cameraX: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+/**
+ * Perspective projection of a track position onto the canvas
+ */
+function project(view: View, x: number, y: number, depth: number): Point {
+  const scale = view.focal / depth;
+  return {
+    x: view.width / 2 + (x - view.cameraX) * scale,
+    y: view.horizon + (CAMERA_HEIGHT - y) * scale,
+    scale,
+  };
+}
+
+function fillPolygon(ctx: CanvasRenderingContext2D, color: string, points: Point[]) {
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+  for (const point of points.slice(1)) ctx.lineTo(point.x, point.y);
+  ctx.closePath();
+  ctx.fill();
+}
+
+function drawScenery(ctx: CanvasRenderingContext2D, view: View, palette: RunnerPalette, distance: number) {
+  const { width, height, horizon } = view;
+  // Far away, so it drifts slowly
+  const shift = distance * 3 + view.cameraX * 20;
+
+  if (palette.sun) {
+    ctx.fillStyle = palette.sun;
+    ctx.beginPath();
+    ctx.arc(width * 0.68, horizon - height * 0.12, height * 0.09, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  ctx.fillStyle = palette.scenery;
+  if (palette.sceneryShape === 'buildings') {
+    const unit = Math.max(height / 12, 30);
+    const first = Math.floor(shift / unit) - 1;
+    for (let index = first; index * unit - shift < width + unit; index++) {
+      const buildingWidth = unit * (0.6 + 0.4 * hash(index));
+      const buildingHeight = height * (0.06 + 0.2 * hash(index + 0.5));
+      ctx.fillRect(index * unit - shift, horizon - buildingHeight, buildingWidth, buildingHeight);
+    }
+  } else if (palette.sceneryShape === 'mountains') {
+    const unit = Math.max(height / 5, 80);
+    const first = Math.floor(shift / unit) - 1;
+    ctx.beginPath();
+    ctx.moveTo(first * unit - shift, horizon);
+    for (let index = first; index * unit - shift < width + unit; index++) {
+      ctx.lineTo((index + 0.5) * unit - shift, horizon - height * (0.08 + 0.14 * hash(index)));
+      ctx.lineTo((index + 1) * unit - shift, horizon);
+    }
+    ctx.closePath();
+    ctx.fill();
+  } else {
+    const [low, high, amplitude] = palette.sceneryShape === 'hills' ? [0.006, 0.017, 0.05] : [0.003, 0.009, 0.035];
+    ctx.beginPath();
+    ctx.moveTo(0, horizon);
+    for (let x = 0; x <= width + 8; x += 8) {
+      const wave = Math.sin((x + shift) * low) + 0.5 * Math.sin((x + shift) * high + 1.3);
+      ctx.lineTo(x, horizon - height * (amplitude * 1.6 + amplitude * wave));
+    }
+    ctx.lineTo(width, horizon);
+    ctx.closePath();
+    ctx.fill();
+  }
+}
+
+function drawTrack(ctx: CanvasRenderingContext2D, view: View, palette: RunnerPalette, distance: number) {
+  const half = LANE_WIDTH * 1.5;
+  fillPolygon(ctx, palette.track, [
+    project(view, -half, 0, NEAR_DEPTH),
+    project(view, half, 0, NEAR_DEPTH),
+    project(view, half, 0, VIEW_DISTANCE),
+    project(view, -half, 0, VIEW_DISTANCE),
+  ]);
+
+  // Ties move towards the camera, which is what sells the speed
+  ctx.strokeStyle = palette.tie;
+  const firstTie = Math.ceil((distance + NEAR_DEPTH) / TIE_SPACING) * TIE_SPACING;
+  for (let z = firstTie; z - distance < VIEW_DISTANCE; z += TIE_SPACING) {
+    const depth = z - distance;
+    const left = project(view, -half + 0.1, 0, depth);
+    const right = project(view, half - 0.1, 0, depth);
+    ctx.lineWidth = Math.max(0.12 * left.scale, 0.5);
+    ctx.beginPath();
+    ctx.moveTo(left.x, left.y);
+    ctx.lineTo(right.x, right.y);
+    ctx.stroke();
+  }
+
+  for (const lane of LANES) {
+    for (const side of [-0.35, 0.35]) {
+      const x = lane * LANE_WIDTH + side;
+      fillPolygon(ctx, palette.rail, [
+        project(view, x - 0.04, 0, NEAR_DEPTH),
+        project(view, x + 0.04, 0, NEAR_DEPTH),
+        project(view, x + 0.04, 0, VIEW_DISTANCE),
+        project(view, x - 0.04, 0, VIEW_DISTANCE),
+      ]);
+    }
+  }
+}
+
+/**
+ * A box on the track, with its front and whichever side and top face
+ * the camera can see
+ */
+function drawBox(
+  ctx: CanvasRenderingContext2D,
+  view: View,
+  x: number,
+  width: number,
+  height: number,
+  near: number,
+  far: number,
+  front: string,
+  shade: string
+) {
+  const left = x - width / 2;
+  const right = x + width / 2;
+  const nearTopLeft = project(view, left, height, near);
+  const nearTopRight = project(view, right, height, near);
+  const nearBottomLeft = project(view, left, 0, near);
+  const nearBottomRight = project(view, right, 0, near);
+  const farTopLeft = project(view, left, height, far);
+  const farTopRight = project(view, right, height, far);
+
+  if (right < view.cameraX) {
+    fillPolygon(ctx, shade, [nearTopRight, farTopRight, project(view, right, 0, far), nearBottomRight]);
+  } else if (left > view.cameraX) {
+    fillPolygon(ctx, shade, [nearTopLeft, farTopLeft, project(view, left, 0, far), nearBottomLeft]);
+  }
+  if (height < CAMERA_HEIGHT) {
+    fillPolygon(ctx, shade, [nearTopLeft, nearTopRight, farTopRight, farTopLeft]);
+  }
+  fillPolygon(ctx, front, [nearTopLeft, nearTopRight, nearBottomRight, nearBottomLeft]);
+}
+
+function drawObstacle(
+  ctx: CanvasRenderingContext2D,
+  view: View,
+  palette: RunnerPalette,
+  obstacle: Obstacle,
+  near: number,
+  far: number,
+  time: number
+) {
+  const x = obstacle.lane * LANE_WIDTH;
+
+  if (obstacle.kind === 'train') {
+    drawBox(ctx, view, x, 1.1, TRAIN_HEIGHT, near, far, palette.train, palette.trainShade);
+    for (const side of [-1, 1]) {
+      fillPolygon(ctx, palette.window, [
+        project(view, x + side * 0.1, 1.3, near),
+        project(view, x + side * 0.4, 1.3, near),
+        project(view, x + side * 0.4, 0.95, near),
+        project(view, x + side * 0.1, 0.95, near),
+      ]);
+    }
+  } else if (obstacle.kind === 'barrier') {
+    drawBox(ctx, view, x, 1, BARRIER_HEIGHT, near, far, palette.barrier, palette.barrierStripe);
+    fillPolygon(ctx, palette.barrierStripe, [
+      project(view, x - 0.5, 0.42, near),
+      project(view, x + 0.5, 0.42, near),
+      project(view, x + 0.5, 0.3, near),
+      project(view, x - 0.5, 0.3, near),
+    ]);
+  } else {
+    const center = project(view, x, 0.55 + 0.06 * Math.sin(time * 3 + obstacle.z), near);
+    const radius = 0.22 * center.scale;
+    ctx.fillStyle = palette.coin;
+    ctx.beginPath();
+    ctx.ellipse(
+      center.x,
+      center.y,
+      Math.max(radius * Math.abs(Math.cos(time * 4 + obstacle.z)), 1),
+      radius,
+      0,
+      0,
+      Math.PI * 2
+    );
+    ctx.fill();
+  }
+}
+
+function drawPlayer(ctx: CanvasRenderingContext2D, view: View, palette: RunnerPalette, state: RunnerState) {
+  const x = state.lane * LANE_WIDTH;
+  const lift = state.jump >= 0 ? Math.sin((Math.PI * state.jump) / JUMP_DURATION) * JUMP_HEIGHT : 0;
+  const point = (dx: number, y: number) => project(view, x + dx, lift + y, PLAYER_DEPTH);
+  const ground = project(view, x, 0, PLAYER_DEPTH);
+  const scale = ground.scale;
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.25)';
+  ctx.beginPath();
+  ctx.ellipse(ground.x, ground.y, 0.3 * scale * (1 - lift * 0.3), 0.08 * scale, 0, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Legs and arms swing with the distance covered; tucked in mid-jump
+  const phase = state.distance * 1.6;
+  ctx.strokeStyle = palette.runner;
+  ctx.lineCap = 'round';
+  ctx.lineWidth = 0.13 * scale;
+  for (const [index, side] of [-1, 1].entries()) {
+    const swing = state.jump >= 0 ? 0.25 : Math.max(0, Math.sin(phase + index * Math.PI)) * 0.3;
+    const hip = point(side * 0.1, 0.8);
+    const foot = point(side * 0.12, 0.08 + swing);
+    ctx.beginPath();
+    ctx.moveTo(hip.x, hip.y);
+    ctx.lineTo(foot.x, foot.y);
+    ctx.stroke();
+
+    const shoulder = point(side * 0.27, 1.3);
+    const hand = point(side * 0.36, 0.95 + Math.sin(phase + index * Math.PI) * 0.12);
+    ctx.beginPath();
+    ctx.moveTo(shoulder.x, shoulder.y);
+    ctx.lineTo(hand.x, hand.y);
+    ctx.stroke();
+  }
+
+  fillPolygon(ctx, palette.runner, [point(-0.25, 1.38), point(0.25, 1.38), point(0.22, 0.75), point(-0.22, 0.75)]);
+
+  const head = point(0, 1.57);
+  const headRadius = 0.17 * scale;
+  ctx.fillStyle = palette.skin;
+  ctx.beginPath();
+  ctx.arc(head.x, head.y, headRadius, 0, Math.PI * 2);
+  ctx.fill();
+  // Cap, seen from behind
+  ctx.fillStyle = palette.runner;
+  ctx.beginPath();
+  ctx.arc(head.x, head.y, headRadius, Math.PI, Math.PI * 2);
+  ctx.fill();
+}
+
+/**
+ * Draw the current frame, sized in CSS pixels
+ */
+export function drawRunner(
+  ctx: CanvasRenderingContext2D,
+  state: RunnerState,
+  palette: RunnerPalette,
+  width: number,
+  height: number
+) {
+  const view: View = {
+    width,
+    height,
+    horizon: Math.round(height * 0.42),
+    focal: height * 0.9,
+    // Follow the runner partway, so lane changes are visible
+    cameraX: state.lane * LANE_WIDTH * 0.6,
+  };
+
+  const sky = ctx.createLinearGradient(0, 0, 0, view.horizon);
+  sky.addColorStop(0, palette.skyTop);
+  sky.addColorStop(1, palette.skyBottom);
+  ctx.fillStyle = sky;
+  ctx.fillRect(0, 0, width, view.horizon);
+  drawScenery(ctx, view, palette, state.distance);
+
+  ctx.fillStyle = palette.ground;
+  ctx.fillRect(0, view.horizon, width, height - view.horizon);
+  drawTrack(ctx, view, palette, state.distance);
+
+  // Painter's order: far obstacles first, the runner among them
+  const visible = state.obstacles
+    .map((obstacle) => ({
+      obstacle,
+      near: Math.max(obstacle.z - state.distance, NEAR_DEPTH),
+      far: Math.min(obstacle.z + obstacle.length - state.distance, VIEW_DISTANCE),
+    }))
+    .filter(({ near }) => near < VIEW_DISTANCE)
+    .sort((a, b) => b.near - a.near);
+
+  let playerDrawn = false;
+  for (const { obstacle, near, far } of visible) {
+    if (!playerDrawn && near < PLAYER_DEPTH) {
+      drawPlayer(ctx, view, palette, state);
+      playerDrawn = true;
+    }
+    // Fade in at the far end instead of popping into view
+    ctx.globalAlpha = Math.min((VIEW_DISTANCE - near) / 15, 1);
+    drawObstacle(ctx, view, palette, obstacle, near, Math.max(far, near), state.time);
+    ctx.globalAlpha = 1;
+  }
+  if (!playerDrawn) drawPlayer(ctx, view, palette, state);
+}
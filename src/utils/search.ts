@@ -0,0 +1,95 @@
+/**
+ * In-document search
+ * Matches are found chunk by chunk, in the offsets the reader renders
+ * marks in, and carry their block and page so results can name the
+ * section they are in.
+ */
+
+import type { TextChunk } from '../types';
+
+export interface SearchOptions {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+}
+
+export interface SearchMatch {
+  chunkId: number;
+  /** Offsets into the chunk's text */
+  start: number;
+  end: number;
+  blockIndex: number;
+  page?: number;
+}
+
+/** The list of results stops here; the count still covers every match */
+export const MAX_LISTED_RESULTS = 200;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Pattern for a query; whole words are bounded by anything but letters,
+ * digits and underscores
+ */
+function toPattern(query: string, { caseSensitive, wholeWord }: SearchOptions): RegExp {
+  const escaped = escapeRegExp(query);
+  const source = wholeWord ? `(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])` : escaped;
+  return new RegExp(source, caseSensitive ? 'gu' : 'giu');
+}
+
+/**
+ * Every match of `query` in document order. Image chunks only hold alt
+ * text and aren't searched.
+ */
+export function searchChunks(chunks: TextChunk[], query: string, options: SearchOptions): SearchMatch[] {
+  if (!query.trim()) return [];
+  const pattern = toPattern(query, options);
+  const matches: SearchMatch[] = [];
+  for (const chunk of chunks) {
+    if (chunk.kind === 'image') continue;
+    for (const match of chunk.text.matchAll(pattern)) {
+      if (!match[0]) continue;
+      matches.push({
+        chunkId: chunk.id,
+        start: match.index,
+        end: match.index + match[0].length,
+        blockIndex: chunk.blockIndex,
+        ...(chunk.page !== undefined ? { page: chunk.page } : {}),
+      });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Group matches by the chunk they are in, for rendering
+ */
+export function groupMatchesByChunk(matches: SearchMatch[]): Map<number, SearchMatch[]> {
+  const byChunk = new Map<number, SearchMatch[]>();
+  for (const match of matches) {
+    const list = byChunk.get(match.chunkId) ?? [];
+    list.push(match);
+    byChunk.set(match.chunkId, list);
+  }
+  return byChunk;
+}
+
+/**
+ * Chunk text around a match, cut at word boundaries
+ */
+export function getMatchContext(
+  text: string,
+  match: Pick<SearchMatch, 'start' | 'end'>,
+  length = 40
+): { before: string; text: string; after: string } {
+  let before = text.slice(Math.max(match.start - length, 0), match.start);
+  let after = text.slice(match.end, match.end + length);
+  if (match.start > length) before = '…' + before.replace(/^\S*\s/, '');
+  if (match.end + length < text.length) after = after.replace(/\s\S*$/, '') + '…';
+  return {
+    before: before.replace(/\s+/g, ' '),
+    text: text.slice(match.start, match.end),
+    after: after.replace(/\s+/g, ' '),
+  };
+}
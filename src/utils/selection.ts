@@ -0,0 +1,64 @@
+/**
+ * Map browser text selections in the reader back to document positions
+ */
+
+import type { TextChunk, TextPoint } from '../types';
+
+/**
+ * Number of characters of `root`'s text before a DOM position inside it
+ */
+function textOffsetIn(root: Element, node: Node, offset: number): number {
+  const range = document.createRange();
+  range.selectNodeContents(root);
+  range.setEnd(node, offset);
+  return range.toString().length;
+}
+
+/**
+ * The chunk rendered in a text root, found through its row's data-index
+ */
+function chunkOf(root: Element, chunks: TextChunk[]): TextChunk | undefined {
+  const row = root.closest<HTMLElement>('[data-index]');
+  return row ? chunks[Number(row.dataset.index)] : undefined;
+}
+
+function pointInRoot(root: Element, chunk: TextChunk, node: Node, offset: number): TextPoint {
+  const local = Math.min(textOffsetIn(root, node, offset), chunk.text.length);
+  return { blockIndex: chunk.blockIndex, offset: chunk.charOffset + local };
+}
+
+/**
+ * Document range covered by a selection inside `container`, or null if it
+ * holds no chunk text. Ends that fall outside chunk text (page dividers,
+ * list markers, triple-click selections) snap to the nearest chunk text.
+ */
+export function getSelectionRange(
+  selection: Selection | null,
+  container: Element,
+  chunks: TextChunk[]
+): { start: TextPoint; end: TextPoint } | null {
+  if (!selection || selection.isCollapsed || !selection.rangeCount) return null;
+  const range = selection.getRangeAt(0);
+  if (!container.contains(range.commonAncestorContainer)) return null;
+
+  const roots = [...container.querySelectorAll('[data-text-root]')].filter((root) => range.intersectsNode(root));
+  if (!roots.length) return null;
+
+  const first = roots[0];
+  const last = roots[roots.length - 1];
+  const firstChunk = chunkOf(first, chunks);
+  const lastChunk = chunkOf(last, chunks);
+  if (!firstChunk || !lastChunk) return null;
+
+  const start = first.contains(range.startContainer)
+    ? pointInRoot(first, firstChunk, range.startContainer, range.startOffset)
+    : { blockIndex: firstChunk.blockIndex, offset: firstChunk.charOffset };
+  const end = last.contains(range.endContainer)
+    ? pointInRoot(last, lastChunk, range.endContainer, range.endOffset)
+    : { blockIndex: lastChunk.blockIndex, offset: lastChunk.charOffset + lastChunk.text.length };
+
+  if (start.blockIndex > end.blockIndex || (start.blockIndex === end.blockIndex && start.offset >= end.offset)) {
+    return null;
+  }
+  return { start, end };
+}
@@ -0,0 +1,76 @@
+/**
+ * Reading statistics export
+ * One row per session, as CSV for spreadsheets or JSON for other tools.
+ */
+
+import type { ReadingSession } from '../types';
+import { getWpm } from './readingStats';
+
+interface ExportedSession extends Omit<ReadingSession, 'startedAt' | 'endedAt'> {
+  startedAt: string;
+  endedAt: string;
+  wpm: number;
+}
+
+function describeSessions(sessions: ReadingSession[]): ExportedSession[] {
+  return sessions.map((session) => ({
+    ...session,
+    startedAt: new Date(session.startedAt).toISOString(),
+    endedAt: new Date(session.endedAt).toISOString(),
+    wpm: getWpm(session),
+  }));
+}
+
+/**
+ * Quote a CSV field when it contains separators, quotes or line breaks
+ */
+function csvField(value: string | number | boolean | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function exportSessionsCsv(sessions: ReadingSession[]): string {
+  const header = [
+    'started_at',
+    'ended_at',
+    'title',
+    'document_hash',
+    'active_seconds',
+    'words',
+    'chunks',
+    'wpm',
+    'reading_mode',
+    'font_family',
+    'font_size',
+    'chunk_size',
+    'bionic',
+    'background',
+    'theme',
+  ];
+  const rows = describeSessions(sessions).map((session) =>
+    [
+      session.startedAt,
+      session.endedAt,
+      session.title,
+      session.documentHash,
+      Math.round(session.activeMs / 1000),
+      session.words,
+      session.chunks,
+      session.wpm,
+      session.settings.readingMode,
+      session.settings.fontFamily,
+      session.settings.fontSize,
+      session.settings.chunkSize,
+      session.settings.bionicEnabled,
+      session.settings.backgroundSource,
+      session.settings.theme,
+    ]
+      .map(csvField)
+      .join(',')
+  );
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
+
+export function exportSessionsJson(sessions: ReadingSession[]): string {
+  return JSON.stringify({ exportedAt: new Date().toISOString(), sessions: describeSessions(sessions) }, null, 2);
+}
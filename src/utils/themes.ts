@@ -0,0 +1,184 @@
+import type { BuiltInTheme, CustomTheme, HighlightColor, ThemeColors } from '../types';
+
+export interface ThemeDefinition extends ThemeColors {
+  label: string;
+  /** Second accent for gradients; defaults to the accent */
+  accentAlt?: string;
+  /** Solid borders and full-strength secondary text */
+  highContrast?: boolean;
+}
+
+/**
+ * Themes that come with the app. The overlay themes tint the whole screen,
+ * background included, the way colored reading overlays do.
+ */
+export const BUILT_IN_THEMES: Record<BuiltInTheme, ThemeDefinition> = {
+  dark: {
+    label: 'Dark',
+    background: '#0f0f1a',
+    surface: '#1a1a2e',
+    text: '#ffffff',
+    accent: '#00ff88',
+    accentAlt: '#00d4ff',
+  },
+  light: {
+    label: 'Light',
+    background: '#dfe3ec',
+    surface: '#ffffff',
+    text: '#1a1a2e',
+    accent: '#00875a',
+    accentAlt: '#0077b6',
+  },
+  sepia: {
+    label: 'Sepia',
+    background: '#d9c8a5',
+    surface: '#f4ead5',
+    text: '#433422',
+    accent: '#9c5b12',
+    accentAlt: '#b5651d',
+  },
+  'high-contrast': {
+    label: 'High contrast',
+    background: '#000000',
+    surface: '#000000',
+    text: '#ffffff',
+    accent: '#ffff00',
+    highContrast: true,
+  },
+  'blue-overlay': {
+    label: 'Blue overlay',
+    background: '#d6e4f0',
+    surface: '#f5f9fc',
+    text: '#14213d',
+    accent: '#1d5fbf',
+    overlay: { color: '#4da3ff', opacity: 0.18 },
+  },
+  'yellow-overlay': {
+    label: 'Yellow overlay',
+    background: '#ece3b8',
+    surface: '#fffbe6',
+    text: '#2b2616',
+    accent: '#8a6d00',
+    overlay: { color: '#ffd60a', opacity: 0.2 },
+  },
+  'peach-overlay': {
+    label: 'Peach overlay',
+    background: '#f0d8c8',
+    surface: '#fff4ec',
+    text: '#3a2418',
+    accent: '#b3541e',
+    overlay: { color: '#ff9f6e', opacity: 0.18 },
+  },
+};
+
+export function isBuiltInTheme(id: string): id is BuiltInTheme {
+  return Object.prototype.hasOwnProperty.call(BUILT_IN_THEMES, id);
+}
+
+/**
+ * The theme for a setting value; unknown ids (a deleted custom theme) fall
+ * back to dark
+ */
+export function resolveTheme(id: string, customThemes: CustomTheme[]): ThemeDefinition {
+  if (isBuiltInTheme(id)) return BUILT_IN_THEMES[id];
+  const custom = customThemes.find((theme) => theme.id === id);
+  return custom ? { ...custom, label: custom.name } : BUILT_IN_THEMES.dark;
+}
+
+/**
+ * Red, green and blue of a #rgb or #rrggbb color, from 0 to 255
+ */
+export function parseHexColor(color: string): [number, number, number] | null {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+  if (!match) return null;
+  const hex = match[1].length === 3 ? [...match[1]].map((digit) => digit + digit).join('') : match[1];
+  return [0, 2, 4].map((index) => parseInt(hex.slice(index, index + 2), 16)) as [number, number, number];
+}
+
+function withAlpha(color: string, alpha: number): string {
+  const rgb = parseHexColor(color);
+  return rgb ? `rgba(${rgb.join(', ')}, ${alpha})` : color;
+}
+
+/**
+ * WCAG relative luminance, from 0 (black) to 1 (white)
+ */
+function getLuminance(color: string): number {
+  const rgb = parseHexColor(color) ?? [0, 0, 0];
+  const [r, g, b] = rgb.map((value) => {
+    const channel = value / 255;
+    return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * WCAG contrast ratio of two colors, from 1 to 21
+ */
+export function getContrastRatio(a: string, b: string): number {
+  const [lighter, darker] = [getLuminance(a), getLuminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/** WCAG 2 minimums for body text, and for large text and interface parts */
+export const CONTRAST_AA = 4.5;
+export const CONTRAST_AA_LARGE = 3;
+export const CONTRAST_AAA = 7;
+
+export function getContrastGrade(ratio: number): 'AAA' | 'AA' | 'AA large' | 'Fail' {
+  if (ratio >= CONTRAST_AAA) return 'AAA';
+  if (ratio >= CONTRAST_AA) return 'AA';
+  if (ratio >= CONTRAST_AA_LARGE) return 'AA large';
+  return 'Fail';
+}
+
+export function isDarkTheme(theme: ThemeColors): boolean {
+  return getLuminance(theme.surface) < 0.4;
+}
+
+/**
+ * CSS custom properties for a theme. Components style themselves with
+ * these rather than with colors of their own; index.css holds the dark
+ * values for the first paint.
+ */
+export function createDesignTokens(theme: ThemeDefinition): Record<string, string> {
+  const strong = theme.highContrast ?? false;
+  const text = (alpha: number) => withAlpha(theme.text, alpha);
+  // Text on accent buttons: whichever of the surface and text colors reads better
+  const onAccent =
+    getContrastRatio(theme.surface, theme.accent) >= getContrastRatio(theme.text, theme.accent)
+      ? theme.surface
+      : theme.text;
+
+  return {
+    '--color-background': theme.background,
+    '--color-header': withAlpha(theme.background, strong ? 1 : 0.9),
+    '--color-surface': theme.surface,
+    '--color-reader': withAlpha(theme.surface, strong ? 1 : 0.92),
+    '--color-text': theme.text,
+    '--color-text-secondary': text(strong ? 1 : 0.8),
+    '--color-text-muted': text(strong ? 0.9 : 0.6),
+    '--color-text-subtle': text(strong ? 0.75 : 0.4),
+    '--color-fill': text(strong ? 0.08 : 0.05),
+    '--color-fill-strong': text(strong ? 0.16 : 0.1),
+    '--color-fill-heavy': text(strong ? 0.3 : 0.2),
+    '--color-border': text(strong ? 0.6 : 0.12),
+    '--color-border-strong': text(strong ? 0.9 : 0.25),
+    '--color-accent': theme.accent,
+    '--color-accent-alt': theme.accentAlt ?? theme.accent,
+    '--color-accent-soft': withAlpha(theme.accent, strong ? 0.3 : 0.15),
+    '--color-accent-border': withAlpha(theme.accent, strong ? 1 : 0.4),
+    '--color-on-accent': onAccent,
+  };
+}
+
+/**
+ * Highlight fills, translucent so they read on every theme
+ */
+export const HIGHLIGHT_COLORS: Record<HighlightColor, { label: string; fill: string }> = {
+  yellow: { label: 'Yellow', fill: 'rgba(255, 214, 0, 0.4)' },
+  green: { label: 'Green', fill: 'rgba(0, 230, 120, 0.35)' },
+  blue: { label: 'Blue', fill: 'rgba(0, 170, 255, 0.35)' },
+  pink: { label: 'Pink', fill: 'rgba(255, 90, 170, 0.35)' },
+  purple: { label: 'Purple', fill: 'rgba(160, 100, 255, 0.4)' },
+};
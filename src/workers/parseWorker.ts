@@ -0,0 +1,45 @@
+/**
+ * Document parsing worker
+ * Runs parseFile off the main thread, reporting progress and passing on
+ * blocks as pages or chapters are read.
+ */
+
+import type { DocumentBlock, ParsedDocument, ParseProgress } from '../types';
+import { parseFile } from '../utils/fileParsers';
+
+export type ParseWorkerMessage =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'blocks'; blocks: DocumentBlock[] }
+  | { type: 'done'; document: ParsedDocument }
+  | { type: 'error'; message: string };
+
+// Streamed blocks are batched so the reader re-chunks a few times a second at most
+const BLOCK_BATCH_MS = 250;
+
+const post = (message: ParseWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<File>) => {
+  let pending: DocumentBlock[] = [];
+  let lastFlush = 0;
+
+  const flushBlocks = () => {
+    if (pending.length) post({ type: 'blocks', blocks: pending });
+    pending = [];
+    lastFlush = performance.now();
+  };
+
+  try {
+    const document = await parseFile(event.data, {
+      onProgress: (progress) => post({ type: 'progress', progress }),
+      onBlocks: (blocks) => {
+        pending.push(...blocks);
+        // The first batch goes out at once so the reader can open
+        if (!lastFlush || performance.now() - lastFlush >= BLOCK_BATCH_MS) flushBlocks();
+      },
+    });
+    flushBlocks();
+    post({ type: 'done', document });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : 'Failed to parse file' });
+  }
+};
@@ -4,4 +4,8 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // The parser worker bundles PDF.js, which needs ES module output
+  worker: {
+    format: 'es',
+  },
 })